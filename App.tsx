@@ -1,5 +1,5 @@
 import React, { useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { LinkingOptions, NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { Provider, useDispatch, useSelector } from 'react-redux';
 import { store } from './src/store';
@@ -8,6 +8,8 @@ import { onAuthStateChanged } from 'firebase/auth';
 import { auth, db } from './src/services/firebase';
 import { setUser, clearUser } from './src/store/slices/authSlice';
 import { doc, getDoc } from 'firebase/firestore';
+import { screensFor } from './src/utils/roleAccess';
+import { APP_LINK_PREFIX } from './src/utils/invites';
 
 // Screens
 import LoginScreen from './src/screens/Auth/LoginScreen';
@@ -16,9 +18,41 @@ import HomeScreen from './src/screens/HomeScreen';
 import SenderDashboard from './src/screens/SenderDashboard';
 import ReceiverDashboard from './src/screens/ReceiverDashboard';
 import SettingsScreen from './src/screens/SettingsScreen';
+import HistoryScreen from './src/screens/HistoryScreen';
+import DeliveryReportScreen from './src/screens/DeliveryReportScreen';
+import GroupsScreen from './src/screens/GroupsScreen';
+import ImportRecipientsScreen from './src/screens/ImportRecipientsScreen';
+import UsersScreen from './src/screens/UsersScreen';
+import InvitesScreen from './src/screens/InvitesScreen';
+import JoinInviteScreen from './src/screens/JoinInviteScreen';
+import SubscriptionsScreen from './src/screens/SubscriptionsScreen';
 
 const Stack = createNativeStackNavigator();
 
+const APP_SCREENS: Record<string, React.ComponentType<any>> = {
+  Home: HomeScreen,
+  Settings: SettingsScreen,
+  SenderDashboard,
+  History: HistoryScreen,
+  DeliveryReport: DeliveryReportScreen,
+  Groups: GroupsScreen,
+  ImportRecipients: ImportRecipientsScreen,
+  Invites: InvitesScreen,
+  ReceiverDashboard,
+  JoinInvite: JoinInviteScreen,
+  Subscriptions: SubscriptionsScreen,
+  Users: UsersScreen,
+};
+
+/**
+ * `myazan://invite/<code>` (the invite QR code) opens JoinInvite. Links only
+ * resolve for signed-in receivers, the only role that registers the screen.
+ */
+const linking: LinkingOptions<ReactNavigation.RootParamList> = {
+  prefixes: [APP_LINK_PREFIX],
+  config: { screens: { JoinInvite: 'invite/:code' } },
+};
+
 function AuthNavigator() {
   return (
     <Stack.Navigator
@@ -32,17 +66,23 @@ function AuthNavigator() {
   );
 }
 
+/**
+ * Only registers the screens the user's role allows (see `screensFor()`), so
+ * other roles' screens cannot be navigated to at all. Remounts on a role change.
+ */
 function AppNavigator() {
+  const role = useSelector((state: RootState) => state.auth.role);
+
   return (
     <Stack.Navigator
+      key={role ?? 'none'}
       screenOptions={{
         headerShown: true,
       }}
     >
-      <Stack.Screen name="Home" component={HomeScreen} />
-      <Stack.Screen name="SenderDashboard" component={SenderDashboard} />
-      <Stack.Screen name="ReceiverDashboard" component={ReceiverDashboard} />
-      <Stack.Screen name="Settings" component={SettingsScreen} />
+      {screensFor(role).map((name) => (
+        <Stack.Screen key={name} name={name} component={APP_SCREENS[name]} />
+      ))}
     </Stack.Navigator>
   );
 }
@@ -56,7 +96,8 @@ function RootNavigator() {
       if (user) {
         try {
           const snap = await getDoc(doc(db, 'users', user.uid));
-          const userData = snap.exists() ? snap.data() : { uid: user.uid, name: user.email, role: 'receiver' };
+          // Right after sign-up the profile may not exist yet; RegisterScreen sets the role once it does
+          const userData = snap.exists() ? snap.data() : { uid: user.uid, name: user.email, role: undefined };
           dispatch(setUser({ uid: user.uid, name: userData.name, email: user.email, role: userData.role }));
         } catch (error) {
           console.error('Error loading user data:', error);
@@ -74,7 +115,7 @@ function RootNavigator() {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       {uid ? <AppNavigator /> : <AuthNavigator />}
     </NavigationContainer>
   );
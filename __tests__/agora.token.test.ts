@@ -1,16 +1,28 @@
-import { generateAgoraToken } from '../src/services/api';
-import axios from 'axios';
+import { apiClient, generateAgoraToken } from '../src/services/api';
+import { AxiosError } from 'axios';
 import * as firebaseAuth from 'firebase/auth';
 
-jest.mock('axios');
 jest.mock('firebase/auth');
 
 describe('Agora Token Generation', () => {
   const mockToken = 'mock_agora_token_12345';
   const mockExpiresAt = new Date(Date.now() + 3600000).toISOString();
+  const mockAdapter = jest.fn();
+
+  const respondWith = (data: any) =>
+    mockAdapter.mockImplementationOnce(async (config) => ({
+      data,
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    }));
+
+  const lastRequest = () => mockAdapter.mock.calls[mockAdapter.mock.calls.length - 1][0];
 
   beforeEach(() => {
     jest.clearAllMocks();
+    apiClient.defaults.adapter = mockAdapter;
     // Mock Firebase auth
     (firebaseAuth.getAuth as jest.Mock).mockReturnValue({
       currentUser: {
@@ -20,48 +32,48 @@ describe('Agora Token Generation', () => {
   });
 
   it('should generate a valid token for publisher role', async () => {
-    (axios.post as jest.Mock).mockResolvedValueOnce({
-      data: { token: mockToken, expiresAt: mockExpiresAt },
-    });
+    respondWith({ token: mockToken, expiresAt: mockExpiresAt, uid: 123 });
 
-    const result = await generateAgoraToken('test_channel', 123, 'publisher');
+    const result = await generateAgoraToken('test_channel', 'publisher', 123);
 
     expect(result.token).toBe(mockToken);
     expect(result.expiresAt).toBe(mockExpiresAt);
-    expect(axios.post).toHaveBeenCalledWith(
-      expect.stringContaining('/api/token/generate'),
-      expect.objectContaining({
-        channelName: 'test_channel',
-        uid: 123,
-        role: 'publisher',
-      }),
-      expect.any(Object)
-    );
+    expect(result.uid).toBe(123);
+    const request = lastRequest();
+    expect(request.method).toBe('post');
+    expect(`${request.baseURL}${request.url}`).toContain('/api/token/generate');
+    expect(JSON.parse(request.data)).toEqual({
+      channelName: 'test_channel',
+      uid: 123,
+      role: 'publisher',
+    });
+    expect(request.headers.get('Authorization')).toBe('Bearer mock_firebase_token');
   });
 
   it('should generate a valid token for audience role', async () => {
-    (axios.post as jest.Mock).mockResolvedValueOnce({
-      data: { token: mockToken, expiresAt: mockExpiresAt },
-    });
+    respondWith({ token: mockToken, expiresAt: mockExpiresAt, uid: 123 });
 
-    const result = await generateAgoraToken('test_channel', 456, 'audience');
+    const result = await generateAgoraToken('test_channel', 'audience');
 
     expect(result.token).toBe(mockToken);
-    expect(axios.post).toHaveBeenCalledWith(
-      expect.stringContaining('/api/token/generate'),
-      expect.objectContaining({
-        role: 'audience',
-      }),
-      expect.any(Object)
-    );
+    // The backend allocates the uid when none is sent
+    expect(JSON.parse(lastRequest().data)).toEqual({
+      channelName: 'test_channel',
+      role: 'audience',
+    });
   });
 
   it('should handle token generation errors gracefully', async () => {
-    const mockError = new Error('Backend unavailable');
-    (axios.post as jest.Mock).mockRejectedValueOnce(mockError);
+    mockAdapter.mockImplementationOnce(async (config) => {
+      throw new AxiosError('Backend unavailable', 'ECONNREFUSED', config);
+    });
 
-    await expect(generateAgoraToken('test_channel', 123, 'publisher')).rejects.toThrow(
-      'Backend unavailable'
-    );
+    await expect(generateAgoraToken('test_channel', 'publisher', 123)).rejects.toMatchObject({
+      name: 'ApiError',
+      kind: 'network',
+      message: 'Backend unavailable',
+    });
+    // Token generation is a POST, so it is not retried
+    expect(mockAdapter).toHaveBeenCalledTimes(1);
   });
 });
@@ -0,0 +1,139 @@
+import { ApiError, createApiClient, isApiError } from '../src/services/apiClient';
+import { AxiosError } from 'axios';
+
+describe('createApiClient', () => {
+  const getIdToken = jest.fn();
+  const mockAdapter = jest.fn();
+
+  const ok = (data: any) => async (config: any) => ({
+    data,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  });
+
+  const fail = (status: number, data: any = {}) => async (config: any) => {
+    const response = { data, status, statusText: '', headers: {}, config };
+    throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+  };
+
+  const networkError = () => async (config: any) => {
+    throw new AxiosError('Network Error', 'ERR_NETWORK', config);
+  };
+
+  const buildClient = () => {
+    const client = createApiClient({
+      baseURL: 'http://localhost:4000/api',
+      getIdToken,
+      maxRetries: 2,
+      retryBaseDelayMs: 0,
+    });
+    client.defaults.adapter = mockAdapter;
+    return client;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getIdToken.mockImplementation(async (forceRefresh?: boolean) =>
+      forceRefresh ? 'fresh_token' : 'cached_token'
+    );
+  });
+
+  it('should inject the ID token and apply a timeout', async () => {
+    mockAdapter.mockImplementationOnce(ok({ uid: 'user1' }));
+
+    const res = await buildClient().get('/user/user1');
+
+    expect(res.data).toEqual({ uid: 'user1' });
+    const request = mockAdapter.mock.calls[0][0];
+    expect(request.headers.get('Authorization')).toBe('Bearer cached_token');
+    expect(request.timeout).toBeGreaterThan(0);
+  });
+
+  it('should refresh the token once on 401 and replay the request', async () => {
+    mockAdapter.mockImplementationOnce(fail(401)).mockImplementationOnce(ok({ success: true }));
+
+    const res = await buildClient().post('/user', { name: 'A' });
+
+    expect(res.data).toEqual({ success: true });
+    expect(getIdToken).toHaveBeenLastCalledWith(true);
+    expect(mockAdapter.mock.calls[1][0].headers.get('Authorization')).toBe('Bearer fresh_token');
+  });
+
+  it('should give up with an auth error when the refreshed token is also rejected', async () => {
+    mockAdapter.mockImplementation(fail(401, { error: 'Invalid token' }));
+
+    await expect(buildClient().get('/user')).rejects.toMatchObject({
+      kind: 'auth',
+      status: 401,
+      message: 'Invalid token',
+    });
+    expect(mockAdapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry idempotent requests on server errors', async () => {
+    mockAdapter
+      .mockImplementationOnce(fail(503))
+      .mockImplementationOnce(networkError())
+      .mockImplementationOnce(ok([]));
+
+    const res = await buildClient().get('/announcements/live');
+
+    expect(res.data).toEqual([]);
+    expect(mockAdapter).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop retrying after maxRetries', async () => {
+    mockAdapter.mockImplementation(fail(500));
+
+    await expect(buildClient().delete('/announcements/s1')).rejects.toMatchObject({ kind: 'server' });
+    expect(mockAdapter).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-idempotent requests', async () => {
+    mockAdapter.mockImplementation(fail(500));
+
+    await expect(buildClient().post('/announcements', {})).rejects.toMatchObject({ kind: 'server' });
+    expect(mockAdapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    mockAdapter.mockImplementation(fail(404));
+
+    const error = await buildClient().get('/user/missing').catch((e) => e);
+
+    expect(isApiError(error, 'not_found')).toBe(true);
+    expect(mockAdapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail with an auth error when signed out', async () => {
+    getIdToken.mockRejectedValueOnce(new Error('Not authenticated'));
+
+    const error = await buildClient().get('/user').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.kind).toBe('auth');
+    expect(mockAdapter).not.toHaveBeenCalled();
+  });
+});
+
+describe('ApiError.from', () => {
+  const withStatus = (status: number) =>
+    new AxiosError('failed', 'ERR_BAD_RESPONSE', undefined, null, {
+      data: {},
+      status,
+      statusText: '',
+      headers: {},
+      config: {} as any,
+    });
+
+  it('should map HTTP statuses onto error kinds', () => {
+    expect(ApiError.from(withStatus(403)).kind).toBe('auth');
+    expect(ApiError.from(withStatus(404)).kind).toBe('not_found');
+    expect(ApiError.from(withStatus(409)).kind).toBe('conflict');
+    expect(ApiError.from(withStatus(502)).kind).toBe('server');
+    expect(ApiError.from(withStatus(400)).kind).toBe('client');
+    expect(ApiError.from(new AxiosError('timeout of 10000ms exceeded', 'ECONNABORTED')).kind).toBe('network');
+  });
+});
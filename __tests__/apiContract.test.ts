@@ -0,0 +1,358 @@
+/**
+ * Contract tests: every request the client sends must match an operation in
+ * openapi/openapi.json, with a body that validates against its schema.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import Ajv2020 from 'ajv/dist/2020';
+import * as api from '../src/services/api';
+import * as firebaseAuth from 'firebase/auth';
+
+jest.mock('firebase/auth');
+
+const ROOT = path.join(__dirname, '..');
+const SPEC_PATH = path.join(ROOT, 'openapi', 'openapi.json');
+const GENERATED_TYPES_PATH = path.join(ROOT, 'src', 'types', 'openapi.generated.ts');
+
+const spec = JSON.parse(fs.readFileSync(SPEC_PATH, 'utf8'));
+
+const ajv = new Ajv2020({ strict: false, validateFormats: false, allErrors: true });
+ajv.addSchema(spec, 'openapi');
+
+const pointer = (...segments: string[]) =>
+  'openapi#/' +
+  segments.map((s) => encodeURIComponent(s.replace(/~/g, '~0').replace(/\//g, '~1'))).join('/');
+
+/**
+ * Find the spec path template for a concrete URL, preferring literal segments
+ * (`/announcements/live` over `/announcements/{sessionId}`).
+ */
+function matchPath(url: string): string | undefined {
+  return Object.keys(spec.paths)
+    .filter((template) => {
+      const pattern = template.replace(/\{[^}]+\}/g, '[^/]+');
+      return new RegExp(`^${pattern}$`).test(url);
+    })
+    .sort((a, b) => (a.match(/\{/g) || []).length - (b.match(/\{/g) || []).length)[0];
+}
+
+interface ContractCase {
+  operationId: string;
+  call: () => Promise<unknown>;
+  response: unknown;
+}
+
+const user = { uid: 'user1', name: 'Ahmed', email: 'ahmed@example.com', role: 'sender' };
+const group = { groupId: 'group1', name: 'Family', receiverIds: ['receiver1'] };
+const request = {
+  senderId: 'sender1',
+  receiverId: 'receiver2',
+  status: 'pending',
+  requestedAt: '2024-01-15T09:00:00.000Z',
+  groupIds: ['group1'],
+};
+const mapping = { senderId: 'sender1', receivers: ['receiver1'], groups: [group], requests: [request] };
+const invite = {
+  code: 'K7QM4XPA',
+  senderId: 'sender1',
+  createdAt: '2024-01-15T09:00:00.000Z',
+  expiresAt: null,
+  maxUses: null,
+  uses: 3,
+  status: 'active',
+};
+const announcement = {
+  sessionId: 'sender1_1700000000000',
+  senderId: 'sender1',
+  channelName: 'myazan_sender1',
+  isLive: true,
+  startedAt: '2024-01-15T10:00:00.000Z',
+};
+
+const cases: ContractCase[] = [
+  {
+    operationId: 'generateAgoraToken',
+    call: () => api.generateAgoraToken('myazan_sender1', 'publisher'),
+    response: { token: 'token', expiresAt: '2024-01-15T11:00:00.000Z', uid: 1234 },
+  },
+  {
+    operationId: 'resolveAgoraUid',
+    call: () => api.resolveAgoraUid(1234),
+    response: { agoraUid: 1234, uid: 'user1' },
+  },
+  {
+    operationId: 'createUser',
+    call: () => api.createUser('Ahmed', 'ahmed@example.com', 'sender'),
+    response: user,
+  },
+  { operationId: 'getUser', call: () => api.getUser('user1'), response: user },
+  {
+    operationId: 'updateUser',
+    call: () => api.updateUser('user1', 'Ahmed', 'receiver'),
+    response: { ...user, role: 'receiver' },
+  },
+  { operationId: 'getAllUsers', call: () => api.getAllUsers(), response: [user] },
+  { operationId: 'getMapping', call: () => api.getMapping('sender1'), response: mapping },
+  {
+    operationId: 'addReceiverToMapping',
+    call: () => api.addReceiverToMapping('sender1', 'receiver2'),
+    response: mapping,
+  },
+  {
+    operationId: 'removeReceiverFromMapping',
+    call: () => api.removeReceiverFromMapping('sender1', 'receiver1'),
+    response: { ...mapping, receivers: [] },
+  },
+  {
+    operationId: 'getSubscriptions',
+    call: () => api.getSubscriptions('receiver1'),
+    response: { receiverId: 'receiver1', senderIds: ['sender1'] },
+  },
+  {
+    operationId: 'getSubscriptionRequests',
+    call: () => api.getSubscriptionRequests('receiver2'),
+    response: [{ senderId: 'sender1', senderName: 'Masjid', requestedAt: request.requestedAt }],
+  },
+  {
+    operationId: 'approveSubscriptionRequest',
+    call: () => api.approveSubscriptionRequest('receiver2', 'sender1'),
+    response: { receiverId: 'receiver2', senderIds: ['sender1'] },
+  },
+  {
+    operationId: 'declineSubscriptionRequest',
+    call: () => api.declineSubscriptionRequest('receiver2', 'sender1'),
+    response: { success: true },
+  },
+  {
+    operationId: 'revokeSubscription',
+    call: () => api.revokeSubscription('receiver1', 'sender1'),
+    response: { receiverId: 'receiver1', senderIds: [] },
+  },
+  {
+    operationId: 'getAnnouncement',
+    call: () => api.getAnnouncement(announcement.sessionId),
+    response: announcement,
+  },
+  {
+    operationId: 'createAnnouncement',
+    call: () =>
+      api.createAnnouncement(
+        announcement.sessionId,
+        announcement.channelName,
+        '2024-01-15T11:00:00.000Z'
+      ),
+    response: announcement,
+  },
+  {
+    operationId: 'updateAnnouncement',
+    call: () => api.updateAnnouncement(announcement.sessionId, false),
+    response: { ...announcement, isLive: false, endedAt: '2024-01-15T10:30:00.000Z' },
+  },
+  {
+    operationId: 'endAnnouncement',
+    call: () => api.endAnnouncement(announcement.sessionId),
+    response: { success: true },
+  },
+  { operationId: 'getLiveAnnouncements', call: () => api.getLiveAnnouncements(), response: [announcement] },
+  {
+    operationId: 'getAnnouncementsBySender',
+    call: () => api.getAnnouncementsBySender('sender1', { from: '2024-01-01T00:00:00.000Z', limit: 20 }),
+    response: [
+      {
+        ...announcement,
+        isLive: false,
+        endedAt: '2024-01-15T10:05:00.000Z',
+        title: 'Maghrib Azan',
+        prayer: 'maghrib',
+        peakListeners: 12,
+        endedReason: 'manual',
+        mappedReceiverIds: ['receiver1'],
+      },
+    ],
+  },
+  {
+    operationId: 'createReceiverGroup',
+    call: () => api.createReceiverGroup('sender1', 'Family', ['receiver1']),
+    response: mapping,
+  },
+  {
+    operationId: 'updateReceiverGroup',
+    call: () => api.updateReceiverGroup('sender1', 'group1', { name: 'Close family' }),
+    response: { ...mapping, groups: [{ ...group, name: 'Close family' }] },
+  },
+  {
+    operationId: 'deleteReceiverGroup',
+    call: () => api.deleteReceiverGroup('sender1', 'group1'),
+    response: { ...mapping, groups: [] },
+  },
+  {
+    operationId: 'resolveRecipients',
+    call: () => api.resolveRecipients('sender1', ['group1']),
+    response: { receiverIds: ['receiver1'] },
+  },
+  {
+    operationId: 'importRecipients',
+    call: () =>
+      api.importRecipients('sender1', [{ email: 'receiver1@example.com', name: 'Receiver', group: 'Family' }], true),
+    response: {
+      dryRun: true,
+      requested: 0,
+      groupsCreated: [],
+      rows: [
+        {
+          row: 1,
+          email: 'receiver1@example.com',
+          status: 'existing',
+          receiverId: 'receiver1',
+          name: 'Receiver',
+          group: 'Family',
+          message: null,
+        },
+      ],
+      mapping,
+    },
+  },
+  {
+    operationId: 'exportRecipients',
+    call: () => api.exportRecipients('sender1'),
+    response: {
+      senderId: 'sender1',
+      rows: [{ receiverId: 'receiver1', email: 'receiver1@example.com', name: 'Receiver', group: 'Family' }],
+    },
+  },
+  {
+    operationId: 'getInvites',
+    call: () => api.getInvites('sender1'),
+    response: [invite],
+  },
+  {
+    operationId: 'createInvite',
+    call: () => api.createInvite('sender1', { maxUses: 50, expiresAt: '2024-02-01T00:00:00.000Z' }),
+    response: { ...invite, maxUses: 50, expiresAt: '2024-02-01T00:00:00.000Z' },
+  },
+  {
+    operationId: 'revokeInvite',
+    call: () => api.revokeInvite('sender1', invite.code),
+    response: { success: true },
+  },
+  {
+    operationId: 'getInvite',
+    call: () => api.getInvite(invite.code),
+    response: { code: invite.code, senderId: 'sender1', senderName: 'Masjid', expiresAt: null, status: 'active' },
+  },
+  {
+    operationId: 'acceptInvite',
+    call: () => api.acceptInvite(invite.code),
+    response: { senderId: 'sender1', senderName: 'Masjid', alreadySubscribed: false },
+  },
+  {
+    operationId: 'getDeliveryReport',
+    call: () => api.getDeliveryReport(announcement.sessionId),
+    response: {
+      sessionId: announcement.sessionId,
+      startedAt: announcement.startedAt,
+      endedAt: '2024-01-15T10:05:00.000Z',
+      mappedReceivers: 2,
+      heardReceivers: 1,
+      receivers: [
+        {
+          receiverId: 'receiver2',
+          name: 'Fatima',
+          status: 'missed',
+          firstJoinedAt: null,
+          listenedSeconds: 0,
+          joins: 0,
+        },
+        {
+          receiverId: 'receiver1',
+          name: 'Yusuf',
+          status: 'heard',
+          firstJoinedAt: '2024-01-15T10:01:00.000Z',
+          listenedSeconds: 240,
+          joins: 1,
+        },
+      ],
+      otherListeners: [],
+    },
+  },
+];
+
+describe('API contract', () => {
+  const mockAdapter = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    api.apiClient.defaults.adapter = mockAdapter;
+    (firebaseAuth.getAuth as jest.Mock).mockReturnValue({
+      currentUser: {
+        getIdToken: jest.fn().mockResolvedValue('mock_firebase_token'),
+      },
+    });
+  });
+
+  it('should cover every operation in the spec', () => {
+    const specOperations = Object.values(spec.paths).flatMap((item: any) =>
+      Object.values(item)
+        .map((operation: any) => operation?.operationId)
+        .filter(Boolean)
+    );
+
+    expect(cases.map((c) => c.operationId).sort()).toEqual(specOperations.sort());
+  });
+
+  it.each(cases)('$operationId should send a request the spec accepts', async ({ operationId, call, response }) => {
+    mockAdapter.mockImplementationOnce(async (config) => ({
+      data: response,
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    }));
+
+    await call();
+
+    const request = mockAdapter.mock.calls[0][0];
+    const method = request.method.toLowerCase();
+    const template = matchPath(request.url);
+    expect(template).toBeDefined();
+
+    const operation = spec.paths[template!][method];
+    expect(operation?.operationId).toBe(operationId);
+    expect(request.headers.get('Authorization')).toBe('Bearer mock_firebase_token');
+
+    const requestBody = operation.requestBody;
+    if (request.data !== undefined) {
+      expect(requestBody).toBeDefined();
+      const validate = ajv.getSchema(
+        pointer('paths', template!, method, 'requestBody', 'content', 'application/json', 'schema')
+      )!;
+      const body = JSON.parse(request.data);
+      expect(validate(body) ? null : validate.errors).toBeNull();
+    } else {
+      expect(requestBody?.required).not.toBe(true);
+    }
+
+    // Fixtures must also be valid responses, so they stay honest as the spec evolves
+    const status = Object.keys(operation.responses).find((code) => code.startsWith('2'))!;
+    const validateResponse = ajv.getSchema(
+      pointer('paths', template!, method, 'responses', status, 'content', 'application/json', 'schema')
+    )!;
+    expect(validateResponse(response) ? null : validateResponse.errors).toBeNull();
+  });
+
+  it('should reject payloads that drift from the spec', () => {
+    const validate = ajv.getSchema(pointer('components', 'schemas', 'GenerateTokenRequest'))!;
+
+    expect(validate({ channelName: 'myazan_sender1', uid: 0, role: 'publisher' })).toBe(true);
+    expect(validate({ channelName: 'myazan_sender1', uid: 0, role: 'host' })).toBe(false);
+    expect(validate({ channel: 'myazan_sender1', uid: 0, role: 'publisher' })).toBe(false);
+  });
+
+  it('should keep the generated types in sync with the spec', () => {
+    const bin = path.join(ROOT, 'node_modules', '.bin', 'openapi-typescript');
+    const generated = execFileSync(bin, [SPEC_PATH], { encoding: 'utf8', timeout: 60000 });
+
+    expect(fs.readFileSync(GENERATED_TYPES_PATH, 'utf8')).toBe(generated);
+  });
+});
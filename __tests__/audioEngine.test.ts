@@ -0,0 +1,126 @@
+import { AgoraAudioEngine } from '../src/services/agoraAudioEngine';
+import { createAudioEngine, setAudioEngineFactory } from '../src/services/audioEngine';
+import { FakeAudioEngine } from '../src/services/fakeAudioEngine';
+import * as agora from 'react-native-agora';
+
+jest.mock('react-native-agora', () => ({
+  RtcEngine: { create: jest.fn() },
+  ChannelProfile: { Communication: 0 },
+  ClientRole: { Broadcaster: 1, Audience: 2 },
+}));
+
+describe('AgoraAudioEngine', () => {
+  let native: Record<string, jest.Mock>;
+  let nativeListeners: Record<string, (...args: any[]) => void>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    nativeListeners = {};
+    native = {
+      enableAudio: jest.fn(),
+      setChannelProfile: jest.fn(),
+      setClientRole: jest.fn(),
+      joinChannel: jest.fn(),
+      leaveChannel: jest.fn(),
+      renewToken: jest.fn(),
+      destroy: jest.fn(),
+      addListener: jest.fn((name, listener) => {
+        nativeListeners[name] = listener;
+      }),
+      removeListener: jest.fn((name) => {
+        delete nativeListeners[name];
+      }),
+    };
+    (agora.RtcEngine.create as jest.Mock).mockResolvedValue(native);
+  });
+
+  it('should create an audio-only engine with the configured app ID', async () => {
+    const engine = new AgoraAudioEngine('app-id');
+
+    await engine.create();
+
+    expect(agora.RtcEngine.create).toHaveBeenCalledWith('app-id');
+    expect(native.enableAudio).toHaveBeenCalled();
+    expect(native.setChannelProfile).toHaveBeenCalledWith(agora.ChannelProfile.Communication);
+  });
+
+  it('should translate calls to the Agora API', async () => {
+    const engine = new AgoraAudioEngine('app-id');
+    await engine.create();
+
+    await engine.setRole('publisher');
+    await engine.join('token', 'myazan_sender1', 0);
+    await engine.renewToken('fresh');
+    await engine.leave();
+
+    expect(native.setClientRole).toHaveBeenCalledWith(agora.ClientRole.Broadcaster);
+    expect(native.joinChannel).toHaveBeenCalledWith('token', 'myazan_sender1', null, 0);
+    expect(native.renewToken).toHaveBeenCalledWith('fresh');
+    expect(native.leaveChannel).toHaveBeenCalled();
+  });
+
+  it('should forward Agora events under their AudioEngine names', async () => {
+    const engine = new AgoraAudioEngine('app-id');
+    const onJoined = jest.fn();
+    const onWillExpire = jest.fn();
+    engine.on('userJoined', onJoined);
+    engine.on('tokenWillExpire', onWillExpire);
+    await engine.create();
+
+    nativeListeners.UserJoined(42);
+    nativeListeners.TokenPrivilegeWillExpire('token');
+
+    expect(onJoined).toHaveBeenCalledWith(42);
+    expect(onWillExpire).toHaveBeenCalled();
+  });
+
+  it('should translate Agora connection states', async () => {
+    const engine = new AgoraAudioEngine('app-id');
+    const onState = jest.fn();
+    engine.on('connectionStateChanged', onState);
+    await engine.create();
+
+    nativeListeners.ConnectionStateChanged(4, 2);
+    nativeListeners.ConnectionStateChanged(5, 8);
+
+    expect(onState).toHaveBeenNthCalledWith(1, 'reconnecting', 2);
+    expect(onState).toHaveBeenNthCalledWith(2, 'failed', 8);
+  });
+
+  it('should detach native listeners on destroy', async () => {
+    const engine = new AgoraAudioEngine('app-id');
+    await engine.create();
+
+    await engine.destroy();
+
+    expect(Object.keys(nativeListeners)).toHaveLength(0);
+    expect(native.destroy).toHaveBeenCalled();
+    await expect(engine.join('token', 'myazan_sender1', 0)).rejects.toThrow('not created');
+  });
+});
+
+describe('FakeAudioEngine', () => {
+  it('should record joins and deliver emitted events until unsubscribed', async () => {
+    const engine = new FakeAudioEngine();
+    const onLeft = jest.fn();
+    await engine.create();
+    const unsubscribe = engine.on('userLeft', onLeft);
+
+    await engine.join('token', 'myazan_sender1', 7);
+    engine.emit('userLeft', 3);
+    unsubscribe();
+    engine.emit('userLeft', 4);
+
+    expect(engine.isJoined).toBe(true);
+    expect(engine.uid).toBe(7);
+    expect(onLeft).toHaveBeenCalledTimes(1);
+    expect(onLeft).toHaveBeenCalledWith(3);
+  });
+
+  it('should be injectable through the engine factory', () => {
+    const fake = new FakeAudioEngine();
+    setAudioEngineFactory(() => fake);
+
+    expect(createAudioEngine()).toBe(fake);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  HISTORY_PAGE_SIZE,
+  describeEndedReason,
+  formatBroadcastDuration,
+  getBroadcastDuration,
+  getBroadcastTitle,
+  historyQueryFor,
+} from '../src/utils/broadcastHistory';
+import { Announcement } from '../src/types/api';
+
+const broadcast = (overrides: Partial<Announcement> = {}): Announcement => ({
+  sessionId: 'sender1_1705312800000',
+  senderId: 'sender1',
+  channelName: 'myazan_sender1',
+  isLive: false,
+  startedAt: '2024-01-15T10:00:00.000Z',
+  endedAt: '2024-01-15T10:04:30.000Z',
+  ...overrides,
+});
+
+describe('historyQueryFor', () => {
+  const now = new Date('2024-01-31T12:00:00.000Z');
+
+  it('should bound the range and page size', () => {
+    expect(historyQueryFor('7d', null, now)).toEqual({
+      limit: HISTORY_PAGE_SIZE,
+      from: '2024-01-24T12:00:00.000Z',
+    });
+    expect(historyQueryFor('all', null, now)).toEqual({ limit: HISTORY_PAGE_SIZE });
+  });
+
+  it('should continue after the previous page', () => {
+    expect(historyQueryFor('all', '2024-01-15T10:00:00.000Z', now).before).toBe(
+      '2024-01-15T10:00:00.000Z'
+    );
+  });
+});
+
+describe('getBroadcastDuration', () => {
+  it('should measure ended and live broadcasts', () => {
+    expect(getBroadcastDuration(broadcast())).toBe(270);
+    expect(
+      getBroadcastDuration(broadcast({ isLive: true, endedAt: null }), new Date('2024-01-15T10:01:00.000Z'))
+    ).toBe(60);
+  });
+
+  it('should not guess for broadcasts that never closed', () => {
+    expect(getBroadcastDuration(broadcast({ endedAt: null }))).toBeNull();
+    expect(formatBroadcastDuration(null)).toBe('--:--:--');
+    expect(formatBroadcastDuration(3725)).toBe('01:02:05');
+  });
+});
+
+describe('broadcast labels', () => {
+  it('should prefer the schedule title, then the prayer', () => {
+    expect(getBroadcastTitle(broadcast({ title: 'Jumu\'ah Khutbah', prayer: 'dhuhr' }))).toBe('Jumu\'ah Khutbah');
+    expect(getBroadcastTitle(broadcast({ title: null, prayer: 'maghrib' }))).toBe('Maghrib');
+    expect(getBroadcastTitle(broadcast())).toBe('Manual broadcast');
+  });
+
+  it('should describe how the broadcast ended', () => {
+    expect(describeEndedReason(broadcast({ endedReason: 'manual' }))).toBe('Stopped manually');
+    expect(describeEndedReason(broadcast({ endedReason: 'timeout' }))).toBe('Connection timed out');
+    expect(describeEndedReason(broadcast({ endedReason: 'crash_cleanup' }))).toBe('Cleaned up after a crash');
+    expect(describeEndedReason(broadcast({ isLive: true }))).toBe('Live now');
+  });
+});
@@ -42,7 +42,7 @@ describe('ChannelManager', () => {
   });
 
   describe('checkActiveSession', () => {
-    it('should return true if active session exists', async () => {
+    it('should return active if active session exists', async () => {
       (firestore.getDocs as jest.Mock).mockResolvedValueOnce({
         empty: false,
         docs: [{ id: 'session1' }],
@@ -50,11 +50,11 @@ describe('ChannelManager', () => {
 
       const result = await ChannelManager.checkActiveSession('myazan_sender123');
 
-      expect(result).toBe(true);
+      expect(result).toBe('active');
       expect(firestore.getDocs).toHaveBeenCalled();
     });
 
-    it('should return false if no active session exists', async () => {
+    it('should return inactive if no active session exists', async () => {
       (firestore.getDocs as jest.Mock).mockResolvedValueOnce({
         empty: true,
         docs: [],
@@ -62,44 +62,214 @@ describe('ChannelManager', () => {
 
       const result = await ChannelManager.checkActiveSession('myazan_sender123');
 
-      expect(result).toBe(false);
+      expect(result).toBe('inactive');
+    });
+
+    it('should return error instead of inactive when the query fails', async () => {
+      (firestore.getDocs as jest.Mock).mockRejectedValueOnce(new Error('offline'));
+
+      const result = await ChannelManager.checkActiveSession('myazan_sender123');
+
+      expect(result).toBe('error');
     });
   });
 
   describe('startSession', () => {
+    // Minimal in-memory transaction over { path: data } documents
+    function mockTransaction(docs: Record<string, any>) {
+      const transaction = {
+        get: jest.fn(async (ref: any) => ({
+          exists: () => ref.path in docs,
+          data: () => docs[ref.path],
+        })),
+        set: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      };
+      (firestore.runTransaction as jest.Mock).mockImplementationOnce((_db, fn) => fn(transaction));
+      return transaction;
+    }
+
+    beforeEach(() => {
+      (firestore.doc as jest.Mock).mockImplementation((_db, collectionName, id) => ({
+        path: `${collectionName}/${id}`,
+      }));
+    });
+
     it('should prevent starting session if one already exists', async () => {
-      (firestore.getDocs as jest.Mock).mockResolvedValueOnce({
-        empty: false,
-        docs: [{ id: 'existing_session' }],
+      const transaction = mockTransaction({
+        'channelLocks/myazan_sender123': { sessionId: 'existing_session' },
+        'announcements/existing_session': { isLive: true },
       });
 
       const result = await ChannelManager.startSession(
         'session2',
         'sender123',
-        'myazan_sender123',
-        'token123'
+        'myazan_sender123'
       );
 
-      expect(result).toBe(false);
-      expect(firestore.setDoc).not.toHaveBeenCalled();
+      expect(result).toEqual({ status: 'collision', activeSessionId: 'existing_session' });
+      expect(transaction.set).not.toHaveBeenCalled();
     });
 
-    it('should create a new session if no collision', async () => {
-      (firestore.getDocs as jest.Mock).mockResolvedValueOnce({
-        empty: true,
-        docs: [],
-      });
-      (firestore.setDoc as jest.Mock).mockResolvedValueOnce(undefined);
+    it('should create a new session and take the lock if no collision', async () => {
+      const transaction = mockTransaction({});
 
       const result = await ChannelManager.startSession(
         'session1',
         'sender123',
         'myazan_sender123',
-        'token123'
+        undefined,
+        { title: 'Maghrib Azan', prayer: 'maghrib' }
+      );
+
+      expect(result).toEqual({ status: 'created', sessionId: 'session1' });
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: 'channelLocks/myazan_sender123' },
+        expect.objectContaining({ sessionId: 'session1', senderId: 'sender123' })
+      );
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: 'announcements/session1' },
+        expect.objectContaining({
+          sessionId: 'session1',
+          isLive: true,
+          title: 'Maghrib Azan',
+          prayer: 'maghrib',
+          peakListeners: 0,
+        })
+      );
+    });
+
+    it('should take over a lock held by a session that has ended', async () => {
+      const transaction = mockTransaction({
+        'channelLocks/myazan_sender123': { sessionId: 'old_session' },
+        'announcements/old_session': { isLive: false },
+      });
+
+      const result = await ChannelManager.startSession(
+        'session3',
+        'sender123',
+        'myazan_sender123'
+      );
+
+      expect(result.status).toBe('created');
+      expect(transaction.set).toHaveBeenCalledTimes(2);
+    });
+
+    it('should end a crashed session whose lease lapsed and take over its lock', async () => {
+      const transaction = mockTransaction({
+        'channelLocks/myazan_sender123': { sessionId: 'crashed_session' },
+        'announcements/crashed_session': {
+          isLive: true,
+          startedAt: new Date(Date.now() - 10 * 60000),
+          lastHeartbeatAt: new Date(Date.now() - 5 * 60000),
+        },
+      });
+
+      const result = await ChannelManager.startSession('session5', 'sender123', 'myazan_sender123');
+
+      expect(result).toEqual({ status: 'created', sessionId: 'session5' });
+      expect(transaction.update).toHaveBeenCalledWith(
+        { path: 'announcements/crashed_session' },
+        expect.objectContaining({ isLive: false, endedReason: 'crash_cleanup' })
       );
+      expect(transaction.set).toHaveBeenCalledWith(
+        { path: 'channelLocks/myazan_sender123' },
+        expect.objectContaining({ sessionId: 'session5' })
+      );
+    });
+
+    it('should return an error result when the transaction fails', async () => {
+      (firestore.runTransaction as jest.Mock).mockRejectedValueOnce(new Error('contention'));
+
+      const result = await ChannelManager.startSession(
+        'session4',
+        'sender123',
+        'myazan_sender123'
+      );
+
+      expect(result.status).toBe('error');
+    });
+  });
+
+  describe('endSession', () => {
+    it('should end the session and release its lock', async () => {
+      (firestore.doc as jest.Mock).mockImplementation((_db, collectionName, id) => ({
+        path: `${collectionName}/${id}`,
+      }));
+      const docs: Record<string, any> = {
+        'announcements/session1': { channelName: 'myazan_sender123', isLive: true },
+        'channelLocks/myazan_sender123': { sessionId: 'session1' },
+      };
+      const transaction = {
+        get: jest.fn(async (ref: any) => ({ exists: () => ref.path in docs, data: () => docs[ref.path] })),
+        update: jest.fn(),
+        delete: jest.fn(),
+      };
+      (firestore.runTransaction as jest.Mock).mockImplementationOnce((_db, fn) => fn(transaction));
+
+      const result = await ChannelManager.endSession('session1');
 
       expect(result).toBe(true);
-      expect(firestore.setDoc).toHaveBeenCalled();
+      expect(transaction.update).toHaveBeenCalledWith(
+        { path: 'announcements/session1' },
+        expect.objectContaining({ isLive: false, endedReason: 'manual' })
+      );
+      expect(transaction.delete).toHaveBeenCalledWith({ path: 'channelLocks/myazan_sender123' });
+    });
+  });
+
+  describe('lease', () => {
+    it('should treat a lapsed lease as expired regardless of session age', () => {
+      const now = Date.now();
+
+      expect(
+        ChannelManager.isLeaseExpired({ lastHeartbeatAt: new Date(now - 60000), startedAt: new Date(now - 5 * 60000) }, now)
+      ).toBe(true);
+      expect(
+        ChannelManager.isLeaseExpired({ lastHeartbeatAt: new Date(now - 10000), startedAt: new Date(now - 3 * 3600000) }, now)
+      ).toBe(false);
+    });
+
+    it('should fall back to startedAt for sessions without a heartbeat', () => {
+      const now = Date.now();
+
+      expect(ChannelManager.isLeaseExpired({ startedAt: new Date(now - 3600000) }, now)).toBe(true);
+      expect(ChannelManager.isLeaseExpired({ startedAt: null }, now)).toBe(false);
+    });
+
+    it('should renew the lease on heartbeat', async () => {
+      (firestore.updateDoc as jest.Mock).mockResolvedValueOnce(undefined);
+
+      const result = await ChannelManager.renewLease('session1');
+
+      expect(result).toBe(true);
+      expect(firestore.updateDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ lastHeartbeatAt: expect.anything() })
+      );
+    });
+
+    it('should end only sessions whose lease has lapsed', async () => {
+      const batch = { update: jest.fn(), commit: jest.fn() };
+      (firestore.writeBatch as jest.Mock).mockReturnValueOnce(batch);
+      const now = Date.now();
+      (firestore.getDocs as jest.Mock).mockResolvedValueOnce({
+        docs: [
+          // Long khutbah, still heartbeating
+          { ref: 'long', data: () => ({ startedAt: new Date(now - 2 * 3600000), lastHeartbeatAt: new Date(now - 10000) }) },
+          // Crashed azan
+          { ref: 'crashed', data: () => ({ startedAt: new Date(now - 5 * 60000), lastHeartbeatAt: new Date(now - 4 * 60000) }) },
+        ],
+      });
+
+      await ChannelManager.cleanupStaleSessions();
+
+      expect(batch.update).toHaveBeenCalledTimes(1);
+      expect(batch.update).toHaveBeenCalledWith(
+        'crashed',
+        expect.objectContaining({ isLive: false, endedReason: 'crash_cleanup' })
+      );
     });
   });
 });
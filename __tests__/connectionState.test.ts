@@ -0,0 +1,171 @@
+import {
+  ConnectionMonitor,
+  ConnectionStatus,
+  getConnectionLabel,
+  nextConnectionStatus,
+} from '../src/utils/connectionState';
+import { FakeAudioEngine } from '../src/services/fakeAudioEngine';
+import sessionReducer, { setConnectionStatus, resetSession } from '../src/store/slices/sessionSlice';
+
+describe('nextConnectionStatus', () => {
+  it('should follow a normal join and leave', () => {
+    let status: ConnectionStatus = 'idle';
+    status = nextConnectionStatus(status, { type: 'join' });
+    expect(status).toBe('connecting');
+    status = nextConnectionStatus(status, { type: 'joined' });
+    expect(status).toBe('connected');
+    status = nextConnectionStatus(status, { type: 'leave' });
+    expect(status).toBe('disconnected');
+  });
+
+  it('should ignore engine events outside a session', () => {
+    expect(nextConnectionStatus('idle', { type: 'joined' })).toBe('idle');
+    expect(nextConnectionStatus('disconnected', { type: 'connectionLost' })).toBe('disconnected');
+    expect(nextConnectionStatus('disconnected', { type: 'stateChanged', state: 'connected' })).toBe(
+      'disconnected'
+    );
+  });
+
+  it('should stay reconnecting through the noise of a rejoin', () => {
+    expect(nextConnectionStatus('connected', { type: 'connectionLost' })).toBe('reconnecting');
+    expect(nextConnectionStatus('reconnecting', { type: 'stateChanged', state: 'disconnected' })).toBe(
+      'reconnecting'
+    );
+    expect(nextConnectionStatus('reconnecting', { type: 'stateChanged', state: 'connecting' })).toBe(
+      'reconnecting'
+    );
+    expect(nextConnectionStatus('reconnecting', { type: 'joined' })).toBe('connected');
+  });
+
+  it('should only fail when the monitor gives up', () => {
+    expect(nextConnectionStatus('connected', { type: 'stateChanged', state: 'failed' })).toBe(
+      'reconnecting'
+    );
+    expect(nextConnectionStatus('reconnecting', { type: 'giveUp' })).toBe('failed');
+    expect(nextConnectionStatus('failed', { type: 'connectionLost' })).toBe('failed');
+    expect(nextConnectionStatus('failed', { type: 'stateChanged', state: 'connected' })).toBe('connected');
+  });
+});
+
+describe('ConnectionMonitor', () => {
+  let engine: FakeAudioEngine;
+  let rejoin: jest.Mock;
+  let monitor: ConnectionMonitor;
+  let statuses: ConnectionStatus[];
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    engine = new FakeAudioEngine();
+    await engine.create();
+    rejoin = jest.fn().mockResolvedValue(undefined);
+    monitor = new ConnectionMonitor();
+    statuses = [];
+    monitor.onStatusChange((status) => statuses.push(status));
+    monitor.attach(engine, rejoin);
+  });
+
+  afterEach(() => {
+    monitor.detach();
+    jest.useRealTimers();
+  });
+
+  it('should report connected once the engine joins', () => {
+    monitor.joining();
+    engine.emit('connectionStateChanged', 'connecting', 0);
+    engine.emit('joinSuccess', 'myazan_sender1', 0);
+
+    expect(statuses).toEqual(['connecting', 'connected']);
+  });
+
+  it('should leave SDK reconnects to the SDK', async () => {
+    monitor.joining();
+    engine.emit('joinSuccess', 'myazan_sender1', 0);
+    engine.emit('connectionStateChanged', 'reconnecting', 2);
+    await jest.advanceTimersByTimeAsync(60000);
+    engine.emit('rejoinSuccess', 'myazan_sender1', 0);
+
+    expect(rejoin).not.toHaveBeenCalled();
+    expect(statuses).toEqual(['connecting', 'connected', 'reconnecting', 'connected']);
+  });
+
+  it('should rejoin with backoff when the connection is lost', async () => {
+    rejoin.mockRejectedValueOnce(new Error('offline'));
+    monitor.joining();
+    engine.emit('joinSuccess', 'myazan_sender1', 0);
+
+    engine.emit('connectionLost');
+    expect(monitor.getStatus()).toBe('reconnecting');
+    await jest.advanceTimersByTimeAsync(999);
+    expect(rejoin).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(rejoin).toHaveBeenCalledTimes(1);
+
+    // First attempt failed; the second waits twice as long
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(rejoin).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(rejoin).toHaveBeenCalledTimes(2);
+
+    engine.emit('joinSuccess', 'myazan_sender1', 0);
+    expect(monitor.getStatus()).toBe('connected');
+  });
+
+  it('should give up after the last rejoin attempt', async () => {
+    rejoin.mockRejectedValue(new Error('offline'));
+    monitor.joining();
+    engine.emit('joinSuccess', 'myazan_sender1', 0);
+
+    engine.emit('connectionStateChanged', 'failed', 8);
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000 + 16000);
+
+    expect(rejoin).toHaveBeenCalledTimes(5);
+    expect(monitor.getStatus()).toBe('failed');
+  });
+
+  it('should cancel a pending rejoin when the app leaves', async () => {
+    monitor.joining();
+    engine.emit('joinSuccess', 'myazan_sender1', 0);
+    engine.emit('connectionLost');
+
+    monitor.left();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(rejoin).not.toHaveBeenCalled();
+    expect(monitor.getStatus()).toBe('disconnected');
+  });
+
+  it('should count each remote participant once', () => {
+    const counts: number[] = [];
+    monitor.onParticipantsChange((count) => counts.push(count));
+    monitor.joining();
+
+    engine.emit('userJoined', 11);
+    engine.emit('userJoined', 12);
+    engine.emit('userJoined', 11);
+    engine.emit('userLeft', 12);
+    engine.emit('userLeft', 99);
+    monitor.left();
+
+    expect(counts).toEqual([1, 2, 1, 0]);
+    expect(monitor.getParticipantCount()).toBe(0);
+  });
+});
+
+describe('getConnectionLabel', () => {
+  it('should mention the rejoin attempt while reconnecting', () => {
+    expect(getConnectionLabel('connected')).toBe('Connected');
+    expect(getConnectionLabel('reconnecting')).toBe('Reconnecting...');
+    expect(getConnectionLabel('reconnecting', 2)).toBe('Reconnecting (attempt 2)...');
+  });
+});
+
+describe('sessionSlice', () => {
+  it('should accept the reconnecting and failed states', () => {
+    let state = sessionReducer(undefined, setConnectionStatus('reconnecting'));
+    expect(state.connectionStatus).toBe('reconnecting');
+    state = sessionReducer(state, setConnectionStatus('failed'));
+    expect(state.connectionStatus).toBe('failed');
+    expect(sessionReducer(state, resetSession()).connectionStatus).toBe('idle');
+  });
+});
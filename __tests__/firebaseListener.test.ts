@@ -0,0 +1,245 @@
+import { FirebaseListenerService } from '../src/services/firebaseListener';
+import * as firestore from 'firebase/firestore';
+
+jest.mock('firebase/firestore');
+
+type SnapshotHandler = (snapshot: any) => void;
+
+interface MockListener {
+  senderIds: string[] | null;
+  onNext: SnapshotHandler;
+  unsubscribe: jest.Mock;
+}
+
+describe('FirebaseListenerService', () => {
+  let listeners: MockListener[];
+  let subscriptionHandler: SnapshotHandler;
+
+  const announcement = (
+    sessionId: string,
+    senderId: string,
+    isLive = true,
+    mappedReceiverIds?: string[]
+  ) => ({
+    sessionId,
+    senderId,
+    channelName: `myazan_${senderId}`,
+    startedAt: new Date(),
+    isLive,
+    mappedReceiverIds,
+  });
+
+  const snapshot = (...items: Array<ReturnType<typeof announcement>>) => ({
+    docs: items.map((data) => ({ id: data.sessionId, data: () => data })),
+  });
+
+  const subscriptions = (senderIds: string[]) => ({
+    exists: () => true,
+    data: () => ({ senderIds }),
+  });
+
+  const openListeners = () => listeners.filter((l) => !l.unsubscribe.mock.calls.length);
+
+  const listenerFor = (senderId: string) =>
+    openListeners().find((l) => l.senderIds?.includes(senderId))!;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    listeners = [];
+    (firestore.doc as jest.Mock).mockImplementation((_db, collectionName) => ({ collectionName }));
+    (firestore.where as jest.Mock).mockImplementation((field, op, value) => ({ field, op, value }));
+    (firestore.query as jest.Mock).mockImplementation((_collection, ...constraints) => ({
+      collectionName: 'announcements',
+      constraints,
+    }));
+    (firestore.onSnapshot as jest.Mock).mockImplementation((ref, onNext) => {
+      const unsubscribe = jest.fn();
+      if (ref.collectionName === 'subscriptions') {
+        subscriptionHandler = onNext;
+      } else {
+        const inClause = ref.constraints.find((c: any) => c.op === 'in');
+        listeners.push({ senderIds: inClause ? inClause.value : null, onNext, unsubscribe });
+      }
+      return unsubscribe;
+    });
+  });
+
+  it('should query only the followed senders', () => {
+    const service = new FirebaseListenerService();
+
+    service.startListening({}, 'receiver', undefined, ['sender1', 'sender2']);
+
+    expect(listeners).toHaveLength(1);
+    expect(listeners[0].senderIds).toEqual(['sender1', 'sender2']);
+    expect(firestore.where).toHaveBeenCalledWith('isLive', '==', true);
+  });
+
+  it('should fall back to all live announcements without a sender filter', () => {
+    const onNewAnnouncement = jest.fn();
+    const service = new FirebaseListenerService();
+
+    service.startListening({ onNewAnnouncement }, 'sender');
+    listeners[0].onNext(snapshot(announcement('s1', 'sender1'), announcement('s2', 'sender2')));
+
+    expect(listeners[0].senderIds).toBeNull();
+    expect(onNewAnnouncement).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never listen unfiltered as a receiver', () => {
+    const service = new FirebaseListenerService();
+
+    service.startListening({}, 'receiver');
+
+    expect(listeners).toEqual([]);
+  });
+
+  it('should shard large sender lists into chunks of 30', () => {
+    const service = new FirebaseListenerService();
+    const senderIds = Array.from({ length: 65 }, (_, i) => `sender${i}`);
+
+    service.startListening({}, 'receiver', undefined, senderIds);
+
+    expect(listeners.map((l) => l.senderIds!.length)).toEqual([30, 30, 5]);
+  });
+
+  it('should merge announcements across shards', () => {
+    const onNewAnnouncement = jest.fn();
+    const service = new FirebaseListenerService();
+    const senderIds = Array.from({ length: 31 }, (_, i) => `sender${i}`);
+
+    service.startListening({ onNewAnnouncement }, 'receiver', undefined, senderIds);
+    listenerFor('sender0').onNext(snapshot(announcement('s0', 'sender0')));
+    listenerFor('sender30').onNext(snapshot(announcement('s30', 'sender30')));
+
+    expect(onNewAnnouncement).toHaveBeenCalledTimes(2);
+    expect(service.getActiveChannels().sort()).toEqual(['myazan_sender0', 'myazan_sender30']);
+  });
+
+  it('should report ended announcements', () => {
+    const onAnnouncementEnded = jest.fn();
+    const service = new FirebaseListenerService();
+
+    service.startListening({ onAnnouncementEnded }, 'receiver', undefined, ['sender1']);
+    listeners[0].onNext(snapshot(announcement('s1', 'sender1')));
+    listeners[0].onNext(snapshot());
+
+    expect(onAnnouncementEnded).toHaveBeenCalledWith('s1', 'myazan_sender1');
+    expect(service.isChannelActive('myazan_sender1')).toBe(false);
+  });
+
+  it('should report already-live broadcasts when a sender is newly followed', () => {
+    const onNewAnnouncement = jest.fn();
+    const onSubscriptionsChanged = jest.fn();
+    const service = new FirebaseListenerService();
+
+    service.startListening({ onNewAnnouncement, onSubscriptionsChanged }, 'receiver', 'receiver1');
+    expect(listeners).toHaveLength(0);
+
+    subscriptionHandler(subscriptions(['sender2']));
+    listenerFor('sender2').onNext(snapshot(announcement('s2', 'sender2')));
+
+    expect(onSubscriptionsChanged).toHaveBeenCalledWith(['sender2']);
+    expect(onNewAnnouncement).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 's2' }));
+  });
+
+  it('should skip broadcasts targeted at other receivers', () => {
+    const onNewAnnouncement = jest.fn();
+    const service = new FirebaseListenerService();
+
+    service.startListening({ onNewAnnouncement }, 'receiver', 'receiver1', ['sender1', 'sender2', 'sender3']);
+    listeners[0].onNext(
+      snapshot(
+        announcement('s1', 'sender1', true, ['receiver1']),
+        announcement('s2', 'sender2', true, ['receiver2']),
+        announcement('s3', 'sender3')
+      )
+    );
+
+    expect(onNewAnnouncement.mock.calls.map(([a]) => a.sessionId)).toEqual(['s1', 's3']);
+  });
+
+  it('should end broadcasts from senders that are unfollowed and close their listener', () => {
+    const onAnnouncementEnded = jest.fn();
+    const service = new FirebaseListenerService();
+
+    service.startListening({ onAnnouncementEnded }, 'receiver', 'receiver1', ['sender1']);
+    listeners[0].onNext(snapshot(announcement('s1', 'sender1')));
+    subscriptionHandler(subscriptions([]));
+
+    expect(onAnnouncementEnded).toHaveBeenCalledWith('s1', 'myazan_sender1');
+    expect(listeners[0].unsubscribe).toHaveBeenCalled();
+    expect(openListeners()).toHaveLength(0);
+  });
+
+  it('should not re-report live broadcasts when shards are rebuilt', () => {
+    const onNewAnnouncement = jest.fn();
+    const onAnnouncementEnded = jest.fn();
+    const service = new FirebaseListenerService();
+
+    service.startListening(
+      { onNewAnnouncement, onAnnouncementEnded },
+      'receiver',
+      'receiver1',
+      ['sender1', 'sender2']
+    );
+    listeners[0].onNext(snapshot(announcement('s1', 'sender1')));
+
+    // Unfollowing sender2 and following sender3 rebuilds the shard
+    subscriptionHandler(subscriptions(['sender1', 'sender3']));
+    listenerFor('sender1').onNext(snapshot(announcement('s1', 'sender1')));
+
+    expect(listenerFor('sender1').senderIds).toEqual(['sender1', 'sender3']);
+    expect(onNewAnnouncement).toHaveBeenCalledTimes(1);
+    expect(onAnnouncementEnded).not.toHaveBeenCalled();
+  });
+
+  it('should report a sender as lost once its lease lapses', () => {
+    const onSenderLost = jest.fn();
+    const onAnnouncementEnded = jest.fn();
+    const service = new FirebaseListenerService();
+    const heartbeat = (at: number) => snapshot({ ...announcement('s1', 'sender1'), lastHeartbeatAt: new Date(at) } as any);
+
+    service.startListening({ onSenderLost, onAnnouncementEnded }, 'receiver', undefined, ['sender1']);
+    listeners[0].onNext(heartbeat(Date.now()));
+    expect(service.isChannelActive('myazan_sender1')).toBe(true);
+
+    jest.advanceTimersByTime(30000);
+    listeners[0].onNext(heartbeat(Date.now()));
+    jest.advanceTimersByTime(30000);
+    expect(onSenderLost).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(20000);
+
+    expect(onSenderLost).toHaveBeenCalledWith('s1', 'myazan_sender1');
+    expect(onAnnouncementEnded).toHaveBeenCalledWith('s1', 'myazan_sender1');
+    service.stopListening();
+  });
+
+  it('should time leases on the receiver\'s clock, whatever the server timestamps say', () => {
+    const onSenderLost = jest.fn();
+    const service = new FirebaseListenerService();
+    // The receiver's clock is an hour ahead of the server's
+    const serverNow = () => Date.now() - 3600000;
+
+    service.startListening({ onSenderLost }, 'receiver', undefined, ['sender1']);
+    for (let i = 0; i < 4; i++) {
+      listeners[0].onNext(snapshot({ ...announcement('s1', 'sender1'), lastHeartbeatAt: new Date(serverNow()) } as any));
+      jest.advanceTimersByTime(15000);
+    }
+
+    expect(onSenderLost).not.toHaveBeenCalled();
+    expect(service.isChannelActive('myazan_sender1')).toBe(true);
+    service.stopListening();
+  });
+
+  it('should stop all listeners', () => {
+    const service = new FirebaseListenerService();
+
+    service.startListening({}, 'receiver', undefined, Array.from({ length: 40 }, (_, i) => `s${i}`));
+    service.stopListening();
+
+    expect(listeners).toHaveLength(2);
+    listeners.forEach((l) => expect(l.unsubscribe).toHaveBeenCalled());
+  });
+});
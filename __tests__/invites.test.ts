@@ -0,0 +1,40 @@
+import { Invite } from '../src/types/api';
+import { describeInvite, inviteLink, parseInviteCode } from '../src/utils/invites';
+
+const invite = (overrides: Partial<Invite> = {}): Invite => ({
+  code: 'K7QM4XPA',
+  senderId: 'sender1',
+  createdAt: '2024-01-15T09:00:00.000Z',
+  expiresAt: null,
+  maxUses: null,
+  uses: 0,
+  status: 'active',
+  ...overrides,
+});
+
+describe('invites', () => {
+  it('should read codes however they were typed, and invite links', () => {
+    expect(parseInviteCode('k7qm4xpa')).toBe('K7QM4XPA');
+    expect(parseInviteCode(' K7QM-4XPA ')).toBe('K7QM4XPA');
+    expect(parseInviteCode(inviteLink('K7QM4XPA'))).toBe('K7QM4XPA');
+    expect(parseInviteCode('MYAZAN://INVITE/K7QM4XPA')).toBe('K7QM4XPA');
+  });
+
+  it('should reject text that is not a code', () => {
+    expect(parseInviteCode('')).toBeNull();
+    expect(parseInviteCode('K7QM4XP')).toBeNull();
+    expect(parseInviteCode('K7QM0XPA')).toBeNull();
+    expect(parseInviteCode('https://example.com/K7QM4XPA')).toBeNull();
+  });
+
+  it('should describe usage and expiry', () => {
+    const expiresAt = '2024-02-01T12:00:00.000Z';
+    const date = new Date(expiresAt).toLocaleDateString();
+
+    expect(describeInvite(invite({ uses: 1 }))).toBe('1 use · no expiry');
+    expect(describeInvite(invite({ uses: 3, maxUses: 10, expiresAt }))).toBe(`3 of 10 uses · expires ${date}`);
+    expect(describeInvite(invite({ maxUses: 1, expiresAt, status: 'expired' }))).toBe(
+      `0 of 1 use · expired ${date}`
+    );
+  });
+});
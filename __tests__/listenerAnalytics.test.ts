@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ListenerAnalytics,
+  ListenerEvent,
+  computeListenerStats,
+} from '../src/services/listenerAnalytics';
+import * as firestore from 'firebase/firestore';
+
+jest.mock('firebase/firestore');
+
+const start = new Date('2024-01-15T10:00:00.000Z');
+const end = new Date('2024-01-15T10:10:00.000Z');
+const at = (minutes: number) => new Date(start.getTime() + minutes * 60000);
+const event = (receiverId: string, type: 'join' | 'leave', minutes: number): ListenerEvent => ({
+  receiverId,
+  type,
+  at: at(minutes),
+});
+
+interface IntervalCase {
+  name: string;
+  durationMinutes: number;
+  events: { receiverId: string; type: 'join' | 'leave'; at: number }[];
+  listeners: { receiverId: string; joins: number; firstJoinedAt: number; listenedSeconds: number }[];
+}
+
+describe('computeListenerStats', () => {
+  it('should compute peak, average, listener-minutes and reach', () => {
+    const stats = computeListenerStats(
+      [
+        event('alice', 'join', 0),
+        event('bob', 'join', 2),
+        event('bob', 'leave', 6),
+        event('alice', 'leave', 10),
+      ],
+      start,
+      end,
+      ['alice', 'bob', 'carol', 'dave']
+    );
+
+    expect(stats.peakConcurrent).toBe(2);
+    expect(stats.listenerMinutes).toBe(14);
+    expect(stats.averageConcurrent).toBe(1.4);
+    expect(stats.uniqueListeners).toBe(2);
+    expect(stats.reachedReceivers).toBe(2);
+    expect(stats.reach).toBe(0.5);
+    expect(stats.listeners.map((l) => [l.receiverId, l.listenedSeconds])).toEqual([
+      ['alice', 600],
+      ['bob', 240],
+    ]);
+  });
+
+  it('should count listeners still joined at the end, or whose leave was lost, until the end', () => {
+    const stats = computeListenerStats([event('alice', 'join', 5)], start, end);
+
+    expect(stats.listenerMinutes).toBe(5);
+    expect(stats.reach).toBe(0);
+  });
+
+  it('should not double count rejoins or repeated joins', () => {
+    const stats = computeListenerStats(
+      [
+        event('alice', 'join', 1),
+        event('alice', 'join', 2),
+        event('alice', 'leave', 3),
+        event('alice', 'join', 3),
+        event('alice', 'leave', 4),
+        event('bob', 'leave', 5),
+      ],
+      start,
+      end,
+      ['alice']
+    );
+
+    expect(stats.peakConcurrent).toBe(1);
+    expect(stats.listenerMinutes).toBe(3);
+    expect(stats.listeners).toHaveLength(1);
+    expect(stats.listeners[0].joins).toBe(2);
+  });
+
+  it('should clamp events to the broadcast window', () => {
+    const stats = computeListenerStats(
+      [event('alice', 'join', -5), event('alice', 'leave', 15)],
+      start,
+      end
+    );
+
+    expect(stats.listenerMinutes).toBe(10);
+    expect(stats.listeners[0].firstJoinedAt).toEqual(start);
+  });
+
+  // The backend's delivery report runs the same table
+  const fixture: { cases: IntervalCase[] } = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'fixtures', 'listenerIntervals.json'), 'utf8')
+  );
+
+  it.each(fixture.cases)('should credit listening: $name', (c) => {
+    const stats = computeListenerStats(
+      c.events.map((e) => event(e.receiverId, e.type, e.at)),
+      start,
+      at(c.durationMinutes)
+    );
+
+    expect(
+      stats.listeners
+        .map((l) => ({
+          receiverId: l.receiverId,
+          joins: l.joins,
+          firstJoinedAt: (l.firstJoinedAt.getTime() - start.getTime()) / 60000,
+          listenedSeconds: l.listenedSeconds,
+        }))
+        .sort((a, b) => a.receiverId.localeCompare(b.receiverId))
+    ).toEqual(c.listeners);
+  });
+});
+
+describe('ListenerAnalytics', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (firestore.collection as jest.Mock).mockImplementation((_db, ...segments) => ({
+      path: segments.join('/'),
+    }));
+    (firestore.doc as jest.Mock).mockImplementation((_db, ...segments) => ({ path: segments.join('/') }));
+  });
+
+  it('should write events to the announcement sub-collection', async () => {
+    (firestore.addDoc as jest.Mock).mockResolvedValueOnce({ id: 'event1' });
+
+    const result = await ListenerAnalytics.recordEvent('session1', 'alice', 'join');
+
+    expect(result).toBe(true);
+    expect(firestore.addDoc).toHaveBeenCalledWith(
+      { path: 'announcements/session1/listenerEvents' },
+      expect.objectContaining({ receiverId: 'alice', type: 'join' })
+    );
+  });
+
+  it('should not throw when an event cannot be written', async () => {
+    (firestore.addDoc as jest.Mock).mockRejectedValueOnce(new Error('offline'));
+
+    await expect(ListenerAnalytics.recordEvent('session1', 'alice', 'leave')).resolves.toBe(false);
+  });
+
+  it('should summarize an ended session and store the totals', async () => {
+    (firestore.getDoc as jest.Mock).mockResolvedValueOnce({
+      exists: () => true,
+      data: () => ({ startedAt: start, endedAt: end, mappedReceiverIds: ['alice', 'bob'], peakListeners: 0 }),
+    });
+    (firestore.getDocs as jest.Mock).mockResolvedValueOnce({
+      docs: [
+        { data: () => ({ receiverId: 'alice', type: 'join', at: { toDate: () => at(0) } }) },
+        { data: () => ({ receiverId: 'alice', type: 'leave', at: { toDate: () => at(5) } }) },
+        // Pending server timestamp
+        { data: () => ({ receiverId: 'bob', type: 'join', at: null }) },
+      ],
+    });
+
+    const stats = await ListenerAnalytics.summarizeSession('session1');
+
+    expect(stats?.listenerMinutes).toBe(5);
+    expect(stats?.reach).toBe(0.5);
+    expect(firestore.updateDoc).toHaveBeenCalledWith(
+      { path: 'announcements/session1' },
+      {
+        listenerStats: expect.objectContaining({ peakConcurrent: 1, reachedReceivers: 1 }),
+        peakListeners: 1,
+      }
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { ListenerPresence, PresenceEntry } from '../src/services/listenerPresence';
+import * as firestore from 'firebase/firestore';
+
+jest.mock('firebase/firestore');
+
+const at = (time: string) => ({ toDate: () => new Date(`2024-01-15T${time}.000Z`) });
+const presenceDoc = (receiverId: string, joinedAt: string, lastSeenAt: string) => ({
+  data: () => ({ receiverId, joinedAt: at(joinedAt), lastSeenAt: at(lastSeenAt) }),
+});
+
+describe('ListenerPresence', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    (firestore.collection as jest.Mock).mockImplementation((_db, ...segments) => ({
+      path: segments.join('/'),
+    }));
+    (firestore.doc as jest.Mock).mockImplementation((_db, ...segments) => ({ path: segments.join('/') }));
+    (firestore.setDoc as jest.Mock).mockResolvedValue(undefined);
+    (firestore.updateDoc as jest.Mock).mockResolvedValue(undefined);
+    (firestore.deleteDoc as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should write presence on join, refresh it and delete it on leave', async () => {
+    const presence = new ListenerPresence('alice');
+
+    await expect(presence.join('session1')).resolves.toBe(true);
+    expect(firestore.setDoc).toHaveBeenCalledWith(
+      { path: 'announcements/session1/presence/alice' },
+      expect.objectContaining({ receiverId: 'alice' })
+    );
+
+    jest.advanceTimersByTime(ListenerPresence.HEARTBEAT_INTERVAL_MS * 2);
+    expect(firestore.updateDoc).toHaveBeenCalledTimes(2);
+
+    await presence.leave('session1');
+    expect(firestore.deleteDoc).toHaveBeenCalledWith({ path: 'announcements/session1/presence/alice' });
+
+    jest.advanceTimersByTime(ListenerPresence.HEARTBEAT_INTERVAL_MS * 2);
+    expect(firestore.updateDoc).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not start a heartbeat when presence cannot be written', async () => {
+    (firestore.setDoc as jest.Mock).mockRejectedValueOnce(new Error('offline'));
+    const presence = new ListenerPresence('alice');
+
+    await expect(presence.join('session1')).resolves.toBe(false);
+    jest.advanceTimersByTime(ListenerPresence.HEARTBEAT_INTERVAL_MS);
+    expect(firestore.updateDoc).not.toHaveBeenCalled();
+  });
+
+  it('should leave every joined session', async () => {
+    const presence = new ListenerPresence('alice');
+    await presence.join('session1');
+    await presence.join('session2');
+
+    presence.leaveAll();
+
+    expect(firestore.deleteDoc).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count a listener stale once its heartbeat has not changed for too long', () => {
+    const now = new Date('2024-01-15T10:05:00.000Z').getTime();
+
+    expect(ListenerPresence.isStale(now - 60 * 1000, now)).toBe(false);
+    expect(ListenerPresence.isStale(now - 120 * 1000, now)).toBe(true);
+  });
+
+  const listenTo = (sessionId: string, onChange: jest.Mock) => {
+    const unsubscribe = jest.fn();
+    let onNext: (snapshot: any) => void = () => undefined;
+    (firestore.onSnapshot as jest.Mock).mockImplementation((_ref, next) => {
+      onNext = next;
+      return unsubscribe;
+    });
+    const stop = ListenerPresence.listen(sessionId, onChange);
+    return { stop, unsubscribe, snapshot: (docs: any[]) => onNext({ docs }) };
+  };
+  const listed = (onChange: jest.Mock, call: number) =>
+    onChange.mock.calls[call][0].map((e: PresenceEntry) => e.receiverId);
+
+  it('should list listeners in join order and drop those whose heartbeat stops', () => {
+    jest.setSystemTime(new Date('2024-01-15T10:05:00.000Z'));
+    const onChange = jest.fn();
+    const { stop, unsubscribe, snapshot } = listenTo('session1', onChange);
+
+    snapshot([
+      presenceDoc('bob', '10:02:00', '10:04:30'),
+      presenceDoc('alice', '10:01:00', '10:03:45'),
+    ]);
+    expect(firestore.onSnapshot).toHaveBeenCalledWith(
+      { path: 'announcements/session1/presence' },
+      expect.any(Function),
+      expect.any(Function)
+    );
+    expect(listed(onChange, 0)).toEqual(['alice', 'bob']);
+
+    // Bob keeps refreshing; alice's heartbeat stops
+    jest.advanceTimersByTime(60 * 1000);
+    snapshot([
+      presenceDoc('bob', '10:02:00', '10:05:30'),
+      presenceDoc('alice', '10:01:00', '10:03:45'),
+    ]);
+    jest.advanceTimersByTime(ListenerPresence.HEARTBEAT_INTERVAL_MS * 2);
+    expect(listed(onChange, onChange.mock.calls.length - 1)).toEqual(['bob']);
+
+    stop();
+    expect(unsubscribe).toHaveBeenCalled();
+    const calls = onChange.mock.calls.length;
+    jest.advanceTimersByTime(ListenerPresence.HEARTBEAT_INTERVAL_MS);
+    expect(onChange).toHaveBeenCalledTimes(calls);
+  });
+
+  it('should time heartbeats on this device, whatever the server timestamps say', () => {
+    // This device's clock is a day ahead of the server's
+    jest.setSystemTime(new Date('2024-01-16T10:05:00.000Z'));
+    const onChange = jest.fn();
+    const { stop, snapshot } = listenTo('session1', onChange);
+
+    snapshot([presenceDoc('alice', '10:01:00', '10:04:30')]);
+    jest.advanceTimersByTime(ListenerPresence.HEARTBEAT_INTERVAL_MS);
+    expect(listed(onChange, onChange.mock.calls.length - 1)).toEqual(['alice']);
+
+    stop();
+  });
+});
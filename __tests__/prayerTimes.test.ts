@@ -0,0 +1,175 @@
+import {
+  calculatePrayerTimes,
+  calculatePrayerTimeHours,
+  getNextPrayer,
+  nextMidnight,
+  prayerTimeToDate,
+  toDateKey,
+  PrayerTimesSettings,
+} from '../src/utils/prayerTimes';
+import reducer, {
+  refreshPrayerTimes,
+  setAsrMethod,
+  setLocation,
+  setPrayerAdjustment,
+} from '../src/store/slices/prayerTimesSlice';
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+describe('Prayer time calculation', () => {
+  const makkah: PrayerTimesSettings = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezone: 3,
+    method: 'Makkah',
+    asrMethod: 'shafi',
+    highLatitudeRule: 'none',
+    adjustments: {},
+  };
+
+  const london: PrayerTimesSettings = {
+    latitude: 51.5074,
+    longitude: -0.1278,
+    timezone: 1,
+    method: 'MWL',
+    asrMethod: 'shafi',
+    highLatitudeRule: 'angleBased',
+    adjustments: {},
+  };
+
+  it('should match a published Makkah timetable within two minutes', () => {
+    const times = calculatePrayerTimes(makkah, '2024-01-15');
+    const expected = {
+      fajr: '05:40',
+      sunrise: '07:00',
+      dhuhr: '12:29',
+      asr: '15:36',
+      maghrib: '17:58',
+      isha: '19:28',
+    };
+
+    Object.entries(expected).forEach(([prayer, time]) => {
+      const actual = times[prayer as keyof typeof times];
+      expect(Math.abs(toMinutes(actual) - toMinutes(time))).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it('should place Umm al-Qura Isha 90 minutes after Maghrib', () => {
+    const times = calculatePrayerTimes(makkah, '2024-01-15');
+
+    expect(toMinutes(times.isha) - toMinutes(times.maghrib)).toBe(90);
+  });
+
+  it('should return prayers in chronological order', () => {
+    const times = calculatePrayerTimes({ ...makkah, method: 'MWL' }, '2024-07-01');
+    const minutes = [times.fajr, times.sunrise, times.dhuhr, times.asr, times.maghrib, times.isha].map(
+      toMinutes
+    );
+
+    expect(minutes).toEqual([...minutes].sort((a, b) => a - b));
+  });
+
+  it('should put Hanafi Asr later than Shafi Asr', () => {
+    const shafi = calculatePrayerTimes(makkah, '2024-01-15');
+    const hanafi = calculatePrayerTimes({ ...makkah, asrMethod: 'hanafi' }, '2024-01-15');
+
+    expect(toMinutes(hanafi.asr)).toBeGreaterThan(toMinutes(shafi.asr));
+  });
+
+  it('should apply per-prayer minute adjustments', () => {
+    const base = calculatePrayerTimeHours(makkah, '2024-01-15');
+    const adjusted = calculatePrayerTimeHours(
+      { ...makkah, adjustments: { dhuhr: 5, maghrib: -2 } },
+      '2024-01-15'
+    );
+
+    expect((adjusted.dhuhr - base.dhuhr) * 60).toBeCloseTo(5);
+    expect((adjusted.maghrib - base.maghrib) * 60).toBeCloseTo(-2);
+    expect(adjusted.fajr).toBeCloseTo(base.fajr);
+  });
+
+  it('should leave Fajr and Isha undefined at high latitudes without a rule', () => {
+    const times = calculatePrayerTimes({ ...london, highLatitudeRule: 'none' }, '2024-06-21');
+
+    expect(times.fajr).toBe('--:--');
+    expect(times.isha).toBe('--:--');
+    expect(times.sunrise).toBe('04:43');
+  });
+
+  it('should bound Fajr and Isha with a high-latitude rule', () => {
+    const angleBased = calculatePrayerTimes(london, '2024-06-21');
+    const middle = calculatePrayerTimes({ ...london, highLatitudeRule: 'middleOfNight' }, '2024-06-21');
+
+    expect(angleBased.fajr).not.toBe('--:--');
+    expect(angleBased.isha).not.toBe('--:--');
+    // With the middle-of-night rule, Fajr and Isha meet halfway through the night
+    expect(Math.abs(toMinutes(middle.fajr) - toMinutes(middle.isha))).toBeLessThanOrEqual(1);
+  });
+
+  it('should find the next prayer after a given moment', () => {
+    const times = calculatePrayerTimes(makkah, '2024-01-15');
+    const afterDhuhr = prayerTimeToDate('2024-01-15', '13:00', 3)!;
+
+    expect(getNextPrayer(times, '2024-01-15', 3, afterDhuhr)?.prayer).toBe('asr');
+    expect(
+      getNextPrayer(times, '2024-01-15', 3, prayerTimeToDate('2024-01-15', '23:00', 3)!)
+    ).toBeNull();
+  });
+
+  it('should convert local prayer times to absolute dates', () => {
+    const date = prayerTimeToDate('2024-01-15', '12:30', 3);
+
+    expect(date?.toISOString()).toBe('2024-01-15T09:30:00.000Z');
+    expect(prayerTimeToDate('2024-01-15', '--:--', 3)).toBeNull();
+  });
+
+  it('should roll the date over at midnight in the settings\' timezone', () => {
+    // 22:30 UTC is already the 16th in Makkah (UTC+3)
+    const now = new Date('2024-01-15T22:30:00.000Z');
+
+    expect(toDateKey(now, 3)).toBe('2024-01-16');
+    expect(toDateKey(now, -5)).toBe('2024-01-15');
+    expect(nextMidnight(now, 3).toISOString()).toBe('2024-01-16T21:00:00.000Z');
+    expect(nextMidnight(now, -5).toISOString()).toBe('2024-01-16T05:00:00.000Z');
+  });
+});
+
+describe('prayerTimesSlice', () => {
+  it('should compute the timetable when refreshed', () => {
+    const state = reducer(undefined, refreshPrayerTimes('2024-01-15'));
+
+    expect(state.date).toBe('2024-01-15');
+    expect(state.times?.isha).toBeDefined();
+  });
+
+  it('should default to today in the settings\' timezone', () => {
+    // 22:30 UTC is already the 16th in Makkah (UTC+3), the default location
+    jest.spyOn(Date, 'now').mockReturnValue(new Date('2024-01-15T22:30:00.000Z').getTime());
+
+    let state = reducer(undefined, refreshPrayerTimes());
+    expect(state.date).toBe('2024-01-16');
+
+    state = reducer(state, setLocation({ latitude: 40.7128, longitude: -74.006, timezone: -5 }));
+    state = reducer(state, refreshPrayerTimes());
+    expect(state.date).toBe('2024-01-15');
+
+    jest.restoreAllMocks();
+  });
+
+  it('should recompute when settings change', () => {
+    let state = reducer(undefined, refreshPrayerTimes('2024-01-15'));
+    const shafiAsr = state.times!.asr;
+
+    state = reducer(state, setAsrMethod('hanafi'));
+    expect(state.times!.asr).not.toBe(shafiAsr);
+
+    state = reducer(state, setPrayerAdjustment({ prayer: 'fajr', minutes: 3 }));
+    expect(state.settings.adjustments.fajr).toBe(3);
+
+    state = reducer(state, setLocation({ latitude: 51.5074, longitude: -0.1278, timezone: 0 }));
+    expect(state.settings.latitude).toBe(51.5074);
+  });
+});
@@ -0,0 +1,51 @@
+import { parseRecipients, toRecipientCsv } from '../src/utils/recipientImport';
+
+describe('parseRecipients', () => {
+  it('should read CSV with the columns in any order and quoted fields', () => {
+    const rows = parseRecipients(
+      'Group,Email,Name\r\nFamily,amina@example.com,"Amina, Sr."\n\n,yusuf@example.com,\n'
+    );
+
+    expect(rows).toEqual([
+      { email: 'amina@example.com', name: 'Amina, Sr.', group: 'Family' },
+      { email: 'yusuf@example.com' },
+    ]);
+  });
+
+  it('should keep rows without an email so the backend can report them', () => {
+    expect(parseRecipients('email,name\n,Nameless')).toEqual([{ email: '', name: 'Nameless' }]);
+  });
+
+  it('should read JSON arrays and exports', () => {
+    const exported = {
+      senderId: 'sender1',
+      rows: [{ receiverId: 'r1', email: 'amina@example.com', name: 'Amina', group: null }],
+    };
+
+    expect(parseRecipients('[{"email": "yusuf@example.com", "group": "Neighbours"}]')).toEqual([
+      { email: 'yusuf@example.com', group: 'Neighbours' },
+    ]);
+    expect(parseRecipients(JSON.stringify(exported))).toEqual([{ email: 'amina@example.com', name: 'Amina' }]);
+  });
+
+  it('should reject text it cannot read', () => {
+    expect(() => parseRecipients('  ')).toThrow('Nothing to import');
+    expect(() => parseRecipients('{"rows": ')).toThrow('Not valid JSON');
+    expect(() => parseRecipients('name,group\nAmina,Family')).toThrow('"email"');
+  });
+});
+
+describe('toRecipientCsv', () => {
+  it('should write CSV that parses back to the same rows', () => {
+    const csv = toRecipientCsv([
+      { receiverId: 'r1', email: 'amina@example.com', name: 'Amina "Umm Yusuf"', group: 'Family' },
+      { receiverId: 'r2', email: 'yusuf@example.com', name: null, group: null },
+    ]);
+
+    expect(csv.split('\n')[0]).toBe('email,name,group');
+    expect(parseRecipients(csv)).toEqual([
+      { email: 'amina@example.com', name: 'Amina "Umm Yusuf"', group: 'Family' },
+      { email: 'yusuf@example.com' },
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+import { SIGN_UP_ROLES, homeActionFor, screensFor } from '../src/utils/roleAccess';
+
+describe('roleAccess', () => {
+  it('should keep each role to its own screens', () => {
+    expect(screensFor('receiver')).toEqual([
+      'Home',
+      'Settings',
+      'ReceiverDashboard',
+      'JoinInvite',
+      'Subscriptions',
+    ]);
+    expect(screensFor('sender')).toContain('SenderDashboard');
+    expect(screensFor('sender')).not.toContain('ReceiverDashboard');
+    expect(screensFor('admin')).toEqual(['Home', 'Settings', 'Users']);
+  });
+
+  it('should only offer the common screens before the role is known', () => {
+    expect(screensFor(undefined)).toEqual(['Home', 'Settings']);
+    expect(homeActionFor(undefined)).toBeNull();
+  });
+
+  it('should link home to a screen the role can open', () => {
+    (['sender', 'receiver', 'admin'] as const).forEach((role) => {
+      expect(screensFor(role)).toContain(homeActionFor(role)!.screen);
+    });
+  });
+
+  it('should not offer admin at sign-up', () => {
+    expect(SIGN_UP_ROLES).not.toContain('admin');
+  });
+});
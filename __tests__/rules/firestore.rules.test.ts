@@ -0,0 +1,260 @@
+/**
+ * firestore.rules against the Firestore emulator: `npm run test:rules`.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+
+let testEnv: RulesTestEnvironment;
+
+const as = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+const anonymous = () => testEnv.unauthenticatedContext().firestore();
+
+const minutesFromNow = (minutes: number) => Timestamp.fromMillis(Date.now() + minutes * 60000);
+
+const announcement = (overrides: object = {}) => ({
+  sessionId: 'sender1_1',
+  senderId: 'sender1',
+  channelName: 'myazan_sender1',
+  isLive: true,
+  startedAt: Timestamp.now(),
+  lastHeartbeatAt: Timestamp.now(),
+  mappedReceiverIds: ['receiver1'],
+  ...overrides,
+});
+
+async function seed(documents: Record<string, object>) {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    for (const [docPath, data] of Object.entries(documents)) {
+      await setDoc(doc(db, docPath), data);
+    }
+  });
+}
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-myazan',
+    firestore: { rules: fs.readFileSync(path.join(__dirname, '..', '..', 'firestore.rules'), 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed({
+    'users/sender1': { uid: 'sender1', name: 'Masjid', email: 's1@example.com', role: 'sender' },
+    'users/sender2': { uid: 'sender2', name: 'Other', email: 's2@example.com', role: 'sender' },
+    'users/receiver1': { uid: 'receiver1', name: 'Amina', email: 'r1@example.com', role: 'receiver' },
+  });
+});
+
+describe('users', () => {
+  it('should let users create their own profile as sender or receiver only', async () => {
+    const profile = { uid: 'new1', name: 'New', email: 'new@example.com' };
+
+    await assertSucceeds(setDoc(doc(as('new1'), 'users/new1'), { ...profile, role: 'receiver' }));
+    await assertFails(setDoc(doc(as('new2'), 'users/new2'), { ...profile, uid: 'new2', role: 'admin' }));
+    await assertFails(setDoc(doc(as('new3'), 'users/other'), { ...profile, uid: 'other', role: 'sender' }));
+  });
+
+  it('should let owners rename themselves but not change their role', async () => {
+    const own = doc(as('receiver1'), 'users/receiver1');
+
+    await assertSucceeds(updateDoc(own, { name: 'Amina B.' }));
+    await assertFails(updateDoc(own, { role: 'sender' }));
+    await assertFails(deleteDoc(own));
+  });
+
+  it('should keep profiles private to their owner', async () => {
+    await assertSucceeds(getDoc(doc(as('receiver1'), 'users/receiver1')));
+    await assertFails(getDoc(doc(as('receiver1'), 'users/sender1')));
+    await assertFails(updateDoc(doc(as('sender1'), 'users/receiver1'), { name: 'Hacked' }));
+    await assertFails(getDoc(doc(anonymous(), 'users/receiver1')));
+  });
+});
+
+describe('announcements', () => {
+  it('should let a sender create announcements only for itself', async () => {
+    await assertSucceeds(setDoc(doc(as('sender1'), 'announcements/sender1_1'), announcement()));
+    await assertFails(
+      setDoc(doc(as('sender1'), 'announcements/sender2_1'), announcement({ sessionId: 'sender2_1', senderId: 'sender2' }))
+    );
+    await assertFails(
+      setDoc(doc(as('sender1'), 'announcements/sender1_2'), announcement({ channelName: 'myazan_sender2' }))
+    );
+  });
+
+  it('should not let announcements carry an Agora token', async () => {
+    await assertFails(setDoc(doc(as('sender1'), 'announcements/sender1_1'), announcement({ agoraToken: 'token' })));
+    await seed({ 'announcements/sender1_2': announcement({ sessionId: 'sender1_2' }) });
+    await assertFails(updateDoc(doc(as('sender1'), 'announcements/sender1_2'), { agoraToken: 'token' }));
+  });
+
+  it('should still let senders end announcements written with a token', async () => {
+    await seed({ 'announcements/sender1_1': announcement({ agoraToken: 'legacy' }) });
+
+    await assertSucceeds(updateDoc(doc(as('sender1'), 'announcements/sender1_1'), { isLive: false }));
+  });
+
+  it('should not let receivers create announcements', async () => {
+    await assertFails(
+      setDoc(
+        doc(as('receiver1'), 'announcements/receiver1_1'),
+        announcement({ sessionId: 'receiver1_1', senderId: 'receiver1', channelName: 'myazan_receiver1' })
+      )
+    );
+  });
+
+  it('should let only the sender end a session whose lease is current', async () => {
+    await seed({ 'announcements/sender1_1': announcement() });
+    const end = { isLive: false, endedAt: serverTimestamp(), endedReason: 'manual' };
+
+    await assertFails(updateDoc(doc(as('sender2'), 'announcements/sender1_1'), end));
+    await assertFails(updateDoc(doc(as('sender1'), 'announcements/sender1_1'), { senderId: 'sender2' }));
+    await assertSucceeds(updateDoc(doc(as('sender1'), 'announcements/sender1_1'), end));
+    await assertFails(deleteDoc(doc(as('sender1'), 'announcements/sender1_1')));
+  });
+
+  it('should let anyone end a session whose lease lapsed, and change nothing else', async () => {
+    await seed({ 'announcements/sender1_1': announcement({ lastHeartbeatAt: minutesFromNow(-5) }) });
+    const ref = doc(as('receiver1'), 'announcements/sender1_1');
+
+    await assertFails(updateDoc(ref, { isLive: false, endedReason: 'crash_cleanup', title: 'Hacked' }));
+    await assertFails(updateDoc(ref, { isLive: false, endedReason: 'manual' }));
+    await assertSucceeds(
+      updateDoc(ref, { isLive: false, endedAt: serverTimestamp(), endedReason: 'crash_cleanup' })
+    );
+  });
+
+  it('should let signed-in users read announcements', async () => {
+    await seed({ 'announcements/sender1_1': announcement() });
+
+    await assertSucceeds(getDoc(doc(as('receiver1'), 'announcements/sender1_1')));
+    await assertFails(getDoc(doc(anonymous(), 'announcements/sender1_1')));
+  });
+});
+
+describe('presence and listener events', () => {
+  beforeEach(async () => {
+    await seed({ 'announcements/sender1_1': announcement() });
+  });
+
+  it('should let receivers write only their own presence', async () => {
+    const own = doc(as('receiver1'), 'announcements/sender1_1/presence/receiver1');
+
+    await assertSucceeds(setDoc(own, { receiverId: 'receiver1', lastSeenAt: serverTimestamp() }));
+    await assertSucceeds(updateDoc(own, { lastSeenAt: serverTimestamp() }));
+    await assertFails(
+      setDoc(doc(as('receiver1'), 'announcements/sender1_1/presence/sender2'), { receiverId: 'sender2' })
+    );
+    await assertSucceeds(deleteDoc(own));
+  });
+
+  it('should keep receivers the broadcast was not sent to out of its presence', async () => {
+    await assertFails(
+      setDoc(doc(as('receiver2'), 'announcements/sender1_1/presence/receiver2'), {
+        receiverId: 'receiver2',
+        lastSeenAt: serverTimestamp(),
+      })
+    );
+  });
+
+  it('should show presence to the announcement\'s sender only', async () => {
+    await seed({ 'announcements/sender1_1/presence/receiver1': { receiverId: 'receiver1' } });
+
+    await assertSucceeds(getDocs(collection(as('sender1'), 'announcements/sender1_1/presence')));
+    await assertFails(getDocs(collection(as('sender2'), 'announcements/sender1_1/presence')));
+  });
+
+  it('should keep listener events append-only, targeted and in the caller\'s name', async () => {
+    const events = collection(as('receiver1'), 'announcements/sender1_1/listenerEvents');
+
+    await assertSucceeds(addDoc(events, { receiverId: 'receiver1', type: 'join', at: serverTimestamp() }));
+    await assertFails(addDoc(events, { receiverId: 'sender2', type: 'join', at: serverTimestamp() }));
+    await assertFails(
+      addDoc(collection(as('receiver2'), 'announcements/sender1_1/listenerEvents'), {
+        receiverId: 'receiver2',
+        type: 'join',
+        at: serverTimestamp(),
+      })
+    );
+    await seed({ 'announcements/sender1_1/listenerEvents/e1': { receiverId: 'receiver1', type: 'join' } });
+    await assertFails(
+      updateDoc(doc(as('receiver1'), 'announcements/sender1_1/listenerEvents/e1'), { type: 'leave' })
+    );
+    await assertFails(getDocs(events));
+    await assertSucceeds(getDocs(collection(as('sender1'), 'announcements/sender1_1/listenerEvents')));
+  });
+});
+
+describe('mappings, subscriptions and channel locks', () => {
+  it('should make mappings and their groups the sender\'s alone', async () => {
+    await seed({ 'mappings/sender1': { senderId: 'sender1', receivers: ['receiver1'] } });
+
+    await assertSucceeds(getDoc(doc(as('sender1'), 'mappings/sender1')));
+    await assertSucceeds(
+      setDoc(doc(as('sender1'), 'mappings/sender1/groups/g1'), { name: 'Family', receiverIds: [] })
+    );
+    await assertFails(getDoc(doc(as('sender2'), 'mappings/sender1')));
+    await assertFails(setDoc(doc(as('receiver1'), 'mappings/sender1'), { receivers: ['receiver1'] }));
+    await assertFails(setDoc(doc(as('sender2'), 'mappings/sender1/groups/g2'), { name: 'Mine' }));
+  });
+
+  it('should only let the backend add receivers to a mapping', async () => {
+    await seed({ 'mappings/sender1': { senderId: 'sender1', receivers: [] } });
+
+    await assertFails(updateDoc(doc(as('sender1'), 'mappings/sender1'), { receivers: ['receiver1'] }));
+    await assertFails(setDoc(doc(as('sender2'), 'mappings/sender2'), { senderId: 'sender2', receivers: [] }));
+    await assertFails(getDoc(doc(as('receiver1'), 'subscriptionRequests/sender1_receiver1')));
+    await assertFails(
+      setDoc(doc(as('sender1'), 'subscriptionRequests/sender1_receiver1'), { status: 'pending' })
+    );
+  });
+
+  it('should let receivers read but not write their subscriptions', async () => {
+    await seed({ 'subscriptions/receiver1': { receiverId: 'receiver1', senderIds: ['sender1'] } });
+
+    await assertSucceeds(getDoc(doc(as('receiver1'), 'subscriptions/receiver1')));
+    await assertFails(getDoc(doc(as('sender1'), 'subscriptions/receiver1')));
+    await assertFails(updateDoc(doc(as('receiver1'), 'subscriptions/receiver1'), { senderIds: ['sender2'] }));
+  });
+
+  it('should let senders lock only their own channel', async () => {
+    const lock = { channelName: 'myazan_sender1', sessionId: 'sender1_1', senderId: 'sender1' };
+
+    await assertSucceeds(setDoc(doc(as('sender1'), 'channelLocks/myazan_sender1'), lock));
+    await assertFails(setDoc(doc(as('sender2'), 'channelLocks/myazan_sender1'), { ...lock, senderId: 'sender2' }));
+    await assertFails(deleteDoc(doc(as('sender2'), 'channelLocks/myazan_sender1')));
+    await assertSucceeds(deleteDoc(doc(as('sender1'), 'channelLocks/myazan_sender1')));
+  });
+
+  it('should close Agora uid allocations and invites to clients', async () => {
+    await assertFails(getDoc(doc(as('sender1'), 'agoraUids/12345')));
+    await assertFails(setDoc(doc(as('sender1'), 'agoraUids/12345'), { uid: 'sender1' }));
+    await assertFails(getDoc(doc(as('receiver1'), 'invites/ABCD2345')));
+    await assertFails(
+      setDoc(doc(as('sender1'), 'invites/ABCD2345'), { code: 'ABCD2345', senderId: 'sender1', uses: 0 })
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { ScheduleManager, ScheduledAnnouncement } from '../src/services/scheduleManager';
+import { calculatePrayerTimes, prayerTimeToDate, PrayerTimesSettings } from '../src/utils/prayerTimes';
+import * as firestore from 'firebase/firestore';
+
+jest.mock('firebase/firestore');
+
+describe('ScheduleManager', () => {
+  const settings: PrayerTimesSettings = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezone: 3,
+    method: 'Makkah',
+    asrMethod: 'shafi',
+    highLatitudeRule: 'none',
+    adjustments: {},
+  };
+
+  const dhuhrOn = (dateKey: string) =>
+    prayerTimeToDate(dateKey, calculatePrayerTimes(settings, dateKey).dhuhr, settings.timezone)!;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveScheduledTime', () => {
+    it('should return fixed times as-is', () => {
+      const at = '2024-01-15T10:00:00.000Z';
+      const result = ScheduleManager.resolveScheduledTime({ type: 'fixed', at }, settings);
+
+      expect(result?.toISOString()).toBe(at);
+    });
+
+    it('should offset from today\'s prayer when it is still ahead', () => {
+      const now = new Date('2024-01-15T05:00:00.000Z'); // 08:00 in Makkah
+      const result = ScheduleManager.resolveScheduledTime(
+        { type: 'prayer', prayer: 'dhuhr', offsetMinutes: -10 },
+        settings,
+        now
+      );
+
+      expect(result?.getTime()).toBe(dhuhrOn('2024-01-15').getTime() - 10 * 60000);
+    });
+
+    it('should roll over to tomorrow once today\'s slot has passed', () => {
+      const now = new Date('2024-01-15T12:00:00.000Z'); // 15:00 in Makkah
+      const result = ScheduleManager.resolveScheduledTime(
+        { type: 'prayer', prayer: 'dhuhr', offsetMinutes: 5 },
+        settings,
+        now
+      );
+
+      expect(result?.getTime()).toBe(dhuhrOn('2024-01-16').getTime() + 5 * 60000);
+    });
+  });
+
+  describe('createSchedule', () => {
+    it('should store a resolved, recurring prayer schedule', async () => {
+      (firestore.setDoc as jest.Mock).mockResolvedValueOnce(undefined);
+
+      const id = await ScheduleManager.createSchedule(
+        'sender123',
+        'Dhuhr azan',
+        { type: 'prayer', prayer: 'dhuhr', offsetMinutes: 0 },
+        settings
+      );
+
+      expect(id).toMatch(/^sender123_/);
+      expect(firestore.setDoc).toHaveBeenCalledWith(
+        undefined,
+        expect.objectContaining({
+          senderId: 'sender123',
+          title: 'Dhuhr azan',
+          recurring: true,
+          status: 'pending',
+          scheduledFor: expect.any(Date),
+        })
+      );
+    });
+
+    it('should return null when the write fails', async () => {
+      (firestore.setDoc as jest.Mock).mockRejectedValueOnce(new Error('offline'));
+
+      const id = await ScheduleManager.createSchedule(
+        'sender123',
+        'Test',
+        { type: 'fixed', at: new Date(Date.now() + 60000).toISOString() },
+        settings
+      );
+
+      expect(id).toBeNull();
+    });
+  });
+
+  describe('completeSchedule', () => {
+    it('should close one-off schedules', async () => {
+      const schedule: ScheduledAnnouncement = {
+        id: 's1',
+        senderId: 'sender123',
+        title: 'Jumu\'ah',
+        trigger: { type: 'fixed', at: new Date().toISOString() },
+        scheduledFor: new Date(),
+        recurring: false,
+        status: 'pending',
+      };
+
+      await ScheduleManager.completeSchedule(schedule, settings);
+
+      expect(firestore.updateDoc).toHaveBeenCalledWith(
+        undefined,
+        expect.objectContaining({ status: 'triggered' })
+      );
+    });
+
+    it('should roll recurring schedules forward', async () => {
+      const schedule: ScheduledAnnouncement = {
+        id: 's2',
+        senderId: 'sender123',
+        title: 'Asr',
+        trigger: { type: 'prayer', prayer: 'asr', offsetMinutes: 0 },
+        scheduledFor: new Date(),
+        recurring: true,
+        status: 'pending',
+      };
+
+      await ScheduleManager.completeSchedule(schedule, settings);
+
+      const update = (firestore.updateDoc as jest.Mock).mock.calls[0][1];
+      expect(update.status).toBeUndefined();
+      expect(update.scheduledFor.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('listenToUpcoming', () => {
+    it('should shard large sender lists and merge results by start time', () => {
+      const handlers: Array<(snapshot: any) => void> = [];
+      (firestore.onSnapshot as jest.Mock).mockImplementation((_q, onNext) => {
+        handlers.push(onNext);
+        return jest.fn();
+      });
+      const onChange = jest.fn();
+      const senderIds = Array.from({ length: 35 }, (_, i) => `sender${i}`);
+
+      ScheduleManager.listenToUpcoming(senderIds, onChange);
+      expect(handlers).toHaveLength(2);
+
+      const docFor = (id: string, iso: string) => ({
+        data: () => ({ id, senderId: 'x', scheduledFor: { toDate: () => new Date(iso) } }),
+      });
+      handlers[0]({ docs: [docFor('late', '2024-01-15T12:00:00Z')] });
+      handlers[1]({ docs: [docFor('early', '2024-01-15T08:00:00Z')] });
+
+      const latest = onChange.mock.calls[onChange.mock.calls.length - 1][0];
+      expect(latest.map((s: ScheduledAnnouncement) => s.id)).toEqual(['early', 'late']);
+    });
+  });
+});
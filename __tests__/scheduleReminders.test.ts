@@ -0,0 +1,114 @@
+import notifee, { EventType } from '@notifee/react-native';
+import { ScheduleReminders } from '../src/services/scheduleReminders';
+import { ScheduledAnnouncement } from '../src/services/scheduleManager';
+
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {
+    requestPermission: jest.fn(),
+    createChannel: jest.fn(),
+    setNotificationCategories: jest.fn(),
+    getTriggerNotificationIds: jest.fn(),
+    cancelTriggerNotification: jest.fn(),
+    createTriggerNotification: jest.fn(),
+    getInitialNotification: jest.fn(),
+    onForegroundEvent: jest.fn(),
+  },
+  AndroidImportance: { HIGH: 4 },
+  EventType: { DISMISSED: 0, PRESS: 1, ACTION_PRESS: 2, DELIVERED: 3 },
+  TriggerType: { TIMESTAMP: 0 },
+}));
+
+const native = notifee as jest.Mocked<typeof notifee>;
+const now = new Date('2024-01-15T10:00:00.000Z').getTime();
+
+const schedule = (id: string, minutesFromNow: number): ScheduledAnnouncement => ({
+  id,
+  senderId: 'sender1',
+  title: `Azan ${id}`,
+  trigger: { type: 'prayer', prayer: 'fajr', offsetMinutes: 0 },
+  scheduledFor: new Date(now + minutesFromNow * 60000),
+  recurring: true,
+  status: 'pending',
+});
+
+describe('ScheduleReminders', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    native.getTriggerNotificationIds.mockResolvedValue([]);
+    native.getInitialNotification.mockResolvedValue(null);
+    native.onForegroundEvent.mockReturnValue(jest.fn());
+  });
+
+  it('should schedule a reminder at each upcoming schedule\'s time', async () => {
+    await ScheduleReminders.sync([schedule('s1', 5), schedule('s2', -1)], now);
+
+    expect(native.createTriggerNotification).toHaveBeenCalledTimes(1);
+    const [notification, trigger] = native.createTriggerNotification.mock.calls[0];
+    expect(notification.id).toBe('schedule_s1');
+    expect(notification.data).toEqual({ scheduleId: 's1', title: 'Azan s1', prayer: 'fajr' });
+    expect(trigger).toEqual({ type: 0, timestamp: now + 5 * 60000 });
+  });
+
+  it('should cancel reminders for schedules that are gone, leaving other notifications', async () => {
+    native.getTriggerNotificationIds.mockResolvedValue(['schedule_s1', 'schedule_old', 'other']);
+
+    await ScheduleReminders.sync([schedule('s1', 5)], now);
+
+    expect(native.cancelTriggerNotification).toHaveBeenCalledTimes(1);
+    expect(native.cancelTriggerNotification).toHaveBeenCalledWith('schedule_old');
+  });
+
+  it('should not throw when reminders cannot be scheduled', async () => {
+    native.getTriggerNotificationIds.mockRejectedValue(new Error('no permission'));
+
+    await expect(ScheduleReminders.sync([schedule('s1', 5)], now)).resolves.toBeUndefined();
+  });
+
+  it('should report reminders going off and being tapped while the app is open', async () => {
+    const onReminder = jest.fn();
+    ScheduleReminders.listen(onReminder);
+    const onEvent = native.onForegroundEvent.mock.calls[0][0];
+    const notification = {
+      id: 'schedule_s1',
+      data: { scheduleId: 's1', title: 'Azan s1', prayer: '' },
+    };
+
+    onEvent({ type: EventType.DELIVERED, detail: { notification } });
+    onEvent({ type: EventType.PRESS, detail: { notification, pressAction: { id: 'default' } } });
+    onEvent({
+      type: EventType.ACTION_PRESS,
+      detail: { notification, pressAction: { id: 'start_broadcast' } },
+    });
+    onEvent({ type: EventType.PRESS, detail: { notification: { id: 'other', data: {} } } });
+
+    const reminder = { scheduleId: 's1', title: 'Azan s1', prayer: null };
+    expect(onReminder.mock.calls).toEqual([
+      [reminder, 'delivered'],
+      [reminder, 'opened'],
+      [reminder, 'start'],
+    ]);
+  });
+
+  it('should report the tap that launched the app, unless already unsubscribed', async () => {
+    native.getInitialNotification.mockResolvedValue({
+      notification: { id: 'schedule_s1', data: { scheduleId: 's1', title: 'Azan s1', prayer: 'fajr' } },
+      pressAction: { id: 'start_broadcast' },
+    });
+    const onReminder = jest.fn();
+    const unsubscribe = jest.fn();
+
+    ScheduleReminders.listen(onReminder);
+    await Promise.resolve();
+
+    expect(onReminder).toHaveBeenCalledWith({ scheduleId: 's1', title: 'Azan s1', prayer: 'fajr' }, 'start');
+
+    onReminder.mockClear();
+    native.onForegroundEvent.mockReturnValue(unsubscribe);
+    ScheduleReminders.listen(onReminder)();
+    await Promise.resolve();
+
+    expect(onReminder).not.toHaveBeenCalled();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
@@ -11,9 +11,13 @@ jest.mock('firebase/firestore', () => ({
   doc: jest.fn(),
   query: jest.fn(),
   where: jest.fn(),
+  getDoc: jest.fn(),
   getDocs: jest.fn(),
+  addDoc: jest.fn(),
   setDoc: jest.fn(),
   updateDoc: jest.fn(),
+  deleteDoc: jest.fn(),
+  runTransaction: jest.fn(),
   writeBatch: jest.fn(() => ({
     update: jest.fn(),
     commit: jest.fn(),
@@ -45,7 +49,15 @@ jest.mock('react-native-agora', () => ({
 }));
 
 // Mock Axios
-jest.mock('axios', () => ({
-  post: jest.fn(),
-  get: jest.fn(),
-}));
+// `create` and `isAxiosError` stay real so the API client's interceptors run;
+// tests stub the transport by replacing `apiClient.defaults.adapter`.
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  return {
+    post: jest.fn(),
+    get: jest.fn(),
+    create: actual.create,
+    isAxiosError: actual.isAxiosError,
+    AxiosError: actual.AxiosError,
+  };
+});
@@ -0,0 +1,48 @@
+import { apiClient, getSubscriptions } from '../src/services/api';
+import * as firebaseAuth from 'firebase/auth';
+
+jest.mock('firebase/auth');
+
+describe('Receiver subscriptions', () => {
+  const mockAdapter = jest.fn();
+
+  const respondWith = (data: any) =>
+    mockAdapter.mockImplementationOnce(async (config) => ({
+      data,
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    apiClient.defaults.adapter = mockAdapter;
+    (firebaseAuth.getAuth as jest.Mock).mockReturnValue({
+      currentUser: {
+        getIdToken: jest.fn().mockResolvedValue('mock_firebase_token'),
+      },
+    });
+  });
+
+  it('should fetch the senders a receiver follows', async () => {
+    respondWith({ receiverId: 'receiver1', senderIds: ['sender1', 'sender2'] });
+
+    const result = await getSubscriptions('receiver1');
+
+    expect(result.senderIds).toEqual(['sender1', 'sender2']);
+    const request = mockAdapter.mock.calls[0][0];
+    expect(request.method).toBe('get');
+    expect(`${request.baseURL}${request.url}`).toContain('/api/subscriptions/receiver1');
+    expect(request.headers.get('Authorization')).toBe('Bearer mock_firebase_token');
+  });
+
+  it('should not query the sender mapping endpoint', async () => {
+    respondWith({ receiverId: 'receiver1', senderIds: [] });
+
+    await getSubscriptions('receiver1');
+
+    expect(mockAdapter).toHaveBeenCalledTimes(1);
+    expect(mockAdapter.mock.calls[0][0].url).not.toContain('/mappings/');
+  });
+});
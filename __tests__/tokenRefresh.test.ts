@@ -0,0 +1,148 @@
+import { TokenRefreshManager, TokenRefreshEvent, getTokenWarning } from '../src/utils/tokenRefresh';
+import { generateAgoraToken } from '../src/services/api';
+import { FakeAudioEngine } from '../src/services/fakeAudioEngine';
+
+jest.mock('../src/services/api');
+
+describe('TokenRefreshManager', () => {
+  const mockGenerate = generateAgoraToken as jest.Mock;
+  let engine: FakeAudioEngine;
+
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60000).toISOString();
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    engine = new FakeAudioEngine();
+    await engine.create();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should renew ahead of the token expiry', async () => {
+    mockGenerate.mockResolvedValue({ token: 'fresh', expiresAt: inMinutes(60) });
+    const manager = new TokenRefreshManager();
+
+    manager.initialize(engine, 'myazan_sender1', 0, 'publisher', inMinutes(10));
+    await jest.advanceTimersByTimeAsync(8 * 60000);
+    expect(mockGenerate).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(mockGenerate).toHaveBeenCalledWith('myazan_sender1', 'publisher', 0);
+    expect(engine.renewedTokens).toEqual(['fresh']);
+    expect(manager.getStatus()).toBe('renewed');
+    manager.cleanup();
+  });
+
+  it('should renew on engine token events, sharing one request', async () => {
+    mockGenerate.mockResolvedValue({ token: 'fresh', expiresAt: inMinutes(60) });
+    const manager = new TokenRefreshManager();
+    manager.initialize(engine, 'myazan_sender1', 42, 'audience');
+
+    engine.emit('tokenWillExpire');
+    engine.emit('tokenRequired');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(mockGenerate).toHaveBeenCalledTimes(1);
+    expect(engine.renewedTokens).toEqual(['fresh']);
+    manager.cleanup();
+  });
+
+  it('should retry when the engine rejects the new token', async () => {
+    mockGenerate.mockResolvedValue({ token: 'fresh', expiresAt: inMinutes(60) });
+    engine.failNext.renewToken = new Error('invalid token');
+    const manager = new TokenRefreshManager();
+    manager.initialize(engine, 'myazan_sender1', 0, 'publisher');
+
+    const result = manager.renew();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await result).toBe(true);
+    expect(mockGenerate).toHaveBeenCalledTimes(2);
+    manager.cleanup();
+  });
+
+  it('should retry with backoff and report failure', async () => {
+    mockGenerate.mockRejectedValue(new Error('offline'));
+    const events: TokenRefreshEvent[] = [];
+    const manager = new TokenRefreshManager();
+    manager.onStatusChange((event) => events.push(event));
+    manager.initialize(engine, 'myazan_sender1', 0, 'publisher');
+
+    const result = manager.renew();
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000);
+
+    expect(await result).toBe(false);
+    expect(mockGenerate).toHaveBeenCalledTimes(5);
+    expect(events.map((e) => e.status)).toEqual([
+      'renewing', 'renewing', 'renewing', 'renewing', 'renewing', 'failed',
+    ]);
+    expect(events[5].error?.message).toBe('offline');
+    manager.cleanup();
+  });
+
+  it('should recover when a retry succeeds', async () => {
+    mockGenerate
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce({ token: 'fresh', expiresAt: inMinutes(60) });
+    const manager = new TokenRefreshManager();
+    manager.initialize(engine, 'myazan_sender1', 0, 'publisher');
+
+    const result = manager.renew();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await result).toBe(true);
+    expect(manager.getExpiresAt()?.getTime()).toBeGreaterThan(Date.now());
+    manager.cleanup();
+  });
+
+  it('should stop retrying and stop listening to the engine on cleanup', async () => {
+    mockGenerate.mockRejectedValue(new Error('offline'));
+    const manager = new TokenRefreshManager();
+    manager.initialize(engine, 'myazan_sender1', 0, 'publisher');
+
+    const result = manager.renew();
+    await jest.advanceTimersByTimeAsync(0);
+    manager.cleanup();
+
+    expect(await result).toBe(false);
+    expect(mockGenerate).toHaveBeenCalledTimes(1);
+
+    engine.emit('tokenWillExpire');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockGenerate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep sharing a newer renewal when one from before cleanup settles', async () => {
+    let settleStale: (value: unknown) => void = () => {};
+    mockGenerate
+      .mockReturnValueOnce(new Promise((resolve) => (settleStale = resolve)))
+      .mockReturnValueOnce(new Promise(() => {}));
+    const manager = new TokenRefreshManager();
+    manager.initialize(engine, 'myazan_sender1', 0, 'publisher');
+
+    const stale = manager.renew();
+    await jest.advanceTimersByTimeAsync(0);
+    manager.cleanup();
+    manager.initialize(engine, 'myazan_sender1', 0, 'publisher');
+    const current = manager.renew();
+    await jest.advanceTimersByTimeAsync(0);
+
+    settleStale({ token: 'stale', expiresAt: inMinutes(60) });
+    expect(await stale).toBe(false);
+    expect(manager.renew()).toBe(current);
+    expect(mockGenerate).toHaveBeenCalledTimes(2);
+    manager.cleanup();
+  });
+});
+
+describe('getTokenWarning', () => {
+  it('should warn only on retries and failure', () => {
+    expect(getTokenWarning({ status: 'renewing', expiresAt: null, attempt: 1 })).toBeNull();
+    expect(getTokenWarning({ status: 'renewing', expiresAt: null, attempt: 2 })).toMatch(/retrying/);
+    expect(getTokenWarning({ status: 'failed', expiresAt: null })).toMatch(/may drop soon/);
+    expect(getTokenWarning({ status: 'renewed', expiresAt: new Date() })).toBeNull();
+  });
+});
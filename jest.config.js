@@ -26,5 +26,8 @@ module.exports = {
     '/node_modules/',
     '/dist/',
     '/build/',
+    '/myazan-backend/',
+    // Need the Firestore emulator; see jest.rules.config.js
+    '/__tests__/rules/',
   ],
 };
@@ -0,0 +1,14 @@
+/**
+ * Security rules tests, run against the Firestore emulator by
+ * `npm run test:rules`. Unlike the unit tests they use the real Firebase SDK,
+ * so `__tests__/setup.js` is not loaded.
+ */
+const base = require('./jest.config');
+
+module.exports = {
+  testEnvironment: 'node',
+  moduleFileExtensions: base.moduleFileExtensions,
+  transform: base.transform,
+  testMatch: ['**/__tests__/rules/**/*.test.ts'],
+  testTimeout: 20000,
+};
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildDeliveryReport } from '../src/deliveryReport';
+
+interface IntervalCase {
+  name: string;
+  durationMinutes: number;
+  events: { receiverId: string; type: 'join' | 'leave'; at: number }[];
+  listeners: { receiverId: string; joins: number; firstJoinedAt: number; listenedSeconds: number }[];
+}
+
+/** Shared with the app's computeListenerStats() tests so the two cannot drift. */
+const fixture: { cases: IntervalCase[] } = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', '..', '__tests__', 'fixtures', 'listenerIntervals.json'), 'utf8')
+);
+
+const start = Date.parse('2024-01-15T10:00:00.000Z');
+const at = (minutes: number) => new Date(start + minutes * 60000).toISOString();
+
+describe('buildDeliveryReport', () => {
+  it.each(fixture.cases)('should credit listening: $name', (c) => {
+    const report = buildDeliveryReport(
+      {
+        sessionId: 'sender1_1',
+        senderId: 'sender1',
+        channelName: 'myazan_sender1',
+        isLive: false,
+        startedAt: at(0),
+        endedAt: at(c.durationMinutes),
+        mappedReceiverIds: [],
+      },
+      c.events.map((e) => ({ receiverId: e.receiverId, type: e.type, at: at(e.at) })),
+      new Map()
+    );
+
+    expect(
+      report.otherListeners
+        .map((r) => ({
+          receiverId: r.receiverId,
+          joins: r.joins,
+          firstJoinedAt: (Date.parse(r.firstJoinedAt!) - start) / 60000,
+          listenedSeconds: r.listenedSeconds,
+        }))
+        .sort((a, b) => a.receiverId.localeCompare(b.receiverId))
+    ).toEqual(c.listeners);
+  });
+
+  it('should list mapped receivers who never joined as missed, ahead of those who heard', () => {
+    const report = buildDeliveryReport(
+      {
+        sessionId: 'sender1_1',
+        senderId: 'sender1',
+        channelName: 'myazan_sender1',
+        isLive: false,
+        startedAt: at(0),
+        endedAt: at(10),
+        mappedReceiverIds: ['alice', 'bob'],
+      },
+      [{ receiverId: 'alice', type: 'join', at: at(1) }],
+      new Map([['bob', 'Bob']])
+    );
+
+    expect(report.heardReceivers).toBe(1);
+    expect(report.receivers.map((r) => [r.receiverId, r.name, r.status])).toEqual([
+      ['bob', 'Bob', 'missed'],
+      ['alice', null, 'heard'],
+    ]);
+  });
+});
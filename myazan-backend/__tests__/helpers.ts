@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv2020 from 'ajv/dist/2020';
+import { createApp } from '../src/app';
+import { FakeIdTokenVerifier } from '../src/auth/verifier';
+import { MemoryStore } from '../src/store/memoryStore';
+import { UserRole } from '../src/types';
+
+export const bearer = (uid: string) => `Bearer ${FakeIdTokenVerifier.tokenFor(uid)}`;
+
+/**
+ * App wired to the fake verifier, an in-memory store and a stub token issuer.
+ */
+export function buildTestApp() {
+  const store = new MemoryStore();
+  const issueToken = jest.fn((channelName: string, uid: number, role: string) => ({
+    token: `token:${channelName}:${uid}:${role}`,
+    expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+    uid,
+  }));
+  const app = createApp({ verifier: new FakeIdTokenVerifier(), store, issueToken });
+
+  const addUser = (uid: string, role: UserRole) =>
+    store.createUser({ uid, name: uid, email: `${uid}@example.com`, role });
+
+  /** Subscribe the receiver the only way the API allows: a request it approves. */
+  const subscribe = async (senderId: string, receiverId: string) => {
+    await store.requestReceivers(
+      senderId,
+      [{ senderId, receiverId, status: 'pending', requestedAt: new Date().toISOString(), groupIds: [] }],
+      []
+    );
+    await store.approveRequest(senderId, receiverId);
+  };
+
+  return { app, store, issueToken, addUser, subscribe };
+}
+
+const spec = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', '..', 'openapi', 'openapi.json'), 'utf8')
+);
+const ajv = new Ajv2020({ strict: false, validateFormats: false, allErrors: true });
+ajv.addSchema(spec, 'openapi');
+
+const pointer = (...segments: string[]) =>
+  'openapi#/' +
+  segments.map((s) => encodeURIComponent(s.replace(/~/g, '~0').replace(/\//g, '~1'))).join('/');
+
+/**
+ * Errors from validating a response body against the spec, or null if valid.
+ * @param template Spec path, e.g. `/user/{uid}`
+ */
+export function specErrors(template: string, method: string, status: number, body: unknown) {
+  const validate = ajv.getSchema(
+    pointer('paths', template, method, 'responses', String(status), 'content', 'application/json', 'schema')
+  );
+  if (!validate) {
+    return [`No ${status} response for ${method.toUpperCase()} ${template} in the spec`];
+  }
+  return validate(body) ? null : validate.errors;
+}
@@ -0,0 +1,676 @@
+import request from 'supertest';
+import { buildTestApp, bearer, specErrors } from './helpers';
+
+describe('API routes', () => {
+  let ctx: ReturnType<typeof buildTestApp>;
+
+  const as = (uid: string) => ({
+    get: (url: string) => request(ctx.app).get(url).set('Authorization', bearer(uid)),
+    post: (url: string, body?: object) =>
+      request(ctx.app).post(url).set('Authorization', bearer(uid)).send(body),
+    put: (url: string, body: object) =>
+      request(ctx.app).put(url).set('Authorization', bearer(uid)).send(body),
+    delete: (url: string) => request(ctx.app).delete(url).set('Authorization', bearer(uid)),
+  });
+
+  beforeEach(async () => {
+    ctx = buildTestApp();
+    await ctx.addUser('sender1', 'sender');
+    await ctx.addUser('receiver1', 'receiver');
+  });
+
+  describe('/user', () => {
+    it('should create the caller\'s profile once', async () => {
+      const body = { name: 'Bilal', email: 'bilal@example.com', role: 'receiver' };
+
+      const created = await as('user1').post('/api/user', body);
+      const duplicate = await as('user1').post('/api/user', body);
+
+      expect(created.status).toBe(201);
+      expect(created.body.uid).toBe('user1');
+      expect(specErrors('/user', 'post', 201, created.body)).toBeNull();
+      expect(duplicate.status).toBe(409);
+    });
+
+    it('should list and fetch profiles', async () => {
+      const list = await as('receiver1').get('/api/user');
+      const one = await as('receiver1').get('/api/user/sender1');
+      const missing = await as('receiver1').get('/api/user/nobody');
+
+      expect(list.body).toHaveLength(2);
+      expect(specErrors('/user', 'get', 200, list.body)).toBeNull();
+      expect(one.body.role).toBe('sender');
+      expect(specErrors('/user/{uid}', 'get', 200, one.body)).toBeNull();
+      expect(missing.status).toBe(404);
+    });
+
+    it('should only let users edit their own profile', async () => {
+      const own = await as('receiver1').put('/api/user/receiver1', { name: 'Renamed' });
+      const other = await as('receiver1').put('/api/user/sender1', { name: 'Hacked' });
+
+      expect(own.status).toBe(200);
+      expect(own.body.name).toBe('Renamed');
+      expect(other.status).toBe(403);
+    });
+
+    it('should reject role escalation by non-admins', async () => {
+      const admin = await as('user1').post('/api/user', { name: 'Eve', email: 'eve@example.com', role: 'admin' });
+      const promote = await as('receiver1').put('/api/user/receiver1', { role: 'sender' });
+      const sameRole = await as('receiver1').put('/api/user/receiver1', { name: 'Still', role: 'receiver' });
+
+      expect(admin.status).toBe(403);
+      expect(promote.status).toBe(403);
+      expect((await ctx.store.getUser('receiver1'))!.role).toBe('receiver');
+      expect(sameRole.status).toBe(200);
+    });
+
+    it('should let admins change other users\' roles but not their own', async () => {
+      await ctx.addUser('admin1', 'admin');
+
+      const promote = await as('admin1').put('/api/user/receiver1', { role: 'sender' });
+      const rename = await as('admin1').put('/api/user/sender1', { name: 'Masjid' });
+      const self = await as('admin1').put('/api/user/admin1', { role: 'receiver' });
+
+      expect(promote.status).toBe(200);
+      expect(promote.body.role).toBe('sender');
+      expect(rename.body.name).toBe('Masjid');
+      expect(self.status).toBe(403);
+    });
+  });
+
+  describe('/mappings and /subscriptions', () => {
+    it('should keep the reverse index in step with the mapping', async () => {
+      await as('sender1').post('/api/mappings/sender1/receivers/receiver1', {});
+      await as('receiver1').post('/api/subscriptions/receiver1/requests/sender1/approve');
+      const subscriptions = await as('receiver1').get('/api/subscriptions/receiver1');
+
+      expect(subscriptions.body).toEqual({ receiverId: 'receiver1', senderIds: ['sender1'] });
+      expect(specErrors('/subscriptions/{receiverId}', 'get', 200, subscriptions.body)).toBeNull();
+
+      const removed = await as('sender1').delete('/api/mappings/sender1/receivers/receiver1');
+      const after = await as('receiver1').get('/api/subscriptions/receiver1');
+
+      expect(removed.body.receivers).toEqual([]);
+      expect(after.body.senderIds).toEqual([]);
+    });
+
+    it('should only let the sender manage its mapping', async () => {
+      await ctx.addUser('sender2', 'sender');
+
+      const res = await as('sender2').post('/api/mappings/sender1/receivers/receiver1', {});
+      const read = await as('receiver1').get('/api/mappings/sender1');
+
+      expect(res.status).toBe(403);
+      expect(read.status).toBe(403);
+    });
+
+    it('should report missing mappings and receivers', async () => {
+      const mapping = await as('sender1').get('/api/mappings/sender1');
+      const receiver = await as('sender1').post('/api/mappings/sender1/receivers/nobody', {});
+
+      expect(mapping.status).toBe(404);
+      expect(receiver.status).toBe(404);
+    });
+
+    it('should keep subscriptions private to the receiver', async () => {
+      const res = await as('sender1').get('/api/subscriptions/receiver1');
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('subscription requests', () => {
+    const ask = (receiverId = 'receiver1') =>
+      as('sender1').post(`/api/mappings/sender1/receivers/${receiverId}`, {});
+
+    it('should only add a receiver once they approve', async () => {
+      const asked = await ask();
+      const askedAgain = await ask();
+      const pending = await as('receiver1').get('/api/subscriptions/receiver1/requests');
+
+      expect(asked.body).toEqual({
+        senderId: 'sender1',
+        receivers: [],
+        groups: [],
+        requests: [
+          { senderId: 'sender1', receiverId: 'receiver1', status: 'pending', requestedAt: expect.any(String), groupIds: [] },
+        ],
+      });
+      expect(specErrors('/mappings/{senderId}/receivers/{receiverId}', 'post', 200, asked.body)).toBeNull();
+      expect(askedAgain.body).toEqual(asked.body);
+      expect(pending.body).toEqual([
+        { senderId: 'sender1', senderName: 'sender1', requestedAt: asked.body.requests[0].requestedAt },
+      ]);
+      expect(specErrors('/subscriptions/{receiverId}/requests', 'get', 200, pending.body)).toBeNull();
+      expect((await ctx.store.getSubscriptions('receiver1')).senderIds).toEqual([]);
+
+      const approved = await as('receiver1').post('/api/subscriptions/receiver1/requests/sender1/approve');
+      const mapping = await ctx.store.getMapping('sender1');
+
+      expect(approved.body).toEqual({ receiverId: 'receiver1', senderIds: ['sender1'] });
+      expect(specErrors('/subscriptions/{receiverId}/requests/{senderId}/approve', 'post', 200, approved.body)).toBeNull();
+      expect(mapping).toEqual({ senderId: 'sender1', receivers: ['receiver1'], groups: [], requests: [] });
+      expect((await as('receiver1').get('/api/subscriptions/receiver1/requests')).body).toEqual([]);
+    });
+
+    it('should not let a sender ask again after a decline', async () => {
+      await ask();
+
+      const declined = await as('receiver1').post('/api/subscriptions/receiver1/requests/sender1/decline');
+      const askedAgain = await ask();
+      const withdrawn = await as('sender1').delete('/api/mappings/sender1/receivers/receiver1');
+
+      expect(declined.body).toEqual({ success: true });
+      expect(askedAgain.status).toBe(409);
+      expect(withdrawn.status).toBe(404);
+      expect((await ctx.store.getMapping('sender1'))!.requests[0].status).toBe('declined');
+      expect((await as('receiver1').get('/api/subscriptions/receiver1/requests')).body).toEqual([]);
+    });
+
+    it('should let a receiver revoke a sender later', async () => {
+      await ctx.subscribe('sender1', 'receiver1');
+
+      const revoked = await as('receiver1').delete('/api/subscriptions/receiver1/senders/sender1');
+      const again = await as('receiver1').delete('/api/subscriptions/receiver1/senders/sender1');
+      const askedAgain = await ask();
+
+      expect(revoked.body).toEqual({ receiverId: 'receiver1', senderIds: [] });
+      expect(specErrors('/subscriptions/{receiverId}/senders/{senderId}', 'delete', 200, revoked.body)).toBeNull();
+      expect((await ctx.store.getMapping('sender1'))!.receivers).toEqual([]);
+      expect(again.status).toBe(404);
+      expect(askedAgain.status).toBe(409);
+    });
+
+    it('should let the sender withdraw a pending request', async () => {
+      await ask();
+
+      const withdrawn = await as('sender1').delete('/api/mappings/sender1/receivers/receiver1');
+      const approved = await as('receiver1').post('/api/subscriptions/receiver1/requests/sender1/approve');
+
+      expect(withdrawn.body.requests).toEqual([]);
+      expect(approved.status).toBe(404);
+    });
+
+    it('should only let the receiver answer its requests', async () => {
+      await ask();
+
+      const list = await as('sender1').get('/api/subscriptions/receiver1/requests');
+      const approve = await as('sender1').post('/api/subscriptions/receiver1/requests/sender1/approve');
+      const decline = await as('receiver1').post('/api/subscriptions/receiver1/requests/nobody/decline');
+
+      expect(list.status).toBe(403);
+      expect(approve.status).toBe(403);
+      expect(decline.status).toBe(404);
+      expect((await ctx.store.getRequest('sender1', 'receiver1'))!.status).toBe('pending');
+    });
+  });
+
+  describe('/mappings groups', () => {
+    beforeEach(async () => {
+      await ctx.addUser('receiver2', 'receiver');
+      await ctx.addUser('receiver3', 'receiver');
+      for (const receiverId of ['receiver1', 'receiver2', 'receiver3']) {
+        await ctx.subscribe('sender1', receiverId);
+      }
+    });
+
+    const createGroup = (name: string, receiverIds: string[]) =>
+      as('sender1').post('/api/mappings/sender1/groups', { name, receiverIds });
+
+    it('should create, rename, re-member and delete groups', async () => {
+      const created = await createGroup('Family', ['receiver1', 'receiver2']);
+      expect(created.status).toBe(200);
+      expect(specErrors('/mappings/{senderId}/groups', 'post', 200, created.body)).toBeNull();
+      const { groupId } = created.body.groups[0];
+
+      const updated = await as('sender1').put(`/api/mappings/sender1/groups/${groupId}`, {
+        name: 'Close family',
+        receiverIds: ['receiver2'],
+      });
+      expect(updated.body.groups).toEqual([{ groupId, name: 'Close family', receiverIds: ['receiver2'] }]);
+
+      const deleted = await as('sender1').delete(`/api/mappings/sender1/groups/${groupId}`);
+      expect(deleted.body.groups).toEqual([]);
+      expect(deleted.body.receivers).toEqual(['receiver1', 'receiver2', 'receiver3']);
+    });
+
+    it('should reject unmapped members, duplicate names and other senders', async () => {
+      await ctx.addUser('sender2', 'sender');
+      await createGroup('Family', []);
+
+      const unmapped = await createGroup('Neighbours', ['stranger']);
+      const duplicate = await createGroup(' family ', []);
+      const foreign = await as('sender2').post('/api/mappings/sender1/groups', { name: 'Mine' });
+      const missing = await as('sender1').put('/api/mappings/sender1/groups/nope', { name: 'X' });
+
+      expect(unmapped.status).toBe(400);
+      expect(duplicate.status).toBe(409);
+      expect(foreign.status).toBe(403);
+      expect(missing.status).toBe(404);
+    });
+
+    it('should drop a receiver from its groups when it leaves the mapping', async () => {
+      const created = await createGroup('Family', ['receiver1', 'receiver2']);
+
+      const removed = await as('sender1').delete('/api/mappings/sender1/receivers/receiver1');
+
+      expect(removed.body.groups[0]).toEqual({
+        groupId: created.body.groups[0].groupId,
+        name: 'Family',
+        receiverIds: ['receiver2'],
+      });
+    });
+
+    it('should resolve target groups to receivers in mapping order', async () => {
+      const family = (await createGroup('Family', ['receiver3', 'receiver1'])).body.groups[0];
+      const neighbours = (await createGroup('Neighbours', ['receiver1'])).body.groups[1];
+      const resolve = (body: object) => as('sender1').post('/api/mappings/sender1/resolve', body);
+
+      const groups = await resolve({ groupIds: [family.groupId, neighbours.groupId] });
+      const everyone = await resolve({});
+      const unknown = await resolve({ groupIds: ['nope'] });
+
+      expect(groups.body).toEqual({ receiverIds: ['receiver1', 'receiver3'] });
+      expect(specErrors('/mappings/{senderId}/resolve', 'post', 200, groups.body)).toBeNull();
+      expect(everyone.body.receiverIds).toEqual(['receiver1', 'receiver2', 'receiver3']);
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  describe('/mappings import and export', () => {
+    const importRows = (rows: object[], dryRun?: boolean) =>
+      as('sender1').post('/api/mappings/sender1/import', { rows, dryRun });
+
+    beforeEach(async () => {
+      await ctx.addUser('receiver2', 'receiver');
+      await ctx.subscribe('sender1', 'receiver1');
+    });
+
+    it('should match rows by email, report bad rows and create groups', async () => {
+      await ctx.addUser('receiver3', 'receiver');
+      await ctx.store.declineReceiver('sender1', 'receiver3', new Date());
+
+      const res = await importRows([
+        { email: 'Receiver2@Example.com ', name: 'Two', group: 'Family' },
+        { email: 'receiver1@example.com', group: 'family' },
+        { email: 'receiver2@example.com', group: 'Family' },
+        { email: 'newcomer@example.com', name: 'Newcomer' },
+        { email: 'not-an-email' },
+        { email: 'sender1@example.com' },
+        { email: 'receiver2@example.com', group: 'Neighbours' },
+        { email: 'receiver3@example.com', group: 'Family' },
+      ]);
+
+      expect(res.status).toBe(200);
+      expect(specErrors('/mappings/{senderId}/import', 'post', 200, res.body)).toBeNull();
+      expect(res.body.rows.map((r: any) => [r.row, r.status, r.receiverId])).toEqual([
+        [1, 'new', 'receiver2'],
+        [2, 'existing', 'receiver1'],
+        [3, 'duplicate', null],
+        [4, 'unknown_user', null],
+        [5, 'invalid', null],
+        [6, 'invalid', null],
+        [7, 'pending', 'receiver2'],
+        [8, 'declined', 'receiver3'],
+      ]);
+      expect(res.body.requested).toBe(1);
+      expect(res.body.groupsCreated).toEqual(['Family', 'Neighbours']);
+      expect(res.body.mapping.receivers).toEqual(['receiver1']);
+      const [family, neighbours] = res.body.mapping.groups;
+      expect(family).toEqual({ groupId: expect.any(String), name: 'Family', receiverIds: ['receiver1'] });
+      expect(neighbours).toEqual({ groupId: expect.any(String), name: 'Neighbours', receiverIds: [] });
+      expect((await ctx.store.getRequest('sender1', 'receiver2'))!.groupIds).toEqual([
+        family.groupId,
+        neighbours.groupId,
+      ]);
+
+      await as('receiver2').post('/api/subscriptions/receiver2/requests/sender1/approve');
+      const mapping = (await ctx.store.getMapping('sender1'))!;
+      expect(mapping.receivers).toEqual(['receiver1', 'receiver2']);
+      expect(mapping.groups.map((g) => g.receiverIds)).toEqual([
+        ['receiver1', 'receiver2'],
+        ['receiver2'],
+      ]);
+    });
+
+    it('should preview a dry run without writing', async () => {
+      const res = await importRows([{ email: 'receiver2@example.com', group: 'Family' }], true);
+
+      expect(res.body.dryRun).toBe(true);
+      expect(res.body.requested).toBe(1);
+      expect(res.body.mapping).toEqual({ senderId: 'sender1', receivers: ['receiver1'], groups: [], requests: [] });
+      expect((await ctx.store.getMapping('sender1'))!.requests).toEqual([]);
+    });
+
+    it('should reject empty or oversized imports and other senders', async () => {
+      await ctx.addUser('sender2', 'sender');
+      const rows = Array.from({ length: 201 }, (_, i) => ({ email: `user${i}@example.com` }));
+
+      const empty = await importRows([]);
+      const oversized = await importRows(rows);
+      const foreign = await as('sender2').post('/api/mappings/sender1/import', { rows: rows.slice(0, 1) });
+
+      expect(empty.status).toBe(400);
+      expect(oversized.status).toBe(400);
+      expect(foreign.status).toBe(403);
+    });
+
+    it('should export one row per group membership that imports back unchanged', async () => {
+      await ctx.subscribe('sender1', 'receiver2');
+      await importRows([
+        { email: 'receiver1@example.com', group: 'Family' },
+        { email: 'receiver1@example.com', group: 'Neighbours' },
+        { email: 'receiver2@example.com' },
+      ]);
+
+      const exported = await as('sender1').get('/api/mappings/sender1/export');
+      const reimported = await importRows(
+        exported.body.rows.map((r: any) => ({ email: r.email, ...(r.group && { group: r.group }) })),
+        true
+      );
+
+      expect(specErrors('/mappings/{senderId}/export', 'get', 200, exported.body)).toBeNull();
+      expect(exported.body.rows.map((r: any) => [r.receiverId, r.group])).toEqual([
+        ['receiver1', 'Family'],
+        ['receiver1', 'Neighbours'],
+        ['receiver2', null],
+      ]);
+      expect(reimported.body.requested).toBe(0);
+      expect(reimported.body.groupsCreated).toEqual([]);
+    });
+  });
+
+  describe('/mappings invites and /invites', () => {
+    const createInvite = (body: object = {}, uid = 'sender1') =>
+      as(uid).post(`/api/mappings/${uid}/invites`, body);
+
+    beforeEach(async () => {
+      await ctx.addUser('receiver2', 'receiver');
+    });
+
+    it('should let senders create, list and revoke invites', async () => {
+      const created = await createInvite({ maxUses: 10, expiresAt: '2999-01-01T00:00:00Z' });
+      const { code } = created.body;
+      const list = await as('sender1').get('/api/mappings/sender1/invites');
+      const foreign = await as('sender2').delete(`/api/mappings/sender2/invites/${code}`);
+      const revoked = await as('sender1').delete(`/api/mappings/sender1/invites/${code.toLowerCase()}`);
+      const preview = await as('receiver1').get(`/api/invites/${code}`);
+
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({
+        senderId: 'sender1',
+        maxUses: 10,
+        expiresAt: '2999-01-01T00:00:00.000Z',
+        uses: 0,
+        status: 'active',
+      });
+      expect(code).toMatch(/^[A-Z2-9]{8}$/);
+      expect(specErrors('/mappings/{senderId}/invites', 'post', 201, created.body)).toBeNull();
+      expect(list.body.map((i: any) => i.code)).toEqual([code]);
+      expect(specErrors('/mappings/{senderId}/invites', 'get', 200, list.body)).toBeNull();
+      expect(foreign.status).toBe(404);
+      expect(revoked.body).toEqual({ success: true });
+      expect(preview.status).toBe(404);
+    });
+
+    it('should reject bad options, other senders\' mappings and receivers', async () => {
+      const past = await createInvite({ expiresAt: '2000-01-01T00:00:00Z' });
+      const noUses = await createInvite({ maxUses: 0 });
+      const unknownField = await createInvite({ label: 'Friday' });
+      const foreign = await as('receiver1').post('/api/mappings/sender1/invites', {});
+      const receiver = await createInvite({}, 'receiver1');
+
+      expect(past.status).toBe(400);
+      expect(noUses.status).toBe(400);
+      expect(unknownField.status).toBe(400);
+      expect(foreign.status).toBe(403);
+      expect(receiver.status).toBe(403);
+    });
+
+    it('should subscribe receivers who accept, counting each receiver once', async () => {
+      const { code } = (await createInvite()).body;
+
+      const preview = await as('receiver1').get(`/api/invites/${code.toLowerCase()}`);
+      const accepted = await as('receiver1').post(`/api/invites/${code}/accept`);
+      const again = await as('receiver1').post(`/api/invites/${code}/accept`);
+      const bySender = await as('sender1').post(`/api/invites/${code}/accept`);
+
+      expect(preview.body).toEqual({
+        code,
+        senderId: 'sender1',
+        senderName: 'sender1',
+        expiresAt: null,
+        status: 'active',
+      });
+      expect(specErrors('/invites/{code}', 'get', 200, preview.body)).toBeNull();
+      expect(accepted.body).toEqual({ senderId: 'sender1', senderName: 'sender1', alreadySubscribed: false });
+      expect(specErrors('/invites/{code}/accept', 'post', 200, accepted.body)).toBeNull();
+      expect(again.body.alreadySubscribed).toBe(true);
+      expect(bySender.status).toBe(403);
+      expect((await ctx.store.getMapping('sender1'))!.receivers).toEqual(['receiver1']);
+      expect((await ctx.store.getSubscriptions('receiver1')).senderIds).toEqual(['sender1']);
+      expect((await ctx.store.getInvite(code))!.uses).toBe(1);
+    });
+
+    it('should let a receiver who declined subscribe with an invite', async () => {
+      await ctx.store.declineReceiver('sender1', 'receiver1', new Date());
+      const { code } = (await createInvite()).body;
+
+      const accepted = await as('receiver1').post(`/api/invites/${code}/accept`);
+
+      expect(accepted.body.alreadySubscribed).toBe(false);
+      expect(await ctx.store.getRequest('sender1', 'receiver1')).toBeNull();
+    });
+
+    it('should refuse invites that are used up, expired or unknown', async () => {
+      const { code } = (await createInvite({ maxUses: 1 })).body;
+      await ctx.store.createInvite({
+        code: 'EXPIRED2',
+        senderId: 'sender1',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        expiresAt: '2024-01-02T00:00:00.000Z',
+        maxUses: null,
+        uses: 0,
+      });
+
+      await as('receiver1').post(`/api/invites/${code}/accept`);
+      const usedUp = await as('receiver2').post(`/api/invites/${code}/accept`);
+      const expired = await as('receiver2').post('/api/invites/EXPIRED2/accept');
+      const unknown = await as('receiver2').post('/api/invites/NOSUCH22/accept');
+      const preview = await as('receiver2').get(`/api/invites/${code}`);
+
+      expect(usedUp.status).toBe(409);
+      expect(expired.status).toBe(409);
+      expect(expired.body.error).toMatch(/expired/);
+      expect(unknown.status).toBe(404);
+      expect(preview.body.status).toBe('used_up');
+      expect((await ctx.store.getSubscriptions('receiver2')).senderIds).toEqual([]);
+    });
+  });
+
+  describe('/announcements', () => {
+    const announce = (uid = 'sender1') =>
+      as(uid).post('/api/announcements', {
+        sessionId: `${uid}_1700000000000`,
+        channelName: `myazan_${uid}`,
+      });
+
+    it('should create, list and end an announcement', async () => {
+      const created = await announce();
+      expect(created.status).toBe(201);
+      expect(specErrors('/announcements', 'post', 201, created.body)).toBeNull();
+
+      const live = await as('receiver1').get('/api/announcements/live');
+      expect(live.body.map((a: any) => a.sessionId)).toEqual(['sender1_1700000000000']);
+      expect(specErrors('/announcements/live', 'get', 200, live.body)).toBeNull();
+
+      const ended = await as('sender1').delete('/api/announcements/sender1_1700000000000');
+      expect(ended.body).toEqual({ success: true });
+
+      const fetched = await as('receiver1').get('/api/announcements/sender1_1700000000000');
+      expect(fetched.body.isLive).toBe(false);
+      expect(fetched.body.endedReason).toBe('manual');
+      expect(specErrors('/announcements/{sessionId}', 'get', 200, fetched.body)).toBeNull();
+
+      const bySender = await as('sender1').get('/api/announcements/sender/sender1');
+      expect(bySender.body).toHaveLength(1);
+    });
+
+    it('should show a sender\'s history only to the sender and admins', async () => {
+      await ctx.addUser('admin1', 'admin');
+
+      const foreign = await as('receiver1').get('/api/announcements/sender/sender1');
+      const otherSender = await as('sender2').get('/api/announcements/sender/sender1');
+      const admin = await as('admin1').get('/api/announcements/sender/sender1');
+
+      expect(foreign.status).toBe(403);
+      expect(otherSender.status).toBe(403);
+      expect(admin.status).toBe(200);
+    });
+
+    it('should page and filter a sender\'s history, newest first', async () => {
+      const startedAt = ['2024-01-10', '2024-01-12', '2024-01-14', '2024-01-16'];
+      for (const day of startedAt) {
+        await ctx.store.createAnnouncement({
+          sessionId: `sender1_${day}`,
+          senderId: 'sender1',
+          channelName: 'myazan_sender1',
+          isLive: false,
+          startedAt: `${day}T10:00:00.000Z`,
+          endedAt: `${day}T10:05:00.000Z`,
+          endedReason: 'manual',
+          peakListeners: 3,
+        });
+      }
+      const history = (query: string) => as('sender1').get(`/api/announcements/sender/sender1?${query}`);
+
+      const firstPage = await history('limit=2');
+      const secondPage = await history(`limit=2&before=${firstPage.body[1].startedAt}`);
+      const filtered = await history('from=2024-01-11T00:00:00Z&to=2024-01-15T00:00:00Z');
+      const badLimit = await history('limit=0');
+      const badDate = await history('from=yesterday');
+
+      expect(firstPage.body.map((a: any) => a.sessionId)).toEqual(['sender1_2024-01-16', 'sender1_2024-01-14']);
+      expect(secondPage.body.map((a: any) => a.sessionId)).toEqual(['sender1_2024-01-12', 'sender1_2024-01-10']);
+      expect(filtered.body.map((a: any) => a.sessionId)).toEqual(['sender1_2024-01-14', 'sender1_2024-01-12']);
+      expect(specErrors('/announcements/sender/{senderId}', 'get', 200, firstPage.body)).toBeNull();
+      expect(badLimit.status).toBe(400);
+      expect(badDate.status).toBe(400);
+    });
+
+    it('should reject duplicates and announcements on another channel', async () => {
+      await announce();
+      const duplicate = await announce();
+      const foreign = await as('sender1').post('/api/announcements', {
+        sessionId: 'sender1_1',
+        channelName: 'myazan_sender2',
+      });
+
+      expect(duplicate.status).toBe(409);
+      expect(foreign.status).toBe(403);
+    });
+
+    it('should not accept or publish an Agora token', async () => {
+      const withToken = await as('sender1').post('/api/announcements', {
+        sessionId: 'sender1_1',
+        channelName: 'myazan_sender1',
+        agoraToken: 'token',
+      });
+      const created = await announce();
+
+      expect(withToken.status).toBe(400);
+      expect(created.body).not.toHaveProperty('agoraToken');
+    });
+
+    it('should only let senders announce', async () => {
+      const res = await announce('receiver1');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should only let the owner update or end it', async () => {
+      await announce();
+
+      const update = await as('receiver1').put('/api/announcements/sender1_1700000000000', { isLive: false });
+      const end = await as('receiver1').delete('/api/announcements/sender1_1700000000000');
+      const own = await as('sender1').put('/api/announcements/sender1_1700000000000', { isLive: false });
+
+      expect(update.status).toBe(403);
+      expect(end.status).toBe(403);
+      expect(own.status).toBe(200);
+      expect(own.body.endedAt).toEqual(expect.any(String));
+    });
+
+    it('should snapshot the mapping when a broadcast starts', async () => {
+      await ctx.subscribe('sender1', 'receiver1');
+
+      const created = await announce();
+      await ctx.store.removeReceiver('sender1', 'receiver1');
+      const fetched = await as('sender1').get('/api/announcements/sender1_1700000000000');
+
+      expect(created.body.mappedReceiverIds).toEqual(['receiver1']);
+      expect(fetched.body.mappedReceiverIds).toEqual(['receiver1']);
+    });
+
+    it('should report which mapped receivers heard the broadcast', async () => {
+      await ctx.addUser('receiver2', 'receiver');
+      await ctx.store.createAnnouncement({
+        sessionId: 'sender1_1700000000000',
+        senderId: 'sender1',
+        channelName: 'myazan_sender1',
+        isLive: false,
+        startedAt: '2024-01-15T10:00:00.000Z',
+        endedAt: '2024-01-15T10:10:00.000Z',
+        mappedReceiverIds: ['receiver1', 'receiver2'],
+      });
+      const event = (receiverId: string, type: 'join' | 'leave', minute: number) =>
+        ctx.store.addListenerEvent('sender1_1700000000000', {
+          receiverId,
+          type,
+          at: `2024-01-15T10:0${minute}:00.000Z`,
+        });
+      event('receiver1', 'join', 1);
+      event('receiver1', 'leave', 4);
+      event('receiver1', 'join', 5);
+      event('stranger', 'join', 2);
+
+      const res = await as('sender1').get('/api/announcements/sender1_1700000000000/delivery-report');
+      const foreign = await as('receiver1').get('/api/announcements/sender1_1700000000000/delivery-report');
+
+      expect(res.status).toBe(200);
+      expect(specErrors('/announcements/{sessionId}/delivery-report', 'get', 200, res.body)).toBeNull();
+      expect(res.body).toMatchObject({ mappedReceivers: 2, heardReceivers: 1 });
+      expect(res.body.receivers).toEqual([
+        {
+          receiverId: 'receiver2',
+          name: 'receiver2',
+          status: 'missed',
+          firstJoinedAt: null,
+          listenedSeconds: 0,
+          joins: 0,
+        },
+        {
+          receiverId: 'receiver1',
+          name: 'receiver1',
+          status: 'heard',
+          firstJoinedAt: '2024-01-15T10:01:00.000Z',
+          listenedSeconds: 480,
+          joins: 2,
+        },
+      ]);
+      expect(res.body.otherListeners).toEqual([
+        expect.objectContaining({ receiverId: 'stranger', name: null, listenedSeconds: 480 }),
+      ]);
+      expect(foreign.status).toBe(403);
+    });
+  });
+
+  it('should answer unknown routes and bad bodies with an ErrorResponse', async () => {
+    const unknown = await as('sender1').get('/api/nope');
+    const unknownField = await as('sender1').put('/api/user/sender1', { email: 'x@example.com' });
+
+    expect(unknown.status).toBe(404);
+    expect(unknownField.status).toBe(400);
+    expect(unknownField.body.error).toMatch(/email/);
+  });
+});
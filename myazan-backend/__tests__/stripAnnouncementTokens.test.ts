@@ -0,0 +1,63 @@
+import { FieldValue, Firestore } from 'firebase-admin/firestore';
+import { stripAnnouncementTokens } from '../src/migrations/stripAnnouncementTokens';
+
+/** Just enough of Firestore for the migration's query and batched updates. */
+function fakeFirestore(announcements: Record<string, Record<string, unknown>>) {
+  const commits: number[] = [];
+  const db = {
+    collection: () => ({
+      where: (field: string) => ({
+        limit: (limit: number) => ({
+          get: async () => {
+            const docs = Object.keys(announcements)
+              .filter((id) => announcements[id][field] != null)
+              .slice(0, limit)
+              .map((id) => ({ ref: id }));
+            return { docs, empty: docs.length === 0, size: docs.length };
+          },
+        }),
+      }),
+    }),
+    batch: () => {
+      const updates: [string, Record<string, unknown>][] = [];
+      return {
+        update: (ref: string, data: Record<string, unknown>) => updates.push([ref, data]),
+        commit: async () => {
+          updates.forEach(([ref, data]) => {
+            Object.keys(data).forEach((key) => {
+              if (data[key] === FieldValue.delete()) delete announcements[ref][key];
+            });
+          });
+          commits.push(updates.length);
+        },
+      };
+    },
+  };
+  return { db: db as unknown as Firestore, commits };
+}
+
+describe('stripAnnouncementTokens', () => {
+  it('should remove the token from every announcement that has one, in batches', async () => {
+    const announcements: Record<string, Record<string, unknown>> = {
+      a: { sessionId: 'a', agoraToken: 'token-a', isLive: false },
+      b: { sessionId: 'b', agoraToken: 'token-b', isLive: true },
+      c: { sessionId: 'c', isLive: false },
+      d: { sessionId: 'd', agoraToken: 'token-d', isLive: false },
+    };
+    const { db, commits } = fakeFirestore(announcements);
+
+    const stripped = await stripAnnouncementTokens(db, 2);
+
+    expect(stripped).toBe(3);
+    expect(commits).toEqual([2, 1]);
+    expect(Object.values(announcements).some((data) => 'agoraToken' in data)).toBe(false);
+    expect(announcements.b).toEqual({ sessionId: 'b', isLive: true });
+  });
+
+  it('should change nothing when run again', async () => {
+    const { db, commits } = fakeFirestore({ a: { sessionId: 'a', isLive: false } });
+
+    expect(await stripAnnouncementTokens(db)).toBe(0);
+    expect(commits).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import request from 'supertest';
+import { agoraUidCandidate } from '../src/agoraUids';
+import { buildTestApp, bearer, specErrors } from './helpers';
+
+describe('POST /api/token/generate', () => {
+  let ctx: ReturnType<typeof buildTestApp>;
+
+  const generate = (uid: string, body: object) =>
+    request(ctx.app).post('/api/token/generate').set('Authorization', bearer(uid)).send(body);
+
+  beforeEach(async () => {
+    ctx = buildTestApp();
+    await ctx.addUser('sender1', 'sender');
+    await ctx.addUser('sender2', 'sender');
+    await ctx.addUser('receiver1', 'receiver');
+    await ctx.addUser('receiver2', 'receiver');
+    await ctx.subscribe('sender1', 'receiver1');
+  });
+
+  it('should issue a publisher token to the channel owner', async () => {
+    const res = await generate('sender1', { channelName: 'myazan_sender1', role: 'publisher' });
+
+    const uid = agoraUidCandidate('sender1');
+    expect(res.status).toBe(200);
+    expect(res.body.token).toBe(`token:myazan_sender1:${uid}:publisher`);
+    expect(res.body.uid).toBe(uid);
+    expect(new Date(res.body.expiresAt).getTime()).toBeGreaterThan(Date.now());
+    expect(specErrors('/token/generate', 'post', 200, res.body)).toBeNull();
+  });
+
+  it('should refuse publisher tokens for another sender\'s channel', async () => {
+    const res = await generate('sender2', { channelName: 'myazan_sender1', role: 'publisher' });
+
+    expect(res.status).toBe(403);
+    expect(ctx.issueToken).not.toHaveBeenCalled();
+  });
+
+  it('should refuse publisher tokens to receivers, even mapped ones', async () => {
+    const res = await generate('receiver1', { channelName: 'myazan_sender1', role: 'publisher' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should refuse publisher tokens when the owner is not a sender', async () => {
+    const res = await generate('receiver2', { channelName: 'myazan_receiver2', role: 'publisher' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should issue audience tokens to mapped receivers', async () => {
+    const res = await generate('receiver1', { channelName: 'myazan_sender1', role: 'audience' });
+
+    expect(res.status).toBe(200);
+    expect(ctx.issueToken).toHaveBeenCalledWith(
+      'myazan_sender1',
+      agoraUidCandidate('receiver1'),
+      'audience'
+    );
+  });
+
+  it('should bind every token to the caller\'s own Agora uid', async () => {
+    const first = await generate('receiver1', { channelName: 'myazan_sender1', role: 'audience' });
+    const renewed = await generate('receiver1', {
+      channelName: 'myazan_sender1',
+      uid: first.body.uid,
+      role: 'audience',
+    });
+    const other = await generate('receiver1', { channelName: 'myazan_sender1', uid: 42, role: 'audience' });
+
+    expect(renewed.status).toBe(200);
+    expect(renewed.body.uid).toBe(first.body.uid);
+    expect(other.status).toBe(403);
+  });
+
+  it('should allocate the next candidate when the first one is taken', async () => {
+    await ctx.store.claimAgoraUid(agoraUidCandidate('receiver1'), 'someone-else');
+
+    const res = await generate('receiver1', { channelName: 'myazan_sender1', role: 'audience' });
+
+    expect(res.body.uid).toBe(agoraUidCandidate('receiver1', 1));
+    expect(await ctx.store.getAgoraUidOwner(res.body.uid)).toBe('receiver1');
+  });
+
+  it('should only issue audience tokens to the receivers a live broadcast targets', async () => {
+    await ctx.subscribe('sender1', 'receiver2');
+    await ctx.store.createAnnouncement({
+      sessionId: 'sender1_1',
+      senderId: 'sender1',
+      channelName: 'myazan_sender1',
+      isLive: true,
+      startedAt: new Date().toISOString(),
+      mappedReceiverIds: ['receiver1'],
+    });
+
+    const targeted = await generate('receiver1', { channelName: 'myazan_sender1', role: 'audience' });
+    const other = await generate('receiver2', { channelName: 'myazan_sender1', role: 'audience' });
+
+    expect(targeted.status).toBe(200);
+    expect(other.status).toBe(403);
+  });
+
+  it('should refuse audience tokens to receivers that are not mapped', async () => {
+    const res = await generate('receiver2', { channelName: 'myazan_sender1', role: 'audience' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should stop issuing audience tokens once a receiver is removed', async () => {
+    await ctx.store.removeReceiver('sender1', 'receiver1');
+
+    const res = await generate('receiver1', { channelName: 'myazan_sender1', role: 'audience' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should reject channels outside the myazan_ namespace', async () => {
+    const res = await generate('sender1', { channelName: 'other_sender1', role: 'publisher' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject invalid bodies', async () => {
+    const badRole = await generate('sender1', { channelName: 'myazan_sender1', role: 'host' });
+    const badUid = await generate('sender1', { channelName: 'myazan_sender1', uid: -1, role: 'publisher' });
+
+    expect(badRole.status).toBe(400);
+    expect(badUid.status).toBe(400);
+  });
+
+  it('should require a valid ID token', async () => {
+    const missing = await request(ctx.app)
+      .post('/api/token/generate')
+      .send({ channelName: 'myazan_sender1', role: 'publisher' });
+    const invalid = await request(ctx.app)
+      .post('/api/token/generate')
+      .set('Authorization', 'Bearer not-a-token')
+      .send({ channelName: 'myazan_sender1', role: 'publisher' });
+
+    expect(missing.status).toBe(401);
+    expect(invalid.status).toBe(401);
+  });
+});
+
+describe('GET /api/agora-uids/:agoraUid', () => {
+  let ctx: ReturnType<typeof buildTestApp>;
+
+  const resolve = (agoraUid: string | number) =>
+    request(ctx.app).get(`/api/agora-uids/${agoraUid}`).set('Authorization', bearer('sender1'));
+
+  beforeEach(() => {
+    ctx = buildTestApp();
+  });
+
+  it('should resolve an allocated uid back to its user', async () => {
+    await ctx.store.claimAgoraUid(1234, 'receiver1');
+
+    const res = await resolve(1234);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ agoraUid: 1234, uid: 'receiver1' });
+    expect(specErrors('/agora-uids/{agoraUid}', 'get', 200, res.body)).toBeNull();
+  });
+
+  it('should 404 unknown uids and 400 malformed ones', async () => {
+    expect((await resolve(1234)).status).toBe(404);
+    expect((await resolve('abc')).status).toBe(400);
+    expect((await resolve(0)).status).toBe(400);
+    expect((await resolve(2 ** 32)).status).toBe(400);
+  });
+});
+
+describe('agoraUidCandidate', () => {
+  it('should be stable, non-zero and within 32 bits', () => {
+    const uid = agoraUidCandidate('receiver1');
+
+    expect(agoraUidCandidate('receiver1')).toBe(uid);
+    expect(agoraUidCandidate('receiver1', 1)).not.toBe(uid);
+    expect(agoraUidCandidate('receiver2')).not.toBe(uid);
+    expect(uid).toBeGreaterThan(0);
+    expect(uid).toBeLessThanOrEqual(2 ** 32 - 1);
+  });
+});
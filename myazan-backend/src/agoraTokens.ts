@@ -0,0 +1,22 @@
+import { RtcRole, RtcTokenBuilder } from 'agora-token';
+import { AgoraRole, AgoraTokenResponse } from './types';
+
+export type TokenIssuer = (channelName: string, uid: number, role: AgoraRole) => AgoraTokenResponse;
+
+/**
+ * Build Agora RTC tokens valid for `ttlSeconds`.
+ */
+export function createTokenIssuer(appId: string, appCert: string, ttlSeconds: number): TokenIssuer {
+  return (channelName, uid, role) => {
+    const token = RtcTokenBuilder.buildTokenWithUid(
+      appId,
+      appCert,
+      channelName,
+      uid,
+      role === 'publisher' ? RtcRole.PUBLISHER : RtcRole.SUBSCRIBER,
+      ttlSeconds,
+      ttlSeconds
+    );
+    return { token, expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(), uid };
+  };
+}
@@ -0,0 +1,38 @@
+import { DataStore } from './store/dataStore';
+
+/**
+ * Agora identifies channel members by unsigned 32-bit uids, and 0 asks Agora
+ * to assign one. Each Firebase user gets a stable uid derived from their
+ * Firebase uid; `agoraUids/{agoraUid}` records the owner, so a colliding
+ * candidate moves on to the next one and any uid maps back to its user.
+ */
+export const MAX_AGORA_UID = 2 ** 32 - 1;
+export const MAX_ALLOCATION_ATTEMPTS = 8;
+
+/**
+ * FNV-1a hash of `<firebaseUid>` (first attempt) or `<firebaseUid>#<attempt>`.
+ * Never 0.
+ */
+export function agoraUidCandidate(firebaseUid: string, attempt = 0): number {
+  const input = attempt === 0 ? firebaseUid : `${firebaseUid}#${attempt}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash === 0 ? 1 : hash;
+}
+
+/**
+ * The Agora uid of a user, allocating it on first use. The same user always
+ * gets the same uid: earlier candidates are only ever held by other users.
+ */
+export async function allocateAgoraUid(store: DataStore, firebaseUid: string): Promise<number> {
+  for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const candidate = agoraUidCandidate(firebaseUid, attempt);
+    if ((await store.claimAgoraUid(candidate, firebaseUid)) === firebaseUid) {
+      return candidate;
+    }
+  }
+  throw new Error(`Could not allocate an Agora uid for ${firebaseUid}`);
+}
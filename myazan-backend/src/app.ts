@@ -0,0 +1,35 @@
+import express, { Express } from 'express';
+import { AppDependencies } from './dependencies';
+import { authenticate } from './middleware/authenticate';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { agoraUidRoutes } from './routes/agoraUid.routes';
+import { announcementRoutes } from './routes/announcement.routes';
+import { inviteRoutes } from './routes/invite.routes';
+import { mappingRoutes } from './routes/mapping.routes';
+import { subscriptionRoutes } from './routes/subscription.routes';
+import { tokenRoutes } from './routes/token.routes';
+import { userRoutes } from './routes/user.routes';
+
+/**
+ * Build the Express app serving the routes in openapi/openapi.json under `/api`.
+ * Every route requires a verified Firebase ID token.
+ */
+export function createApp(deps: AppDependencies): Express {
+  const app = express();
+  app.use(express.json({ limit: '100kb' }));
+
+  const api = express.Router();
+  api.use(authenticate(deps.verifier));
+  api.use('/token', tokenRoutes(deps));
+  api.use('/agora-uids', agoraUidRoutes(deps));
+  api.use('/user', userRoutes(deps));
+  api.use('/mappings', mappingRoutes(deps));
+  api.use('/invites', inviteRoutes(deps));
+  api.use('/subscriptions', subscriptionRoutes(deps));
+  api.use('/announcements', announcementRoutes(deps));
+
+  app.use('/api', api);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+}
@@ -0,0 +1,13 @@
+import { getAuth } from 'firebase-admin/auth';
+import { IdTokenVerifier, VerifiedUser } from './verifier';
+
+/**
+ * Verifies ID tokens with the Firebase Admin SDK.
+ * Requires `initializeApp()` to have been called (see server.ts).
+ */
+export class FirebaseIdTokenVerifier implements IdTokenVerifier {
+  async verify(idToken: string): Promise<VerifiedUser> {
+    const decoded = await getAuth().verifyIdToken(idToken, true);
+    return { uid: decoded.uid, email: decoded.email };
+  }
+}
@@ -0,0 +1,35 @@
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+}
+
+/**
+ * Checks a Firebase ID token presented as a Bearer token.
+ * Rejects (throws) when the token is missing, malformed, expired or revoked.
+ */
+export interface IdTokenVerifier {
+  verify(idToken: string): Promise<VerifiedUser>;
+}
+
+/**
+ * Local verifier for development and tests: accepts tokens of the form
+ * `fake:<uid>` without contacting Firebase. Never use in production.
+ */
+export class FakeIdTokenVerifier implements IdTokenVerifier {
+  static readonly PREFIX = 'fake:';
+
+  static tokenFor(uid: string): string {
+    return `${FakeIdTokenVerifier.PREFIX}${uid}`;
+  }
+
+  async verify(idToken: string): Promise<VerifiedUser> {
+    if (!idToken.startsWith(FakeIdTokenVerifier.PREFIX)) {
+      throw new Error('Not a fake ID token');
+    }
+    const uid = idToken.slice(FakeIdTokenVerifier.PREFIX.length);
+    if (!uid) {
+      throw new Error('Fake ID token has no uid');
+    }
+    return { uid };
+  }
+}
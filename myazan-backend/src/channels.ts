@@ -0,0 +1,17 @@
+/**
+ * Channel naming, mirroring `ChannelManager` in the app: each sender owns
+ * exactly one channel, `myazan_<senderId>`.
+ */
+export const CHANNEL_PREFIX = 'myazan_';
+
+export function channelNameFor(senderId: string): string {
+  return `${CHANNEL_PREFIX}${senderId}`;
+}
+
+export function senderIdFromChannel(channelName: string): string | null {
+  if (!channelName.startsWith(CHANNEL_PREFIX)) {
+    return null;
+  }
+  const senderId = channelName.slice(CHANNEL_PREFIX.length);
+  return senderId || null;
+}
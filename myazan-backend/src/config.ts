@@ -0,0 +1,43 @@
+export type VerifierKind = 'firebase' | 'fake';
+export type StoreKind = 'firestore' | 'memory';
+
+export interface ServerConfig {
+  port: number;
+  agoraAppId: string;
+  agoraAppCert: string;
+  /** Lifetime of issued Agora tokens. */
+  tokenTtlSeconds: number;
+  verifier: VerifierKind;
+  store: StoreKind;
+}
+
+/**
+ * Read configuration from environment variables.
+ * `AUTH_VERIFIER=fake` and `DATA_STORE=memory` run the server without Firebase.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const verifier = (env.AUTH_VERIFIER || 'firebase') as VerifierKind;
+  const store = (env.DATA_STORE || 'firestore') as StoreKind;
+  if (verifier !== 'firebase' && verifier !== 'fake') {
+    throw new Error(`Unknown AUTH_VERIFIER: ${verifier}`);
+  }
+  if (store !== 'firestore' && store !== 'memory') {
+    throw new Error(`Unknown DATA_STORE: ${store}`);
+  }
+
+  const agoraAppId = env.AGORA_APP_ID || '';
+  const agoraAppCert = env.AGORA_APP_CERT || '';
+  if (!agoraAppId || !agoraAppCert) {
+    throw new Error('AGORA_APP_ID and AGORA_APP_CERT are required');
+  }
+
+  const defaultTtl = env.NODE_ENV === 'production' ? 3600 : 300; // 5 min in dev
+  return {
+    port: Number(env.PORT) || 4000,
+    agoraAppId,
+    agoraAppCert,
+    tokenTtlSeconds: Number(env.AGORA_TOKEN_TTL_SECONDS) || defaultTtl,
+    verifier,
+    store,
+  };
+}
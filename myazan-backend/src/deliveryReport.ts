@@ -0,0 +1,84 @@
+import { ListenerEvent } from './store/dataStore';
+import { Announcement, DeliveryReceiver, DeliveryReport } from './types';
+
+interface Listening {
+  joins: number;
+  firstJoinedAt: number;
+  listenedMs: number;
+}
+
+/**
+ * Compare the mapping saved when a broadcast started with who joined it.
+ * Mirrors `computeListenerStats()` in the app: events are clamped to the
+ * broadcast, a repeated join or an unmatched leave is ignored, and a receiver
+ * with no leave counts until the end (or `now` while still live). Both are
+ * tested against the cases in `__tests__/fixtures/listenerIntervals.json`.
+ */
+export function buildDeliveryReport(
+  announcement: Announcement,
+  events: ListenerEvent[],
+  names: Map<string, string | null>,
+  now: Date = new Date()
+): DeliveryReport {
+  const windowStart = Date.parse(announcement.startedAt);
+  const windowEnd = Math.max(
+    windowStart,
+    announcement.endedAt ? Date.parse(announcement.endedAt) : now.getTime()
+  );
+  const clamp = (time: number) => Math.min(windowEnd, Math.max(windowStart, time));
+
+  const listening = new Map<string, Listening>();
+  const openSince = new Map<string, number>();
+  [...events]
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at))
+    .forEach((event) => {
+      const time = clamp(Date.parse(event.at));
+      const open = openSince.get(event.receiverId);
+      if (event.type === 'join') {
+        if (open !== undefined) return;
+        openSince.set(event.receiverId, time);
+        const entry = listening.get(event.receiverId);
+        if (entry) {
+          entry.joins++;
+        } else {
+          listening.set(event.receiverId, { joins: 1, firstJoinedAt: time, listenedMs: 0 });
+        }
+      } else if (open !== undefined) {
+        openSince.delete(event.receiverId);
+        listening.get(event.receiverId)!.listenedMs += time - open;
+      }
+    });
+  openSince.forEach((open, receiverId) => {
+    listening.get(receiverId)!.listenedMs += windowEnd - open;
+  });
+
+  const toReceiver = (receiverId: string): DeliveryReceiver => {
+    const entry = listening.get(receiverId);
+    return {
+      receiverId,
+      name: names.get(receiverId) ?? null,
+      status: entry ? 'heard' : 'missed',
+      firstJoinedAt: entry ? new Date(entry.firstJoinedAt).toISOString() : null,
+      listenedSeconds: entry ? Math.round(entry.listenedMs / 1000) : 0,
+      joins: entry?.joins ?? 0,
+    };
+  };
+
+  const mapped = Array.from(new Set(announcement.mappedReceiverIds || []));
+  const receivers = mapped
+    .map(toReceiver)
+    .sort((a, b) => Number(a.status === 'heard') - Number(b.status === 'heard'));
+  const otherListeners = Array.from(listening.keys())
+    .filter((receiverId) => !mapped.includes(receiverId))
+    .map(toReceiver);
+
+  return {
+    sessionId: announcement.sessionId,
+    startedAt: announcement.startedAt,
+    endedAt: announcement.endedAt ?? null,
+    mappedReceivers: mapped.length,
+    heardReceivers: receivers.filter((r) => r.status === 'heard').length,
+    receivers,
+    otherListeners,
+  };
+}
@@ -0,0 +1,9 @@
+import { TokenIssuer } from './agoraTokens';
+import { IdTokenVerifier } from './auth/verifier';
+import { DataStore } from './store/dataStore';
+
+export interface AppDependencies {
+  verifier: IdTokenVerifier;
+  store: DataStore;
+  issueToken: TokenIssuer;
+}
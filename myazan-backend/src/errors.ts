@@ -0,0 +1,20 @@
+/**
+ * Error carrying the HTTP status to respond with. Thrown from controllers and
+ * turned into an `ErrorResponse` body by the error handler middleware.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    Object.setPrototypeOf(this, HttpError.prototype);
+  }
+}
+
+export const badRequest = (message: string) => new HttpError(400, message);
+export const unauthorized = (message = 'Missing or invalid ID token') => new HttpError(401, message);
+export const forbidden = (message: string) => new HttpError(403, message);
+export const notFound = (message: string) => new HttpError(404, message);
+export const conflict = (message: string) => new HttpError(409, message);
@@ -0,0 +1,34 @@
+import { randomBytes } from 'crypto';
+import { Invite, InviteStatus } from './types';
+
+/** No 0/O or 1/I, so codes survive being read out or typed. 32 symbols keep `byte % 32` unbiased. */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export const MAX_INVITE_USES = 10000;
+
+/** An invite as stored; `status` is worked out when it is read. */
+export type StoredInvite = Omit<Invite, 'status'>;
+
+export function generateInviteCode(): string {
+  return Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+/** Codes are stored upper-case; accept them however they were typed. */
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function inviteStatus(invite: StoredInvite, now = new Date()): InviteStatus {
+  if (invite.expiresAt && Date.parse(invite.expiresAt) <= now.getTime()) {
+    return 'expired';
+  }
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+    return 'used_up';
+  }
+  return 'active';
+}
+
+export function withStatus(invite: StoredInvite, now = new Date()): Invite {
+  return { ...invite, status: inviteStatus(invite, now) };
+}
@@ -0,0 +1,41 @@
+import { NextFunction, Request, Response } from 'express';
+import { IdTokenVerifier, VerifiedUser } from '../auth/verifier';
+import { unauthorized } from '../errors';
+
+export interface AuthenticatedRequest extends Request {
+  user?: VerifiedUser;
+}
+
+/**
+ * Require a valid `Authorization: Bearer <Firebase ID token>` header and
+ * attach the verified user to the request.
+ */
+export function authenticate(verifier: IdTokenVerifier) {
+  return async (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer (.+)$/);
+    if (!match) {
+      next(unauthorized());
+      return;
+    }
+
+    try {
+      req.user = await verifier.verify(match[1]);
+      next();
+    } catch (error) {
+      console.warn('Rejected ID token:', (error as Error).message);
+      next(unauthorized());
+    }
+  };
+}
+
+/**
+ * The verified user of a request that passed `authenticate`.
+ */
+export function currentUser(req: Request): VerifiedUser {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw unauthorized();
+  }
+  return user;
+}
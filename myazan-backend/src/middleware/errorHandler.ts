@@ -0,0 +1,38 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { HttpError } from '../errors';
+import { ErrorResponse } from '../types';
+
+/**
+ * Wrap an async route handler so rejections reach the error handler.
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<void>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+export function notFoundHandler(req: Request, res: Response): void {
+  const body: ErrorResponse = { error: `No route for ${req.method} ${req.path}` };
+  res.status(404).json(body);
+}
+
+export function errorHandler(err: Error, _req: Request, res: Response, _next: NextFunction): void {
+  if (err instanceof HttpError) {
+    const body: ErrorResponse = { error: err.message };
+    res.status(err.status).json(body);
+    return;
+  }
+  // express.json() reports malformed bodies with a status
+  const status = (err as any).status;
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    const body: ErrorResponse = { error: err.message };
+    res.status(status).json(body);
+    return;
+  }
+
+  console.error('Error:', err);
+  const body: ErrorResponse = { error: 'Internal Server Error' };
+  res.status(500).json(body);
+}
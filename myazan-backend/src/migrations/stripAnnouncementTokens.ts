@@ -0,0 +1,46 @@
+import { initializeApp } from 'firebase-admin/app';
+import { FieldValue, Firestore, getFirestore } from 'firebase-admin/firestore';
+
+/** Firestore batches hold at most 500 writes. */
+const BATCH_SIZE = 400;
+
+/**
+ * Deletes the `agoraToken` field from announcement documents written before
+ * announcements stopped carrying the sender's publisher token. Safe to re-run:
+ * documents without the field are not touched.
+ *
+ * Returns the number of documents changed.
+ */
+export async function stripAnnouncementTokens(db: Firestore, batchSize = BATCH_SIZE): Promise<number> {
+  let stripped = 0;
+  for (;;) {
+    // Updated documents stop matching, so each round picks up the next ones
+    const snap = await db
+      .collection('announcements')
+      .where('agoraToken', '!=', null)
+      .limit(batchSize)
+      .get();
+    if (snap.empty) {
+      return stripped;
+    }
+    const batch = db.batch();
+    snap.docs.forEach((doc) => {
+      batch.update(doc.ref, { agoraToken: FieldValue.delete() });
+    });
+    await batch.commit();
+    stripped += snap.size;
+  }
+}
+
+if (require.main === module) {
+  // Credentials come from GOOGLE_APPLICATION_CREDENTIALS
+  initializeApp();
+  stripAnnouncementTokens(getFirestore())
+    .then((stripped) => {
+      console.log(`Removed agoraToken from ${stripped} announcement(s)`);
+    })
+    .catch((error) => {
+      console.error('Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,192 @@
+import { HttpError, badRequest } from './errors';
+import {
+  ExportedRecipient,
+  ImportRowResult,
+  ReceiverGroup,
+  RecipientExport,
+  RecipientRow,
+  SenderMapping,
+  SubscriptionRequest,
+  UserProfile,
+} from './types';
+import { optionalString, rejectUnknownFields, requireString } from './validation';
+
+/**
+ * Keeps an import within one Firestore batch (500 writes): the mapping, one
+ * request per row and at most one group per row.
+ */
+export const MAX_IMPORT_ROWS = 200;
+export const MAX_GROUP_NAME_LENGTH = 50;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  /** Requests created or gaining groups, in row order. */
+  requests: SubscriptionRequest[];
+  /** How many of `requests` are new. */
+  requested: number;
+  /** Groups created or gaining members, with their full member lists. */
+  groups: ReceiverGroup[];
+  groupsCreated: string[];
+}
+
+/**
+ * Match import rows to users by email and work out what the import changes,
+ * without writing anything. Receivers not yet in the mapping are asked, not
+ * added; their groups are kept on the request until they approve. Rows that
+ * cannot be imported are reported with their reason; they never fail the
+ * whole import.
+ */
+export function planRecipientImport(
+  rows: unknown[],
+  mapping: SenderMapping,
+  users: UserProfile[],
+  newGroupId: () => string,
+  now: Date
+): ImportPlan {
+  const usersByEmail = new Map(users.map((user) => [normalizeEmail(user.email), user]));
+  const groups = new Map(
+    mapping.groups.map((group) => [group.name.toLowerCase(), { ...group, receiverIds: [...group.receiverIds] }])
+  );
+  const changedGroups = new Set<string>();
+  const groupsCreated: string[] = [];
+  const requests = new Map(
+    mapping.requests.map((request) => [request.receiverId, { ...request, groupIds: [...request.groupIds] }])
+  );
+  const changedRequests = new Set<string>();
+  let requested = 0;
+  const seen = new Set<string>();
+
+  const results = rows.map((raw, index): ImportRowResult => {
+    const result: ImportRowResult = {
+      row: index + 1,
+      email: null,
+      status: 'invalid',
+      receiverId: null,
+      name: null,
+      group: null,
+      message: null,
+    };
+
+    let row: RecipientRow;
+    try {
+      row = parseRow(raw);
+    } catch (error) {
+      if (error instanceof HttpError) return { ...result, message: error.message };
+      throw error;
+    }
+    const email = row.email.trim();
+    const group = row.group?.trim() || null;
+    Object.assign(result, { email, name: row.name?.trim() || null, group });
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return { ...result, message: 'email is not a valid address' };
+    }
+    if (group && group.length > MAX_GROUP_NAME_LENGTH) {
+      return { ...result, message: `group must be at most ${MAX_GROUP_NAME_LENGTH} characters` };
+    }
+
+    const key = `${normalizeEmail(email)}\n${group?.toLowerCase() ?? ''}`;
+    if (seen.has(key)) {
+      return { ...result, status: 'duplicate' };
+    }
+    seen.add(key);
+
+    const user = usersByEmail.get(normalizeEmail(email));
+    if (!user) {
+      return { ...result, status: 'unknown_user' };
+    }
+    if (user.uid === mapping.senderId) {
+      return { ...result, message: 'A sender cannot receive its own broadcasts' };
+    }
+    result.receiverId = user.uid;
+    result.name = user.name;
+
+    let request = requests.get(user.uid);
+    if (request?.status === 'declined') {
+      return { ...result, status: 'declined' };
+    }
+    if (mapping.receivers.includes(user.uid)) {
+      result.status = 'existing';
+    } else if (request) {
+      result.status = 'pending';
+    } else {
+      result.status = 'new';
+      request = {
+        senderId: mapping.senderId,
+        receiverId: user.uid,
+        status: 'pending',
+        requestedAt: now.toISOString(),
+        groupIds: [],
+      };
+      requests.set(user.uid, request);
+      changedRequests.add(user.uid);
+      requested++;
+    }
+
+    if (group) {
+      const groupKey = group.toLowerCase();
+      let target = groups.get(groupKey);
+      if (!target) {
+        target = { groupId: newGroupId(), name: group, receiverIds: [] };
+        groups.set(groupKey, target);
+        groupsCreated.push(group);
+        changedGroups.add(groupKey);
+      }
+      if (result.status === 'existing') {
+        if (!target.receiverIds.includes(user.uid)) {
+          target.receiverIds.push(user.uid);
+          changedGroups.add(groupKey);
+        }
+      } else if (!request!.groupIds.includes(target.groupId)) {
+        request!.groupIds.push(target.groupId);
+        changedRequests.add(user.uid);
+      }
+      result.group = target.name;
+    }
+    return result;
+  });
+
+  return {
+    rows: results,
+    requests: Array.from(changedRequests, (receiverId) => requests.get(receiverId)!),
+    requested,
+    groups: Array.from(changedGroups, (key) => groups.get(key)!),
+    groupsCreated,
+  };
+}
+
+/**
+ * The mapping as import rows: one per group membership, and one without a
+ * group for each receiver in none.
+ */
+export function exportRecipients(mapping: SenderMapping, users: UserProfile[]): RecipientExport {
+  const usersById = new Map(users.map((user) => [user.uid, user]));
+  const rows = mapping.receivers.flatMap((receiverId): ExportedRecipient[] => {
+    const user = usersById.get(receiverId);
+    const row = { receiverId, email: user?.email ?? null, name: user?.name ?? null };
+    const memberOf = mapping.groups.filter((group) => group.receiverIds.includes(receiverId));
+    return memberOf.length > 0
+      ? memberOf.map((group) => ({ ...row, group: group.name }))
+      : [{ ...row, group: null }];
+  });
+  return { senderId: mapping.senderId, rows };
+}
+
+function parseRow(raw: unknown): RecipientRow {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw badRequest('Row must be an object');
+  }
+  const body = raw as Record<string, unknown>;
+  rejectUnknownFields(body, ['email', 'name', 'group']);
+  return {
+    email: requireString(body, 'email'),
+    name: body.name === '' ? undefined : optionalString(body, 'name'),
+    group: body.group === '' ? undefined : optionalString(body, 'group'),
+  };
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { MAX_AGORA_UID } from '../agoraUids';
+import { AppDependencies } from '../dependencies';
+import { badRequest, notFound } from '../errors';
+import { asyncHandler } from '../middleware/errorHandler';
+
+/**
+ * /agora-uids: resolve the numeric uids in Agora events back to users.
+ */
+export function agoraUidRoutes({ store }: AppDependencies): Router {
+  const router = Router();
+
+  router.get(
+    '/:agoraUid',
+    asyncHandler(async (req, res) => {
+      const agoraUid = /^\d+$/.test(req.params.agoraUid) ? Number(req.params.agoraUid) : NaN;
+      if (!(agoraUid >= 1 && agoraUid <= MAX_AGORA_UID)) {
+        throw badRequest('agoraUid must be an unsigned 32-bit integer');
+      }
+      const uid = await store.getAgoraUidOwner(agoraUid);
+      if (!uid) {
+        throw notFound('Agora uid not allocated');
+      }
+      res.json({ agoraUid, uid });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,172 @@
+import { Request, Router } from 'express';
+import { channelNameFor } from '../channels';
+import { buildDeliveryReport } from '../deliveryReport';
+import { AppDependencies } from '../dependencies';
+import { badRequest, conflict, forbidden, notFound } from '../errors';
+import { currentUser } from '../middleware/authenticate';
+import { asyncHandler } from '../middleware/errorHandler';
+import { Announcement, ApiAck } from '../types';
+import {
+  optionalDateTimeQuery,
+  optionalIntegerQuery,
+  optionalString,
+  rejectUnknownFields,
+  requireObject,
+  requireString,
+} from '../validation';
+
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * /announcements: live sessions. Senders create announcements for their own
+ * channel only and are the only ones who may update or end them, or read
+ * their delivery reports and (with admins) their history.
+ */
+export function announcementRoutes({ store }: AppDependencies): Router {
+  const router = Router();
+
+  const requireOwnAnnouncement = async (req: Request): Promise<Announcement> => {
+    const announcement = await store.getAnnouncement(req.params.sessionId);
+    if (!announcement) {
+      throw notFound('Announcement not found');
+    }
+    if (announcement.senderId !== currentUser(req).uid) {
+      throw forbidden('Not your announcement');
+    }
+    return announcement;
+  };
+
+  router.post(
+    '/',
+    asyncHandler(async (req, res) => {
+      const user = currentUser(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['sessionId', 'channelName', 'expiresAt']);
+      const sessionId = requireString(body, 'sessionId');
+      const channelName = requireString(body, 'channelName');
+      const expiresAt = optionalString(body, 'expiresAt');
+
+      const profile = await store.getUser(user.uid);
+      if (profile?.role !== 'sender') {
+        throw forbidden('Only senders can announce');
+      }
+      if (channelName !== channelNameFor(user.uid) || !sessionId.startsWith(`${user.uid}_`)) {
+        throw forbidden('Can only announce on your own channel');
+      }
+
+      const mapping = await store.getMapping(user.uid);
+      const created = await store.createAnnouncement({
+        sessionId,
+        senderId: user.uid,
+        channelName,
+        isLive: true,
+        startedAt: new Date().toISOString(),
+        endedAt: null,
+        endedReason: null,
+        peakListeners: 0,
+        mappedReceiverIds: mapping?.receivers ?? [],
+        ...(expiresAt && { expiresAt }),
+      });
+      if (!created) {
+        throw conflict('Announcement already exists');
+      }
+      res.status(201).json(created);
+    })
+  );
+
+  router.get(
+    '/live',
+    asyncHandler(async (_req, res) => {
+      res.json(await store.listLiveAnnouncements());
+    })
+  );
+
+  router.get(
+    '/sender/:senderId',
+    asyncHandler(async (req, res) => {
+      const { uid } = currentUser(req);
+      if (uid !== req.params.senderId && (await store.getUser(uid))?.role !== 'admin') {
+        throw forbidden('Not your history');
+      }
+      const query = req.query as Record<string, unknown>;
+      rejectUnknownFields(query, ['from', 'to', 'before', 'limit']);
+      res.json(
+        await store.listAnnouncementsBySender(req.params.senderId, {
+          from: optionalDateTimeQuery(query, 'from'),
+          to: optionalDateTimeQuery(query, 'to'),
+          before: optionalDateTimeQuery(query, 'before'),
+          limit:
+            optionalIntegerQuery(query, 'limit', 1, MAX_HISTORY_PAGE_SIZE) ?? DEFAULT_HISTORY_PAGE_SIZE,
+        })
+      );
+    })
+  );
+
+  router.get(
+    '/:sessionId',
+    asyncHandler(async (req, res) => {
+      const announcement = await store.getAnnouncement(req.params.sessionId);
+      if (!announcement) {
+        throw notFound('Announcement not found');
+      }
+      res.json(announcement);
+    })
+  );
+
+  router.get(
+    '/:sessionId/delivery-report',
+    asyncHandler(async (req, res) => {
+      const announcement = await requireOwnAnnouncement(req);
+      const events = await store.listListenerEvents(announcement.sessionId);
+
+      const receiverIds = new Set([
+        ...(announcement.mappedReceiverIds || []),
+        ...events.map((event) => event.receiverId),
+      ]);
+      const names = new Map<string, string | null>();
+      await Promise.all(
+        Array.from(receiverIds).map(async (receiverId) => {
+          names.set(receiverId, (await store.getUser(receiverId))?.name ?? null);
+        })
+      );
+
+      res.json(buildDeliveryReport(announcement, events, names));
+    })
+  );
+
+  router.put(
+    '/:sessionId',
+    asyncHandler(async (req, res) => {
+      await requireOwnAnnouncement(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['isLive']);
+      if (typeof body.isLive !== 'boolean') {
+        throw badRequest('isLive must be a boolean');
+      }
+
+      const updated = await store.updateAnnouncement(req.params.sessionId, {
+        isLive: body.isLive,
+        endedAt: body.isLive ? null : new Date().toISOString(),
+        endedReason: body.isLive ? null : 'manual',
+      });
+      res.json(updated);
+    })
+  );
+
+  router.delete(
+    '/:sessionId',
+    asyncHandler(async (req, res) => {
+      await requireOwnAnnouncement(req);
+      await store.updateAnnouncement(req.params.sessionId, {
+        isLive: false,
+        endedAt: new Date().toISOString(),
+        endedReason: 'manual',
+      });
+      const body: ApiAck = { success: true };
+      res.json(body);
+    })
+  );
+
+  return router;
+}
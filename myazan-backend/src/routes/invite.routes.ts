@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { AppDependencies } from '../dependencies';
+import { conflict, forbidden, notFound } from '../errors';
+import { inviteStatus, normalizeInviteCode } from '../invites';
+import { currentUser } from '../middleware/authenticate';
+import { asyncHandler } from '../middleware/errorHandler';
+import { InviteAcceptance, InvitePreview } from '../types';
+
+/**
+ * /invites: the receiver's side of invite codes. Senders create and revoke
+ * them under /mappings/{senderId}/invites.
+ */
+export function inviteRoutes({ store }: AppDependencies): Router {
+  const router = Router();
+
+  const senderName = async (senderId: string): Promise<string> =>
+    (await store.getUser(senderId))?.name ?? '';
+
+  router.get(
+    '/:code',
+    asyncHandler(async (req, res) => {
+      const invite = await store.getInvite(normalizeInviteCode(req.params.code));
+      if (!invite) {
+        throw notFound('Invite not found');
+      }
+      const preview: InvitePreview = {
+        code: invite.code,
+        senderId: invite.senderId,
+        senderName: await senderName(invite.senderId),
+        expiresAt: invite.expiresAt,
+        status: inviteStatus(invite),
+      };
+      res.json(preview);
+    })
+  );
+
+  router.post(
+    '/:code/accept',
+    asyncHandler(async (req, res) => {
+      const user = currentUser(req);
+      const profile = await store.getUser(user.uid);
+      if (profile?.role !== 'receiver') {
+        throw forbidden('Only receivers can accept invites');
+      }
+      const invite = await store.getInvite(normalizeInviteCode(req.params.code));
+      if (!invite) {
+        throw notFound('Invite not found');
+      }
+
+      // The store checks the invite again, atomically with the write
+      const outcome = await store.redeemInvite(invite.code, user.uid, new Date());
+      switch (outcome) {
+        case 'not_found':
+          throw notFound('Invite not found');
+        case 'expired':
+          throw conflict('Invite has expired');
+        case 'used_up':
+          throw conflict('Invite has been used up');
+      }
+      const result: InviteAcceptance = {
+        senderId: invite.senderId,
+        senderName: await senderName(invite.senderId),
+        alreadySubscribed: outcome === 'already_subscribed',
+      };
+      res.json(result);
+    })
+  );
+
+  return router;
+}
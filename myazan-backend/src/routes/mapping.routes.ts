@@ -0,0 +1,341 @@
+import { randomUUID } from 'crypto';
+import { Request, Router } from 'express';
+import { AppDependencies } from '../dependencies';
+import { badRequest, conflict, forbidden, notFound } from '../errors';
+import { MAX_INVITE_USES, StoredInvite, generateInviteCode, normalizeInviteCode, withStatus } from '../invites';
+import { currentUser } from '../middleware/authenticate';
+import { asyncHandler } from '../middleware/errorHandler';
+import { MAX_GROUP_NAME_LENGTH, MAX_IMPORT_ROWS, exportRecipients, planRecipientImport } from '../recipientImport';
+import { ApiAck, ImportRecipientsResult, ReceiverGroup, ResolvedRecipients, SenderMapping } from '../types';
+import {
+  optionalBoolean,
+  optionalDateTime,
+  optionalInteger,
+  optionalString,
+  optionalStringArray,
+  rejectUnknownFields,
+  requireObject,
+  requireString,
+} from '../validation';
+
+const emptyMapping = (senderId: string): SenderMapping => ({
+  senderId,
+  receivers: [],
+  groups: [],
+  requests: [],
+});
+
+/** Fresh codes to try before giving up; a collision among 32^8 codes is already unlikely. */
+const INVITE_CODE_ATTEMPTS = 5;
+
+/**
+ * /mappings: which receivers a sender broadcasts to, and named groups of them.
+ * Only the sender may read or change its mapping; the store keeps
+ * `subscriptions` in step. Receivers join only by approving a request (see
+ * subscription.routes.ts) or redeeming an invite.
+ */
+export function mappingRoutes({ store }: AppDependencies): Router {
+  const router = Router();
+
+  const requireOwner = (req: Request) => {
+    if (currentUser(req).uid !== req.params.senderId) {
+      throw forbidden('Not your mapping');
+    }
+  };
+
+  const requireMapping = async (senderId: string): Promise<SenderMapping> => {
+    const mapping = await store.getMapping(senderId);
+    if (!mapping) {
+      throw notFound('Mapping not found');
+    }
+    return mapping;
+  };
+
+  const parseGroupName = (name: string, mapping: SenderMapping, groupId?: string): string => {
+    const trimmed = name.trim();
+    if (trimmed.length > MAX_GROUP_NAME_LENGTH) {
+      throw badRequest(`name must be at most ${MAX_GROUP_NAME_LENGTH} characters`);
+    }
+    const taken = mapping.groups.some(
+      (group) => group.groupId !== groupId && group.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (taken) {
+      throw conflict(`A group named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  };
+
+  const parseMembers = (receiverIds: string[], mapping: SenderMapping): string[] => {
+    const unmapped = receiverIds.filter((id) => !mapping.receivers.includes(id));
+    if (unmapped.length > 0) {
+      throw badRequest(`Not in the mapping: ${unmapped.join(', ')}`);
+    }
+    return receiverIds;
+  };
+
+  const requireGroup = (mapping: SenderMapping, groupId: string): ReceiverGroup => {
+    const group = mapping.groups.find((g) => g.groupId === groupId);
+    if (!group) {
+      throw notFound('Group not found');
+    }
+    return group;
+  };
+
+  router.get(
+    '/:senderId',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const mapping = await store.getMapping(req.params.senderId);
+      if (!mapping) {
+        throw notFound('Mapping not found');
+      }
+      res.json(mapping);
+    })
+  );
+
+  router.post(
+    '/:senderId/receivers/:receiverId',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      if (req.body !== undefined) {
+        rejectUnknownFields(requireObject(req.body), []);
+      }
+      const { senderId, receiverId } = req.params;
+
+      const sender = await store.getUser(senderId);
+      if (sender?.role !== 'sender') {
+        throw forbidden('Only senders have receivers');
+      }
+      if (!(await store.getUser(receiverId))) {
+        throw notFound('Receiver not found');
+      }
+      const mapping = (await store.getMapping(senderId)) ?? emptyMapping(senderId);
+      const request = mapping.requests.find((r) => r.receiverId === receiverId);
+      if (request?.status === 'declined') {
+        throw conflict('The receiver declined');
+      }
+      if (mapping.receivers.includes(receiverId) || request) {
+        res.json(mapping);
+        return;
+      }
+      res.json(
+        await store.requestReceivers(
+          senderId,
+          [{ senderId, receiverId, status: 'pending', requestedAt: new Date().toISOString(), groupIds: [] }],
+          []
+        )
+      );
+    })
+  );
+
+  router.delete(
+    '/:senderId/receivers/:receiverId',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const { senderId, receiverId } = req.params;
+
+      const mapping = await store.getMapping(senderId);
+      if (mapping?.receivers.includes(receiverId)) {
+        res.json(await store.removeReceiver(senderId, receiverId));
+        return;
+      }
+      // A declined request stays: withdrawing it would let the sender ask again
+      if (mapping?.requests.some((r) => r.receiverId === receiverId && r.status === 'pending')) {
+        await store.deleteRequest(senderId, receiverId);
+        res.json(await store.getMapping(senderId));
+        return;
+      }
+      throw notFound('Receiver not in mapping');
+    })
+  );
+
+  router.post(
+    '/:senderId/groups',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['name', 'receiverIds']);
+      const mapping = await requireMapping(req.params.senderId);
+
+      const group: ReceiverGroup = {
+        groupId: randomUUID(),
+        name: parseGroupName(requireString(body, 'name'), mapping),
+        receiverIds: parseMembers(optionalStringArray(body, 'receiverIds') ?? [], mapping),
+      };
+      res.json(await store.saveGroup(req.params.senderId, group));
+    })
+  );
+
+  router.put(
+    '/:senderId/groups/:groupId',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['name', 'receiverIds']);
+      const mapping = await requireMapping(req.params.senderId);
+      const group = requireGroup(mapping, req.params.groupId);
+
+      const name = optionalString(body, 'name');
+      const receiverIds = optionalStringArray(body, 'receiverIds');
+      res.json(
+        await store.saveGroup(req.params.senderId, {
+          groupId: group.groupId,
+          name: name !== undefined ? parseGroupName(name, mapping, group.groupId) : group.name,
+          receiverIds: receiverIds !== undefined ? parseMembers(receiverIds, mapping) : group.receiverIds,
+        })
+      );
+    })
+  );
+
+  router.delete(
+    '/:senderId/groups/:groupId',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const mapping = await requireMapping(req.params.senderId);
+      requireGroup(mapping, req.params.groupId);
+      res.json(await store.deleteGroup(req.params.senderId, req.params.groupId));
+    })
+  );
+
+  /**
+   * The receivers a broadcast targets: members of `groupIds`, or the whole
+   * mapping if omitted. Resolved once, when the broadcast starts.
+   */
+  router.post(
+    '/:senderId/resolve',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['groupIds']);
+      const groupIds = optionalStringArray(body, 'groupIds');
+      const mapping = (await store.getMapping(req.params.senderId)) ?? emptyMapping(req.params.senderId);
+
+      let receiverIds = mapping.receivers;
+      if (groupIds !== undefined) {
+        const members = new Set(groupIds.flatMap((id) => requireGroup(mapping, id).receiverIds));
+        receiverIds = mapping.receivers.filter((id) => members.has(id));
+      }
+      const result: ResolvedRecipients = { receiverIds };
+      res.json(result);
+    })
+  );
+
+  /**
+   * Bulk request receivers by email, with their groups, in one write. Bad
+   * rows are reported per row; `dryRun` previews without writing.
+   */
+  router.post(
+    '/:senderId/import',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['rows', 'dryRun']);
+      const { rows } = body;
+      if (!Array.isArray(rows) || rows.length === 0 || rows.length > MAX_IMPORT_ROWS) {
+        throw badRequest(`rows must be an array of 1 to ${MAX_IMPORT_ROWS} rows`);
+      }
+      const dryRun = optionalBoolean(body, 'dryRun') ?? false;
+      const { senderId } = req.params;
+
+      const sender = await store.getUser(senderId);
+      if (sender?.role !== 'sender') {
+        throw forbidden('Only senders have receivers');
+      }
+      const [users, current] = await Promise.all([store.listUsers(), store.getMapping(senderId)]);
+      const mapping = current ?? emptyMapping(senderId);
+      const plan = planRecipientImport(rows, mapping, users, randomUUID, new Date());
+
+      const changed = plan.requests.length > 0 || plan.groups.length > 0;
+      const result: ImportRecipientsResult = {
+        dryRun,
+        requested: plan.requested,
+        groupsCreated: plan.groupsCreated,
+        rows: plan.rows,
+        mapping:
+          !dryRun && changed ? await store.requestReceivers(senderId, plan.requests, plan.groups) : mapping,
+      };
+      res.json(result);
+    })
+  );
+
+  router.get(
+    '/:senderId/export',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const { senderId } = req.params;
+      const [users, mapping] = await Promise.all([store.listUsers(), store.getMapping(senderId)]);
+      res.json(exportRecipients(mapping ?? emptyMapping(senderId), users));
+    })
+  );
+
+  router.get(
+    '/:senderId/invites',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const invites = await store.listInvites(req.params.senderId);
+      const now = new Date();
+      res.json(
+        invites
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .map((invite) => withStatus(invite, now))
+      );
+    })
+  );
+
+  /**
+   * Invite codes let receivers subscribe themselves (see invite.routes.ts)
+   * instead of waiting for the sender to find them.
+   */
+  router.post(
+    '/:senderId/invites',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['expiresAt', 'maxUses']);
+      const expiresAt = optionalDateTime(body, 'expiresAt');
+      const maxUses = optionalInteger(body, 'maxUses', 1, MAX_INVITE_USES);
+      if (expiresAt && Date.parse(expiresAt) <= Date.now()) {
+        throw badRequest('expiresAt must be in the future');
+      }
+      const { senderId } = req.params;
+
+      const sender = await store.getUser(senderId);
+      if (sender?.role !== 'sender') {
+        throw forbidden('Only senders can invite');
+      }
+      for (let attempt = 0; attempt < INVITE_CODE_ATTEMPTS; attempt++) {
+        const invite: StoredInvite = {
+          code: generateInviteCode(),
+          senderId,
+          createdAt: new Date().toISOString(),
+          expiresAt: expiresAt ?? null,
+          maxUses: maxUses ?? null,
+          uses: 0,
+        };
+        const created = await store.createInvite(invite);
+        if (created) {
+          res.status(201).json(withStatus(created));
+          return;
+        }
+      }
+      throw new Error('Could not allocate an invite code');
+    })
+  );
+
+  router.delete(
+    '/:senderId/invites/:code',
+    asyncHandler(async (req, res) => {
+      requireOwner(req);
+      const code = normalizeInviteCode(req.params.code);
+      const invite = await store.getInvite(code);
+      if (invite?.senderId !== req.params.senderId) {
+        throw notFound('Invite not found');
+      }
+      await store.deleteInvite(code);
+      const body: ApiAck = { success: true };
+      res.json(body);
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,98 @@
+import { Request, Router } from 'express';
+import { AppDependencies } from '../dependencies';
+import { forbidden, notFound } from '../errors';
+import { currentUser } from '../middleware/authenticate';
+import { asyncHandler } from '../middleware/errorHandler';
+import { ApiAck, IncomingSubscriptionRequest } from '../types';
+
+/**
+ * /subscriptions: reverse index of mappings, readable by the receiver only.
+ * The receiver also answers senders' requests here and can revoke a sender
+ * later; both declining and revoking stop that sender asking again.
+ */
+export function subscriptionRoutes({ store }: AppDependencies): Router {
+  const router = Router();
+
+  const requireReceiver = (req: Request) => {
+    if (currentUser(req).uid !== req.params.receiverId) {
+      throw forbidden('Not your subscriptions');
+    }
+  };
+
+  const requirePending = async (senderId: string, receiverId: string) => {
+    const request = await store.getRequest(senderId, receiverId);
+    if (request?.status !== 'pending') {
+      throw notFound('Request not found');
+    }
+    return request;
+  };
+
+  router.get(
+    '/:receiverId',
+    asyncHandler(async (req, res) => {
+      requireReceiver(req);
+      res.json(await store.getSubscriptions(req.params.receiverId));
+    })
+  );
+
+  router.get(
+    '/:receiverId/requests',
+    asyncHandler(async (req, res) => {
+      requireReceiver(req);
+      const requests = await store.listRequestsForReceiver(req.params.receiverId);
+      const incoming = await Promise.all(
+        requests
+          .filter((request) => request.status === 'pending')
+          .map(
+            async (request): Promise<IncomingSubscriptionRequest> => ({
+              senderId: request.senderId,
+              senderName: (await store.getUser(request.senderId))?.name ?? '',
+              requestedAt: request.requestedAt,
+            })
+          )
+      );
+      res.json(incoming);
+    })
+  );
+
+  router.post(
+    '/:receiverId/requests/:senderId/approve',
+    asyncHandler(async (req, res) => {
+      requireReceiver(req);
+      const { receiverId, senderId } = req.params;
+      // The store checks the request again, atomically with the write
+      if (!(await store.approveRequest(senderId, receiverId))) {
+        throw notFound('Request not found');
+      }
+      res.json(await store.getSubscriptions(receiverId));
+    })
+  );
+
+  router.post(
+    '/:receiverId/requests/:senderId/decline',
+    asyncHandler(async (req, res) => {
+      requireReceiver(req);
+      const { receiverId, senderId } = req.params;
+      await requirePending(senderId, receiverId);
+      await store.declineReceiver(senderId, receiverId, new Date());
+      const body: ApiAck = { success: true };
+      res.json(body);
+    })
+  );
+
+  router.delete(
+    '/:receiverId/senders/:senderId',
+    asyncHandler(async (req, res) => {
+      requireReceiver(req);
+      const { receiverId, senderId } = req.params;
+      const subscriptions = await store.getSubscriptions(receiverId);
+      if (!subscriptions.senderIds.includes(senderId)) {
+        throw notFound('Not subscribed to this sender');
+      }
+      await store.declineReceiver(senderId, receiverId, new Date());
+      res.json(await store.getSubscriptions(receiverId));
+    })
+  );
+
+  return router;
+}
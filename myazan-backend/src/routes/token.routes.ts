@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { MAX_AGORA_UID, allocateAgoraUid } from '../agoraUids';
+import { senderIdFromChannel } from '../channels';
+import { AppDependencies } from '../dependencies';
+import { badRequest, forbidden } from '../errors';
+import { currentUser } from '../middleware/authenticate';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AgoraRole, GenerateTokenRequest } from '../types';
+import { rejectUnknownFields, requireObject, requireOneOf, requireString } from '../validation';
+
+const AGORA_ROLES: readonly AgoraRole[] = ['publisher', 'audience'];
+
+function parseTokenRequest(raw: unknown): GenerateTokenRequest {
+  const body = requireObject(raw);
+  rejectUnknownFields(body, ['channelName', 'uid', 'role']);
+  const channelName = requireString(body, 'channelName');
+  const role = requireOneOf(body, 'role', AGORA_ROLES);
+  const uid = body.uid;
+  if (
+    uid !== undefined &&
+    (typeof uid !== 'number' || !Number.isInteger(uid) || uid < 0 || uid > MAX_AGORA_UID)
+  ) {
+    throw badRequest('uid must be an unsigned 32-bit integer');
+  }
+  return { channelName, uid, role };
+}
+
+/**
+ * POST /token/generate
+ * - `publisher`: only the sender that owns `myazan_<senderId>`
+ * - `audience`: only receivers in that sender's mapping and, while a broadcast
+ *   is live, in its `mappedReceiverIds` (the receivers or groups it targeted)
+ * Tokens are always bound to the caller's allocated Agora uid (see agoraUids.ts).
+ */
+export function tokenRoutes({ store, issueToken }: AppDependencies): Router {
+  const router = Router();
+
+  router.post(
+    '/generate',
+    asyncHandler(async (req, res) => {
+      const user = currentUser(req);
+      const { channelName, uid, role } = parseTokenRequest(req.body);
+
+      const senderId = senderIdFromChannel(channelName);
+      if (!senderId) {
+        throw badRequest(`Unknown channel: ${channelName}`);
+      }
+
+      if (role === 'publisher') {
+        const profile = await store.getUser(user.uid);
+        if (user.uid !== senderId || profile?.role !== 'sender') {
+          throw forbidden('Only the channel owner may publish');
+        }
+      } else {
+        const mapping = await store.getMapping(senderId);
+        if (!mapping?.receivers.includes(user.uid)) {
+          throw forbidden('Not subscribed to this sender');
+        }
+        const [latest] = await store.listAnnouncementsBySender(senderId, { limit: 1 });
+        if (latest?.isLive && latest.mappedReceiverIds && !latest.mappedReceiverIds.includes(user.uid)) {
+          throw forbidden('Not a recipient of this broadcast');
+        }
+      }
+
+      const agoraUid = await allocateAgoraUid(store, user.uid);
+      if (uid !== undefined && uid !== agoraUid) {
+        throw forbidden('uid is not allocated to this user');
+      }
+      res.json(issueToken(channelName, agoraUid, role));
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { AppDependencies } from '../dependencies';
+import { conflict, forbidden, notFound } from '../errors';
+import { currentUser } from '../middleware/authenticate';
+import { asyncHandler } from '../middleware/errorHandler';
+import { UpdateUserRequest, UserRole } from '../types';
+import {
+  optionalString,
+  rejectUnknownFields,
+  requireObject,
+  requireOneOf,
+  requireString,
+} from '../validation';
+
+const USER_ROLES: readonly UserRole[] = ['sender', 'receiver', 'admin'];
+/** Roles a user may pick for themselves at sign-up. */
+const SIGN_UP_ROLES: readonly UserRole[] = ['sender', 'receiver'];
+
+/**
+ * /user: profiles. Users create their own profile and may rename themselves;
+ * only admins edit other users or change roles.
+ */
+export function userRoutes({ store }: AppDependencies): Router {
+  const router = Router();
+
+  router.get(
+    '/',
+    asyncHandler(async (_req, res) => {
+      res.json(await store.listUsers());
+    })
+  );
+
+  router.post(
+    '/',
+    asyncHandler(async (req, res) => {
+      const user = currentUser(req);
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['name', 'email', 'role']);
+      const role = requireOneOf(body, 'role', USER_ROLES);
+      if (!SIGN_UP_ROLES.includes(role)) {
+        throw forbidden(`The ${role} role is granted by an admin`);
+      }
+
+      const created = await store.createUser({
+        uid: user.uid,
+        name: requireString(body, 'name'),
+        email: requireString(body, 'email'),
+        role,
+      });
+      if (!created) {
+        throw conflict('Profile already exists');
+      }
+      res.status(201).json(created);
+    })
+  );
+
+  router.get(
+    '/:uid',
+    asyncHandler(async (req, res) => {
+      const profile = await store.getUser(req.params.uid);
+      if (!profile) {
+        throw notFound('User not found');
+      }
+      res.json(profile);
+    })
+  );
+
+  router.put(
+    '/:uid',
+    asyncHandler(async (req, res) => {
+      const user = currentUser(req);
+      const { uid } = req.params;
+      const body = requireObject(req.body);
+      rejectUnknownFields(body, ['name', 'role']);
+
+      const patch: UpdateUserRequest = {};
+      const name = optionalString(body, 'name');
+      if (name !== undefined) patch.name = name;
+      if (body.role !== undefined) patch.role = requireOneOf(body, 'role', USER_ROLES);
+
+      const [caller, target] = await Promise.all([store.getUser(user.uid), store.getUser(uid)]);
+      const isAdmin = caller?.role === 'admin';
+      if (uid !== user.uid && !isAdmin) {
+        throw forbidden('Cannot edit another user');
+      }
+      // Sending the current role unchanged is not a role change
+      if (patch.role !== undefined && patch.role !== target?.role) {
+        if (!isAdmin) {
+          throw forbidden('Only admins can change roles');
+        }
+        if (uid === user.uid) {
+          throw forbidden('Admins cannot change their own role');
+        }
+      }
+
+      const updated = await store.updateUser(uid, patch);
+      if (!updated) {
+        throw notFound('User not found');
+      }
+      res.json(updated);
+    })
+  );
+
+  return router;
+}
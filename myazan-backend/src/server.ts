@@ -0,0 +1,48 @@
+import { initializeApp } from 'firebase-admin/app';
+import { createTokenIssuer } from './agoraTokens';
+import { createApp } from './app';
+import { FakeIdTokenVerifier, IdTokenVerifier } from './auth/verifier';
+import { loadConfig } from './config';
+import { DataStore } from './store/dataStore';
+import { MemoryStore } from './store/memoryStore';
+
+async function main() {
+  const config = loadConfig();
+
+  if (config.verifier === 'firebase' || config.store === 'firestore') {
+    // Credentials come from GOOGLE_APPLICATION_CREDENTIALS
+    initializeApp();
+  }
+
+  let verifier: IdTokenVerifier;
+  if (config.verifier === 'fake') {
+    console.warn('AUTH_VERIFIER=fake: accepting unverified `fake:<uid>` tokens');
+    verifier = new FakeIdTokenVerifier();
+  } else {
+    const { FirebaseIdTokenVerifier } = await import('./auth/firebaseVerifier');
+    verifier = new FirebaseIdTokenVerifier();
+  }
+
+  let store: DataStore;
+  if (config.store === 'memory') {
+    store = new MemoryStore();
+  } else {
+    const { FirestoreStore } = await import('./store/firestoreStore');
+    store = new FirestoreStore();
+  }
+
+  const app = createApp({
+    verifier,
+    store,
+    issueToken: createTokenIssuer(config.agoraAppId, config.agoraAppCert, config.tokenTtlSeconds),
+  });
+
+  app.listen(config.port, () => {
+    console.log(`MyAzan API listening on port ${config.port}`);
+  });
+}
+
+main().catch((error) => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
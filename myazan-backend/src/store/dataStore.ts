@@ -0,0 +1,103 @@
+import { StoredInvite } from '../invites';
+import {
+  Announcement,
+  AnnouncementHistoryQuery,
+  ReceiverGroup,
+  ReceiverSubscriptions,
+  SenderMapping,
+  SubscriptionRequest,
+  UserProfile,
+} from '../types';
+
+export type AnnouncementPatch = Partial<Pick<Announcement, 'isLive' | 'endedAt' | 'endedReason'>>;
+
+/** A receiver starting or stopping listening; written by the app. */
+export interface ListenerEvent {
+  receiverId: string;
+  type: 'join' | 'leave';
+  /** ISO 8601 */
+  at: string;
+}
+
+/** What redeeming an invite did; anything but the first two changed nothing. */
+export type InviteRedemption = 'subscribed' | 'already_subscribed' | 'not_found' | 'expired' | 'used_up';
+
+/**
+ * Persistence used by the controllers. Implementations must keep
+ * `mappings/{senderId}` and its reverse index `subscriptions/{receiverId}` in
+ * step. Receivers are only ever added by approveRequest or redeemInvite, so a
+ * sender reaches no one who has not agreed; removeReceiver and declineReceiver
+ * also drop the receiver from the sender's groups.
+ */
+export interface DataStore {
+  getUser(uid: string): Promise<UserProfile | null>;
+  listUsers(): Promise<UserProfile[]>;
+  /** Returns null if a profile already exists for the uid. */
+  createUser(profile: UserProfile): Promise<UserProfile | null>;
+  updateUser(uid: string, patch: Partial<Pick<UserProfile, 'name' | 'role'>>): Promise<UserProfile | null>;
+
+  /** Includes the sender's pending and declined requests, oldest first. */
+  getMapping(senderId: string): Promise<SenderMapping | null>;
+  removeReceiver(senderId: string, receiverId: string): Promise<SenderMapping>;
+  /**
+   * Create or replace requests and groups in one atomic write, creating the
+   * mapping if needed. `groups` carry their full member lists.
+   */
+  requestReceivers(
+    senderId: string,
+    requests: SubscriptionRequest[],
+    groups: ReceiverGroup[]
+  ): Promise<SenderMapping>;
+  getRequest(senderId: string, receiverId: string): Promise<SubscriptionRequest | null>;
+  /** Requests to the receiver from any sender, in any status, oldest first. */
+  listRequestsForReceiver(receiverId: string): Promise<SubscriptionRequest[]>;
+  deleteRequest(senderId: string, receiverId: string): Promise<void>;
+  /**
+   * Add the receiver to the mapping, its subscriptions and the request's
+   * groups that still exist, and delete the request, in one atomic write.
+   * False if there was no pending request.
+   */
+  approveRequest(senderId: string, receiverId: string): Promise<boolean>;
+  /**
+   * Remove the receiver from the mapping (as removeReceiver) and record a
+   * declined request at `now`, in one atomic write.
+   */
+  declineReceiver(senderId: string, receiverId: string, now: Date): Promise<void>;
+  /** Create or replace a group in the sender's mapping. */
+  saveGroup(senderId: string, group: ReceiverGroup): Promise<SenderMapping>;
+  deleteGroup(senderId: string, groupId: string): Promise<SenderMapping>;
+  getSubscriptions(receiverId: string): Promise<ReceiverSubscriptions>;
+
+  /** Returns null if the code is already taken. */
+  createInvite(invite: StoredInvite): Promise<StoredInvite | null>;
+  getInvite(code: string): Promise<StoredInvite | null>;
+  listInvites(senderId: string): Promise<StoredInvite[]>;
+  deleteInvite(code: string): Promise<void>;
+  /**
+   * Add the receiver to the invite's sender mapping, count one use and delete
+   * any request between the two, in one atomic write, if the invite is still
+   * active at `now`. A receiver already in the mapping uses nothing.
+   */
+  redeemInvite(code: string, receiverId: string, now: Date): Promise<InviteRedemption>;
+
+  getAnnouncement(sessionId: string): Promise<Announcement | null>;
+  /** Returns null if an announcement already exists for the session. */
+  createAnnouncement(announcement: Announcement): Promise<Announcement | null>;
+  updateAnnouncement(sessionId: string, patch: AnnouncementPatch): Promise<Announcement | null>;
+  listLiveAnnouncements(): Promise<Announcement[]>;
+  /**
+   * Newest first. `from`/`to` bound `startedAt` inclusively, `before` is an
+   * exclusive page cursor; all are ISO 8601 strings.
+   */
+  listAnnouncementsBySender(senderId: string, query?: AnnouncementHistoryQuery): Promise<Announcement[]>;
+  /** `announcements/{sessionId}/listenerEvents`, in no particular order. */
+  listListenerEvents(sessionId: string): Promise<ListenerEvent[]>;
+
+  /** The user an Agora uid is allocated to, if any. */
+  getAgoraUidOwner(agoraUid: number): Promise<string | null>;
+  /**
+   * Allocate `agoraUid` to `uid` unless another user already holds it.
+   * Atomic; returns the owner after the call.
+   */
+  claimAgoraUid(agoraUid: number, uid: string): Promise<string>;
+}
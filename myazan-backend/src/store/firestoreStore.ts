@@ -0,0 +1,431 @@
+import { FieldValue, Firestore, Timestamp, WriteBatch, getFirestore } from 'firebase-admin/firestore';
+import { StoredInvite, inviteStatus } from '../invites';
+import {
+  Announcement,
+  AnnouncementHistoryQuery,
+  ReceiverGroup,
+  ReceiverSubscriptions,
+  SenderMapping,
+  SubscriptionRequest,
+  UserProfile,
+} from '../types';
+import { AnnouncementPatch, DataStore, InviteRedemption, ListenerEvent } from './dataStore';
+
+/**
+ * Store backed by the same Firestore collections the app reads:
+ * `users`, `mappings` (with its `groups` sub-collection), `subscriptions`,
+ * `announcements` and `agoraUids`, plus the backend-only `invites` and
+ * `subscriptionRequests` (keyed `{senderId}_{receiverId}`).
+ * Requires `initializeApp()` to have been called (see server.ts).
+ */
+export class FirestoreStore implements DataStore {
+  private readonly db: Firestore;
+
+  constructor(db: Firestore = getFirestore()) {
+    this.db = db;
+  }
+
+  async getUser(uid: string): Promise<UserProfile | null> {
+    const snap = await this.db.collection('users').doc(uid).get();
+    return snap.exists ? toUser(snap.data()!) : null;
+  }
+
+  async listUsers(): Promise<UserProfile[]> {
+    const snap = await this.db.collection('users').get();
+    return snap.docs.map((doc) => toUser(doc.data()));
+  }
+
+  async createUser(profile: UserProfile): Promise<UserProfile | null> {
+    try {
+      // create() fails if the document exists
+      await this.db.collection('users').doc(profile.uid).create({
+        ...profile,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    } catch (error: any) {
+      if (error?.code === 6) return null; // ALREADY_EXISTS
+      throw error;
+    }
+    return this.getUser(profile.uid);
+  }
+
+  async updateUser(
+    uid: string,
+    patch: Partial<Pick<UserProfile, 'name' | 'role'>>
+  ): Promise<UserProfile | null> {
+    const ref = this.db.collection('users').doc(uid);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      return null;
+    }
+    await ref.update(patch);
+    return this.getUser(uid);
+  }
+
+  async getMapping(senderId: string): Promise<SenderMapping | null> {
+    const ref = this.db.collection('mappings').doc(senderId);
+    const [snap, groups, requests] = await Promise.all([
+      ref.get(),
+      ref.collection('groups').get(),
+      this.db.collection('subscriptionRequests').where('senderId', '==', senderId).get(),
+    ]);
+    if (!snap.exists) {
+      return null;
+    }
+    return {
+      senderId,
+      receivers: snap.data()!.receivers || [],
+      groups: groups.docs.map((doc) => toGroup(doc.id, doc.data())),
+      requests: sortRequests(requests.docs.map((doc) => toRequest(doc.data()))),
+    };
+  }
+
+  async requestReceivers(
+    senderId: string,
+    requests: SubscriptionRequest[],
+    groups: ReceiverGroup[]
+  ): Promise<SenderMapping> {
+    const mappingRef = this.db.collection('mappings').doc(senderId);
+    const batch = this.db.batch();
+    batch.set(mappingRef, { senderId }, { merge: true });
+    requests.forEach((request) => {
+      batch.set(this.requestRef(senderId, request.receiverId), fromRequest(request));
+    });
+    groups.forEach((group) => {
+      batch.set(mappingRef.collection('groups').doc(group.groupId), {
+        name: group.name,
+        receiverIds: group.receiverIds,
+      });
+    });
+    await batch.commit();
+    return (await this.getMapping(senderId))!;
+  }
+
+  async removeReceiver(senderId: string, receiverId: string): Promise<SenderMapping> {
+    const batch = await this.removeReceiverBatch(senderId, receiverId);
+    await batch.commit();
+    return (await this.getMapping(senderId))!;
+  }
+
+  private async removeReceiverBatch(senderId: string, receiverId: string): Promise<WriteBatch> {
+    const mappingRef = this.db.collection('mappings').doc(senderId);
+    const memberOf = await mappingRef
+      .collection('groups')
+      .where('receiverIds', 'array-contains', receiverId)
+      .get();
+    const batch = this.db.batch();
+    memberOf.docs.forEach((doc) => {
+      batch.update(doc.ref, { receiverIds: FieldValue.arrayRemove(receiverId) });
+    });
+    batch.set(
+      mappingRef,
+      { senderId, receivers: FieldValue.arrayRemove(receiverId) },
+      { merge: true }
+    );
+    batch.set(
+      this.db.collection('subscriptions').doc(receiverId),
+      { receiverId, senderIds: FieldValue.arrayRemove(senderId) },
+      { merge: true }
+    );
+    return batch;
+  }
+
+  private requestRef(senderId: string, receiverId: string) {
+    return this.db.collection('subscriptionRequests').doc(`${senderId}_${receiverId}`);
+  }
+
+  async getRequest(senderId: string, receiverId: string): Promise<SubscriptionRequest | null> {
+    const snap = await this.requestRef(senderId, receiverId).get();
+    return snap.exists ? toRequest(snap.data()!) : null;
+  }
+
+  async listRequestsForReceiver(receiverId: string): Promise<SubscriptionRequest[]> {
+    const snap = await this.db
+      .collection('subscriptionRequests')
+      .where('receiverId', '==', receiverId)
+      .get();
+    return sortRequests(snap.docs.map((doc) => toRequest(doc.data())));
+  }
+
+  async deleteRequest(senderId: string, receiverId: string): Promise<void> {
+    await this.requestRef(senderId, receiverId).delete();
+  }
+
+  async approveRequest(senderId: string, receiverId: string): Promise<boolean> {
+    const requestRef = this.requestRef(senderId, receiverId);
+    const mappingRef = this.db.collection('mappings').doc(senderId);
+    return this.db.runTransaction(async (transaction) => {
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists || requestSnap.data()!.status !== 'pending') {
+        return false;
+      }
+      const groupRefs = toRequest(requestSnap.data()!).groupIds.map((groupId) =>
+        mappingRef.collection('groups').doc(groupId)
+      );
+      const groupSnaps = groupRefs.length > 0 ? await transaction.getAll(...groupRefs) : [];
+
+      groupSnaps
+        .filter((snap) => snap.exists)
+        .forEach((snap) => {
+          transaction.update(snap.ref, { receiverIds: FieldValue.arrayUnion(receiverId) });
+        });
+      transaction.set(
+        mappingRef,
+        { senderId, receivers: FieldValue.arrayUnion(receiverId) },
+        { merge: true }
+      );
+      transaction.set(
+        this.db.collection('subscriptions').doc(receiverId),
+        { receiverId, senderIds: FieldValue.arrayUnion(senderId) },
+        { merge: true }
+      );
+      transaction.delete(requestRef);
+      return true;
+    });
+  }
+
+  async declineReceiver(senderId: string, receiverId: string, now: Date): Promise<void> {
+    const batch = await this.removeReceiverBatch(senderId, receiverId);
+    batch.set(
+      this.requestRef(senderId, receiverId),
+      fromRequest({ senderId, receiverId, status: 'declined', requestedAt: now.toISOString(), groupIds: [] })
+    );
+    await batch.commit();
+  }
+
+  async saveGroup(senderId: string, group: ReceiverGroup): Promise<SenderMapping> {
+    await this.db
+      .collection('mappings')
+      .doc(senderId)
+      .collection('groups')
+      .doc(group.groupId)
+      .set({ name: group.name, receiverIds: group.receiverIds });
+    return (await this.getMapping(senderId))!;
+  }
+
+  async deleteGroup(senderId: string, groupId: string): Promise<SenderMapping> {
+    await this.db.collection('mappings').doc(senderId).collection('groups').doc(groupId).delete();
+    return (await this.getMapping(senderId))!;
+  }
+
+  async getSubscriptions(receiverId: string): Promise<ReceiverSubscriptions> {
+    const snap = await this.db.collection('subscriptions').doc(receiverId).get();
+    return { receiverId, senderIds: snap.exists ? snap.data()!.senderIds || [] : [] };
+  }
+
+  async createInvite(invite: StoredInvite): Promise<StoredInvite | null> {
+    try {
+      await this.db.collection('invites').doc(invite.code).create({
+        ...invite,
+        createdAt: Timestamp.fromDate(new Date(invite.createdAt)),
+        expiresAt: invite.expiresAt ? Timestamp.fromDate(new Date(invite.expiresAt)) : null,
+      });
+    } catch (error: any) {
+      if (error?.code === 6) return null; // ALREADY_EXISTS
+      throw error;
+    }
+    return invite;
+  }
+
+  async getInvite(code: string): Promise<StoredInvite | null> {
+    const snap = await this.db.collection('invites').doc(code).get();
+    return snap.exists ? toInvite(snap.data()!) : null;
+  }
+
+  async listInvites(senderId: string): Promise<StoredInvite[]> {
+    const snap = await this.db.collection('invites').where('senderId', '==', senderId).get();
+    return snap.docs.map((doc) => toInvite(doc.data()));
+  }
+
+  async deleteInvite(code: string): Promise<void> {
+    await this.db.collection('invites').doc(code).delete();
+  }
+
+  async redeemInvite(code: string, receiverId: string, now: Date): Promise<InviteRedemption> {
+    const inviteRef = this.db.collection('invites').doc(code);
+    return this.db.runTransaction(async (transaction) => {
+      const inviteSnap = await transaction.get(inviteRef);
+      if (!inviteSnap.exists) {
+        return 'not_found';
+      }
+      const invite = toInvite(inviteSnap.data()!);
+      const mappingRef = this.db.collection('mappings').doc(invite.senderId);
+      const mappingSnap = await transaction.get(mappingRef);
+      if ((mappingSnap.data()?.receivers || []).includes(receiverId)) {
+        return 'already_subscribed';
+      }
+      const status = inviteStatus(invite, now);
+      if (status !== 'active') {
+        return status;
+      }
+      transaction.update(inviteRef, { uses: FieldValue.increment(1) });
+      transaction.delete(this.requestRef(invite.senderId, receiverId));
+      transaction.set(
+        mappingRef,
+        { senderId: invite.senderId, receivers: FieldValue.arrayUnion(receiverId) },
+        { merge: true }
+      );
+      transaction.set(
+        this.db.collection('subscriptions').doc(receiverId),
+        { receiverId, senderIds: FieldValue.arrayUnion(invite.senderId) },
+        { merge: true }
+      );
+      return 'subscribed';
+    });
+  }
+
+  async getAnnouncement(sessionId: string): Promise<Announcement | null> {
+    const snap = await this.db.collection('announcements').doc(sessionId).get();
+    return snap.exists ? toAnnouncement(snap.data()!) : null;
+  }
+
+  async createAnnouncement(announcement: Announcement): Promise<Announcement | null> {
+    try {
+      await this.db.collection('announcements').doc(announcement.sessionId).create({
+        ...announcement,
+        startedAt: Timestamp.fromDate(new Date(announcement.startedAt)),
+        ...(announcement.expiresAt && { expiresAt: Timestamp.fromDate(new Date(announcement.expiresAt)) }),
+      });
+    } catch (error: any) {
+      if (error?.code === 6) return null; // ALREADY_EXISTS
+      throw error;
+    }
+    return announcement;
+  }
+
+  async updateAnnouncement(sessionId: string, patch: AnnouncementPatch): Promise<Announcement | null> {
+    const ref = this.db.collection('announcements').doc(sessionId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      return null;
+    }
+    await ref.update({
+      ...patch,
+      ...(patch.endedAt && { endedAt: Timestamp.fromDate(new Date(patch.endedAt)) }),
+    });
+    return this.getAnnouncement(sessionId);
+  }
+
+  async listLiveAnnouncements(): Promise<Announcement[]> {
+    const snap = await this.db.collection('announcements').where('isLive', '==', true).get();
+    return snap.docs.map((doc) => toAnnouncement(doc.data()));
+  }
+
+  async listAnnouncementsBySender(
+    senderId: string,
+    query: AnnouncementHistoryQuery = {}
+  ): Promise<Announcement[]> {
+    let q = this.db.collection('announcements').where('senderId', '==', senderId);
+    if (query.from) q = q.where('startedAt', '>=', Timestamp.fromDate(new Date(query.from)));
+    if (query.to) q = q.where('startedAt', '<=', Timestamp.fromDate(new Date(query.to)));
+    if (query.before) q = q.where('startedAt', '<', Timestamp.fromDate(new Date(query.before)));
+    q = q.orderBy('startedAt', 'desc');
+    if (query.limit) q = q.limit(query.limit);
+
+    const snap = await q.get();
+    return snap.docs.map((doc) => toAnnouncement(doc.data()));
+  }
+
+  async listListenerEvents(sessionId: string): Promise<ListenerEvent[]> {
+    const snap = await this.db
+      .collection('announcements')
+      .doc(sessionId)
+      .collection('listenerEvents')
+      .get();
+    return snap.docs
+      .map((doc) => doc.data())
+      .filter((data) => data.at) // server timestamp still pending
+      .map((data) => ({ receiverId: data.receiverId, type: data.type, at: toIso(data.at)! }));
+  }
+
+  async getAgoraUidOwner(agoraUid: number): Promise<string | null> {
+    const snap = await this.db.collection('agoraUids').doc(String(agoraUid)).get();
+    return snap.exists ? snap.data()!.uid : null;
+  }
+
+  async claimAgoraUid(agoraUid: number, uid: string): Promise<string> {
+    const owner = await this.getAgoraUidOwner(agoraUid);
+    if (owner) {
+      return owner;
+    }
+    try {
+      await this.db.collection('agoraUids').doc(String(agoraUid)).create({
+        agoraUid,
+        uid,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      return uid;
+    } catch (error: any) {
+      // ALREADY_EXISTS: another request claimed it first
+      if (error?.code === 6) return (await this.getAgoraUidOwner(agoraUid))!;
+      throw error;
+    }
+  }
+}
+
+function toIso(value: any): string | undefined {
+  if (!value) return undefined;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function toUser(data: FirebaseFirestore.DocumentData): UserProfile {
+  return {
+    uid: data.uid,
+    name: data.name,
+    email: data.email,
+    role: data.role,
+    ...(data.createdAt && { createdAt: toIso(data.createdAt) }),
+  };
+}
+
+function toGroup(groupId: string, data: FirebaseFirestore.DocumentData): ReceiverGroup {
+  return { groupId, name: data.name, receiverIds: data.receiverIds || [] };
+}
+
+function toInvite(data: FirebaseFirestore.DocumentData): StoredInvite {
+  return {
+    code: data.code,
+    senderId: data.senderId,
+    createdAt: toIso(data.createdAt) || new Date(0).toISOString(),
+    expiresAt: toIso(data.expiresAt) ?? null,
+    maxUses: typeof data.maxUses === 'number' ? data.maxUses : null,
+    uses: data.uses || 0,
+  };
+}
+
+function toRequest(data: FirebaseFirestore.DocumentData): SubscriptionRequest {
+  return {
+    senderId: data.senderId,
+    receiverId: data.receiverId,
+    status: data.status,
+    requestedAt: toIso(data.requestedAt) || new Date(0).toISOString(),
+    groupIds: data.groupIds || [],
+  };
+}
+
+function fromRequest(request: SubscriptionRequest): FirebaseFirestore.DocumentData {
+  return { ...request, requestedAt: Timestamp.fromDate(new Date(request.requestedAt)) };
+}
+
+function sortRequests(requests: SubscriptionRequest[]): SubscriptionRequest[] {
+  return requests.sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+}
+
+function toAnnouncement(data: FirebaseFirestore.DocumentData): Announcement {
+  return {
+    sessionId: data.sessionId,
+    senderId: data.senderId,
+    channelName: data.channelName,
+    isLive: data.isLive,
+    startedAt: toIso(data.startedAt) || new Date(0).toISOString(),
+    ...(data.endedAt !== undefined && { endedAt: toIso(data.endedAt) ?? null }),
+    ...(data.expiresAt && { expiresAt: toIso(data.expiresAt) }),
+    ...(data.title !== undefined && { title: data.title }),
+    ...(data.prayer !== undefined && { prayer: data.prayer }),
+    ...(typeof data.peakListeners === 'number' && { peakListeners: data.peakListeners }),
+    ...(data.endedReason !== undefined && { endedReason: data.endedReason }),
+    ...(Array.isArray(data.mappedReceiverIds) && { mappedReceiverIds: data.mappedReceiverIds }),
+  };
+}
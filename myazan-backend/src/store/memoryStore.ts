@@ -0,0 +1,284 @@
+import { StoredInvite, inviteStatus } from '../invites';
+import {
+  Announcement,
+  AnnouncementHistoryQuery,
+  ReceiverGroup,
+  ReceiverSubscriptions,
+  SenderMapping,
+  SubscriptionRequest,
+  UserProfile,
+} from '../types';
+import { AnnouncementPatch, DataStore, InviteRedemption, ListenerEvent } from './dataStore';
+
+/**
+ * In-process store for local development and tests.
+ */
+export class MemoryStore implements DataStore {
+  private users = new Map<string, UserProfile>();
+  private mappings = new Map<string, string[]>();
+  private groups = new Map<string, ReceiverGroup[]>();
+  private subscriptions = new Map<string, string[]>();
+  private announcements = new Map<string, Announcement>();
+  private agoraUids = new Map<number, string>();
+  private listenerEvents = new Map<string, ListenerEvent[]>();
+  private invites = new Map<string, StoredInvite>();
+  /** Keyed by requestKey(senderId, receiverId). */
+  private requests = new Map<string, SubscriptionRequest>();
+
+  async getUser(uid: string): Promise<UserProfile | null> {
+    return this.users.get(uid) || null;
+  }
+
+  async listUsers(): Promise<UserProfile[]> {
+    return Array.from(this.users.values());
+  }
+
+  async createUser(profile: UserProfile): Promise<UserProfile | null> {
+    if (this.users.has(profile.uid)) {
+      return null;
+    }
+    this.users.set(profile.uid, profile);
+    return profile;
+  }
+
+  async updateUser(
+    uid: string,
+    patch: Partial<Pick<UserProfile, 'name' | 'role'>>
+  ): Promise<UserProfile | null> {
+    const existing = this.users.get(uid);
+    if (!existing) {
+      return null;
+    }
+    const updated = { ...existing, ...patch };
+    this.users.set(uid, updated);
+    return updated;
+  }
+
+  async getMapping(senderId: string): Promise<SenderMapping | null> {
+    const receivers = this.mappings.get(senderId);
+    return receivers ? this.mappingOf(senderId) : null;
+  }
+
+  async requestReceivers(
+    senderId: string,
+    requests: SubscriptionRequest[],
+    groups: ReceiverGroup[]
+  ): Promise<SenderMapping> {
+    if (!this.mappings.has(senderId)) {
+      this.mappings.set(senderId, []);
+    }
+    for (const request of requests) {
+      this.requests.set(requestKey(senderId, request.receiverId), { ...request, groupIds: [...request.groupIds] });
+    }
+    for (const group of groups) {
+      await this.saveGroup(senderId, group);
+    }
+    return this.mappingOf(senderId);
+  }
+
+  async getRequest(senderId: string, receiverId: string): Promise<SubscriptionRequest | null> {
+    return this.requests.get(requestKey(senderId, receiverId)) || null;
+  }
+
+  async listRequestsForReceiver(receiverId: string): Promise<SubscriptionRequest[]> {
+    return sortRequests(Array.from(this.requests.values()).filter((r) => r.receiverId === receiverId));
+  }
+
+  async deleteRequest(senderId: string, receiverId: string): Promise<void> {
+    this.requests.delete(requestKey(senderId, receiverId));
+  }
+
+  async approveRequest(senderId: string, receiverId: string): Promise<boolean> {
+    const request = this.requests.get(requestKey(senderId, receiverId));
+    if (request?.status !== 'pending') {
+      return false;
+    }
+    this.addReceiver(senderId, receiverId);
+    this.groups.set(
+      senderId,
+      (this.groups.get(senderId) || []).map((group) =>
+        request.groupIds.includes(group.groupId)
+          ? { ...group, receiverIds: addUnique(group.receiverIds, receiverId) }
+          : group
+      )
+    );
+    this.requests.delete(requestKey(senderId, receiverId));
+    return true;
+  }
+
+  async declineReceiver(senderId: string, receiverId: string, now: Date): Promise<void> {
+    if (this.mappings.has(senderId)) {
+      await this.removeReceiver(senderId, receiverId);
+    }
+    this.requests.set(requestKey(senderId, receiverId), {
+      senderId,
+      receiverId,
+      status: 'declined',
+      requestedAt: now.toISOString(),
+      groupIds: [],
+    });
+  }
+
+  async removeReceiver(senderId: string, receiverId: string): Promise<SenderMapping> {
+    const receivers = (this.mappings.get(senderId) || []).filter((id) => id !== receiverId);
+    this.mappings.set(senderId, receivers);
+    this.subscriptions.set(
+      receiverId,
+      (this.subscriptions.get(receiverId) || []).filter((id) => id !== senderId)
+    );
+    this.groups.set(
+      senderId,
+      (this.groups.get(senderId) || []).map((group) => ({
+        ...group,
+        receiverIds: group.receiverIds.filter((id) => id !== receiverId),
+      }))
+    );
+    return this.mappingOf(senderId);
+  }
+
+  async saveGroup(senderId: string, group: ReceiverGroup): Promise<SenderMapping> {
+    const others = (this.groups.get(senderId) || []).filter((g) => g.groupId !== group.groupId);
+    this.groups.set(senderId, [...others, { ...group, receiverIds: [...group.receiverIds] }]);
+    return this.mappingOf(senderId);
+  }
+
+  async deleteGroup(senderId: string, groupId: string): Promise<SenderMapping> {
+    this.groups.set(
+      senderId,
+      (this.groups.get(senderId) || []).filter((g) => g.groupId !== groupId)
+    );
+    return this.mappingOf(senderId);
+  }
+
+  private addReceiver(senderId: string, receiverId: string): void {
+    this.mappings.set(senderId, addUnique(this.mappings.get(senderId), receiverId));
+    this.subscriptions.set(receiverId, addUnique(this.subscriptions.get(receiverId), senderId));
+  }
+
+  private mappingOf(senderId: string): SenderMapping {
+    return {
+      senderId,
+      receivers: [...(this.mappings.get(senderId) || [])],
+      groups: (this.groups.get(senderId) || []).map((g) => ({ ...g, receiverIds: [...g.receiverIds] })),
+      requests: sortRequests(
+        Array.from(this.requests.values())
+          .filter((r) => r.senderId === senderId)
+          .map((r) => ({ ...r, groupIds: [...r.groupIds] }))
+      ),
+    };
+  }
+
+  async getSubscriptions(receiverId: string): Promise<ReceiverSubscriptions> {
+    return { receiverId, senderIds: [...(this.subscriptions.get(receiverId) || [])] };
+  }
+
+  async createInvite(invite: StoredInvite): Promise<StoredInvite | null> {
+    if (this.invites.has(invite.code)) {
+      return null;
+    }
+    this.invites.set(invite.code, invite);
+    return invite;
+  }
+
+  async getInvite(code: string): Promise<StoredInvite | null> {
+    return this.invites.get(code) || null;
+  }
+
+  async listInvites(senderId: string): Promise<StoredInvite[]> {
+    return Array.from(this.invites.values()).filter((invite) => invite.senderId === senderId);
+  }
+
+  async deleteInvite(code: string): Promise<void> {
+    this.invites.delete(code);
+  }
+
+  async redeemInvite(code: string, receiverId: string, now: Date): Promise<InviteRedemption> {
+    const invite = this.invites.get(code);
+    if (!invite) {
+      return 'not_found';
+    }
+    if ((this.mappings.get(invite.senderId) || []).includes(receiverId)) {
+      return 'already_subscribed';
+    }
+    const status = inviteStatus(invite, now);
+    if (status !== 'active') {
+      return status;
+    }
+    this.invites.set(code, { ...invite, uses: invite.uses + 1 });
+    this.addReceiver(invite.senderId, receiverId);
+    this.requests.delete(requestKey(invite.senderId, receiverId));
+    return 'subscribed';
+  }
+
+  async getAnnouncement(sessionId: string): Promise<Announcement | null> {
+    return this.announcements.get(sessionId) || null;
+  }
+
+  async createAnnouncement(announcement: Announcement): Promise<Announcement | null> {
+    if (this.announcements.has(announcement.sessionId)) {
+      return null;
+    }
+    this.announcements.set(announcement.sessionId, announcement);
+    return announcement;
+  }
+
+  async updateAnnouncement(sessionId: string, patch: AnnouncementPatch): Promise<Announcement | null> {
+    const existing = this.announcements.get(sessionId);
+    if (!existing) {
+      return null;
+    }
+    const updated = { ...existing, ...patch };
+    this.announcements.set(sessionId, updated);
+    return updated;
+  }
+
+  async listLiveAnnouncements(): Promise<Announcement[]> {
+    return Array.from(this.announcements.values()).filter((a) => a.isLive);
+  }
+
+  async listAnnouncementsBySender(
+    senderId: string,
+    query: AnnouncementHistoryQuery = {}
+  ): Promise<Announcement[]> {
+    const matches = Array.from(this.announcements.values())
+      .filter((a) => a.senderId === senderId)
+      .filter((a) => !query.from || a.startedAt >= query.from)
+      .filter((a) => !query.to || a.startedAt <= query.to)
+      .filter((a) => !query.before || a.startedAt < query.before)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  async listListenerEvents(sessionId: string): Promise<ListenerEvent[]> {
+    return [...(this.listenerEvents.get(sessionId) || [])];
+  }
+
+  /** The app writes these straight to Firestore; there is no route for them. */
+  addListenerEvent(sessionId: string, event: ListenerEvent): void {
+    this.listenerEvents.set(sessionId, [...(this.listenerEvents.get(sessionId) || []), event]);
+  }
+
+  async getAgoraUidOwner(agoraUid: number): Promise<string | null> {
+    return this.agoraUids.get(agoraUid) || null;
+  }
+
+  async claimAgoraUid(agoraUid: number, uid: string): Promise<string> {
+    if (!this.agoraUids.has(agoraUid)) {
+      this.agoraUids.set(agoraUid, uid);
+    }
+    return this.agoraUids.get(agoraUid)!;
+  }
+}
+
+function requestKey(senderId: string, receiverId: string): string {
+  return `${senderId}_${receiverId}`;
+}
+
+function sortRequests(requests: SubscriptionRequest[]): SubscriptionRequest[] {
+  return requests.sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+}
+
+function addUnique(list: string[] | undefined, id: string): string[] {
+  const current = list || [];
+  return current.includes(id) ? current : [...current, id];
+}
@@ -0,0 +1,55 @@
+/**
+ * API models, generated from `../openapi/openapi.json`.
+ * Run `npm run generate:api-types` after editing the spec.
+ */
+import { components, operations } from './openapi.generated';
+
+type Schemas = components['schemas'];
+
+export type UserRole = Schemas['UserRole'];
+export type AgoraRole = Schemas['AgoraRole'];
+
+export type GenerateTokenRequest = Schemas['GenerateTokenRequest'];
+export type AgoraTokenResponse = Schemas['AgoraTokenResponse'];
+export type AgoraUidAllocation = Schemas['AgoraUidAllocation'];
+
+export type UserProfile = Schemas['UserProfile'];
+export type CreateUserRequest = Schemas['CreateUserRequest'];
+export type UpdateUserRequest = Schemas['UpdateUserRequest'];
+
+export type SenderMapping = Schemas['SenderMapping'];
+export type ReceiverGroup = Schemas['ReceiverGroup'];
+export type CreateReceiverGroupRequest = Schemas['CreateReceiverGroupRequest'];
+export type UpdateReceiverGroupRequest = Schemas['UpdateReceiverGroupRequest'];
+export type ResolveRecipientsRequest = Schemas['ResolveRecipientsRequest'];
+export type ResolvedRecipients = Schemas['ResolvedRecipients'];
+export type RecipientRow = Schemas['RecipientRow'];
+export type ImportRecipientsRequest = Schemas['ImportRecipientsRequest'];
+export type ImportRowStatus = Schemas['ImportRowStatus'];
+export type ImportRowResult = Schemas['ImportRowResult'];
+export type ImportRecipientsResult = Schemas['ImportRecipientsResult'];
+export type ExportedRecipient = Schemas['ExportedRecipient'];
+export type RecipientExport = Schemas['RecipientExport'];
+export type InviteStatus = Schemas['InviteStatus'];
+export type Invite = Schemas['Invite'];
+export type CreateInviteRequest = Schemas['CreateInviteRequest'];
+export type InvitePreview = Schemas['InvitePreview'];
+export type InviteAcceptance = Schemas['InviteAcceptance'];
+export type ReceiverSubscriptions = Schemas['ReceiverSubscriptions'];
+export type SubscriptionRequestStatus = Schemas['SubscriptionRequestStatus'];
+export type SubscriptionRequest = Schemas['SubscriptionRequest'];
+export type IncomingSubscriptionRequest = Schemas['IncomingSubscriptionRequest'];
+
+export type Announcement = Schemas['Announcement'];
+export type CreateAnnouncementRequest = Schemas['CreateAnnouncementRequest'];
+export type UpdateAnnouncementRequest = Schemas['UpdateAnnouncementRequest'];
+export type EndedReason = Schemas['EndedReason'];
+export type DeliveryStatus = Schemas['DeliveryStatus'];
+export type DeliveryReceiver = Schemas['DeliveryReceiver'];
+export type DeliveryReport = Schemas['DeliveryReport'];
+export type AnnouncementHistoryQuery = NonNullable<
+  operations['getAnnouncementsBySender']['parameters']['query']
+>;
+
+export type ApiAck = Schemas['ApiAck'];
+export type ErrorResponse = Schemas['ErrorResponse'];
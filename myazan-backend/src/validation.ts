@@ -0,0 +1,130 @@
+import { badRequest } from './errors';
+
+/**
+ * Minimal body checks for the shapes in openapi/openapi.json.
+ */
+export function requireObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw badRequest('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+export function rejectUnknownFields(body: Record<string, unknown>, allowed: string[]): void {
+  const unknown = Object.keys(body).filter((key) => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw badRequest(`Unknown field(s): ${unknown.join(', ')}`);
+  }
+}
+
+export function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw badRequest(`${field} is required`);
+  }
+  return value;
+}
+
+export function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  if (body[field] === undefined) {
+    return undefined;
+  }
+  return requireString(body, field);
+}
+
+/**
+ * Optional array of non-empty strings, with duplicates removed.
+ */
+export function optionalStringArray(body: Record<string, unknown>, field: string): string[] | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item === '')) {
+    throw badRequest(`${field} must be an array of strings`);
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+export function optionalBoolean(body: Record<string, unknown>, field: string): boolean | undefined {
+  const value = body[field];
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw badRequest(`${field} must be a boolean`);
+  }
+  return value;
+}
+
+export function optionalInteger(
+  body: Record<string, unknown>,
+  field: string,
+  min: number,
+  max: number
+): number | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw badRequest(`${field} must be an integer from ${min} to ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Optional ISO 8601 body field, normalized to `toISOString()` form.
+ */
+export function optionalDateTime(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    throw badRequest(`${field} must be an ISO 8601 date-time`);
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Optional ISO 8601 query parameter, normalized to `toISOString()` form.
+ */
+export function optionalDateTimeQuery(query: Record<string, unknown>, field: string): string | undefined {
+  const value = query[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    throw badRequest(`${field} must be an ISO 8601 date-time`);
+  }
+  return new Date(time).toISOString();
+}
+
+export function optionalIntegerQuery(
+  query: Record<string, unknown>,
+  field: string,
+  min: number,
+  max: number
+): number | undefined {
+  const value = query[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (isNaN(parsed) || parsed < min || parsed > max) {
+    throw badRequest(`${field} must be an integer from ${min} to ${max}`);
+  }
+  return parsed;
+}
+
+export function requireOneOf<T extends string>(
+  body: Record<string, unknown>,
+  field: string,
+  values: readonly T[]
+): T {
+  const value = body[field];
+  if (!values.includes(value as T)) {
+    throw badRequest(`${field} must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+}
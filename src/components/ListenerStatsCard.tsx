@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+
+import { ListenerStats } from '../services/listenerAnalytics';
+
+interface Props {
+  stats: ListenerStats;
+  onViewDeliveryReport?: () => void;
+}
+
+/**
+ * Audience summary for a finished broadcast.
+ */
+export default function ListenerStatsCard({ stats, onViewDeliveryReport }: Props) {
+  const reachPercent = Math.round(stats.reach * 100);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>📊 Last Broadcast</Text>
+      <View style={styles.grid}>
+        <Stat label="Peak listeners" value={String(stats.peakConcurrent)} />
+        <Stat label="Average listeners" value={stats.averageConcurrent.toFixed(1)} />
+        <Stat label="Listener-minutes" value={stats.listenerMinutes.toFixed(1)} />
+        <Stat
+          label="Reach"
+          value={
+            stats.mappedReceivers > 0
+              ? `${stats.reachedReceivers}/${stats.mappedReceivers} (${reachPercent}%)`
+              : '—'
+          }
+        />
+      </View>
+      {onViewDeliveryReport && (
+        <TouchableOpacity onPress={onViewDeliveryReport}>
+          <Text style={styles.link}>📋 Who missed it? View delivery report</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#7e57c2',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  stat: {
+    width: '50%',
+    paddingVertical: 6,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#999',
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7e57c2',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+import { PresenceEntry } from '../services/listenerPresence';
+import * as api from '../services/api';
+
+interface Props {
+  listeners: PresenceEntry[];
+}
+
+/**
+ * Names of the receivers currently listening, from presence documents.
+ */
+export default function LiveListeners({ listeners }: Props) {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const requestedNamesRef = useRef<Set<string>>(new Set());
+
+  // Resolve listener names once per receiver
+  useEffect(() => {
+    listeners.forEach((listener) => {
+      if (requestedNamesRef.current.has(listener.receiverId)) return;
+      requestedNamesRef.current.add(listener.receiverId);
+      api
+        .getUser(listener.receiverId)
+        .then((user) =>
+          setNames((prev) => ({ ...prev, [listener.receiverId]: user?.name || listener.receiverId }))
+        )
+        .catch(() => null);
+    });
+  }, [listeners]);
+
+  if (listeners.length === 0) {
+    return <Text style={styles.emptyText}>No one is listening yet</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {listeners.map((listener) => (
+        <View key={listener.receiverId} style={styles.item}>
+          <Text style={styles.name}>🎧 {names[listener.receiverId] || listener.receiverId}</Text>
+          {listener.joinedAt && (
+            <Text style={styles.joinedAt}>
+              since{' '}
+              {listener.joinedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  name: {
+    fontSize: 15,
+    color: '#333',
+    flex: 1,
+  },
+  joinedAt: {
+    fontSize: 12,
+    color: '#999',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import { RootState } from '../store';
+import { refreshPrayerTimes } from '../store/slices/prayerTimesSlice';
+import {
+  getNextPrayer,
+  nextMidnight,
+  toDateKey,
+  PRAYER_LABELS,
+  PRAYER_NAMES,
+} from '../utils/prayerTimes';
+
+/**
+ * Today's prayer timetable, with the next prayer highlighted.
+ */
+export default function PrayerTimetable() {
+  const dispatch = useDispatch();
+  const { settings, date, times } = useSelector((state: RootState) => state.prayerTimes);
+
+  const [wokeAt, setWokeAt] = useState(0);
+
+  // Recompute when the day rolls over in the settings' timezone, waking at
+  // the next midnight there even if nothing else re-renders us
+  useEffect(() => {
+    const now = new Date();
+    const today = toDateKey(now, settings.timezone);
+    if (date !== today) {
+      dispatch(refreshPrayerTimes(today));
+    }
+    const timer = setTimeout(
+      () => setWokeAt(Date.now()),
+      nextMidnight(now, settings.timezone).getTime() - now.getTime()
+    );
+    return () => clearTimeout(timer);
+  }, [wokeAt, date, settings.timezone, dispatch]);
+
+  if (!times || !date) {
+    return null;
+  }
+
+  const next = getNextPrayer(times, date, settings.timezone);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🕌 Prayer Times · {date}</Text>
+      {PRAYER_NAMES.map((prayer) => {
+        const isNext = next?.prayer === prayer;
+        return (
+          <View key={prayer} style={[styles.row, isNext && styles.rowNext]}>
+            <Text style={[styles.label, isNext && styles.textNext]}>
+              {PRAYER_LABELS[prayer]}
+            </Text>
+            <Text style={[styles.time, isNext && styles.textNext]}>{times[prayer]}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 4,
+  },
+  rowNext: {
+    backgroundColor: '#e8f5e9',
+  },
+  label: {
+    fontSize: 15,
+    color: '#555',
+  },
+  time: {
+    fontSize: 15,
+    color: '#333',
+    fontFamily: 'monospace',
+  },
+  textNext: {
+    color: '#2e7d32',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useSelector } from 'react-redux';
+
+import { RootState } from '../store';
+import { ScheduleManager, ScheduledAnnouncement, ScheduleTrigger } from '../services/scheduleManager';
+import { PRAYER_LABELS, PrayerName } from '../utils/prayerTimes';
+
+const SCHEDULABLE_PRAYERS: PrayerName[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+interface Props {
+  senderId: string;
+  schedules: ScheduledAnnouncement[];
+}
+
+/**
+ * Lets a sender schedule broadcasts at a fixed time or relative to a prayer,
+ * and lists their pending schedules.
+ */
+export default function ScheduleBroadcastForm({ senderId, schedules }: Props) {
+  const prayerSettings = useSelector((state: RootState) => state.prayerTimes.settings);
+
+  const [title, setTitle] = useState('');
+  const [mode, setMode] = useState<'fixed' | 'prayer'>('prayer');
+  const [fixedTime, setFixedTime] = useState('');
+  const [prayer, setPrayer] = useState<PrayerName>('dhuhr');
+  const [offsetMinutes, setOffsetMinutes] = useState('-5');
+  const [isSaving, setIsSaving] = useState(false);
+
+  function buildTrigger(): ScheduleTrigger | null {
+    if (mode === 'prayer') {
+      const offset = parseInt(offsetMinutes, 10);
+      return isNaN(offset) ? null : { type: 'prayer', prayer, offsetMinutes: offset };
+    }
+
+    // Fixed times are entered as device-local HH:mm, rolling to tomorrow if already past
+    const match = /^(\d{1,2}):(\d{2})$/.exec(fixedTime.trim());
+    if (!match) return null;
+    const at = new Date();
+    at.setHours(Number(match[1]), Number(match[2]), 0, 0);
+    if (at.getTime() <= Date.now()) {
+      at.setDate(at.getDate() + 1);
+    }
+    return { type: 'fixed', at: at.toISOString() };
+  }
+
+  async function addSchedule() {
+    const trigger = buildTrigger();
+    if (!trigger) {
+      Alert.alert('Error', mode === 'fixed' ? 'Enter a time as HH:mm' : 'Enter the offset in minutes');
+      return;
+    }
+
+    setIsSaving(true);
+    const id = await ScheduleManager.createSchedule(
+      senderId,
+      title.trim() || (mode === 'prayer' ? PRAYER_LABELS[prayer] : 'Broadcast'),
+      trigger,
+      prayerSettings
+    );
+    setIsSaving(false);
+
+    if (!id) {
+      Alert.alert('Error', 'Failed to schedule broadcast');
+      return;
+    }
+    setTitle('');
+    setFixedTime('');
+  }
+
+  function cyclePrayer() {
+    const index = SCHEDULABLE_PRAYERS.indexOf(prayer);
+    setPrayer(SCHEDULABLE_PRAYERS[(index + 1) % SCHEDULABLE_PRAYERS.length]);
+  }
+
+  function describeTrigger(trigger: ScheduleTrigger) {
+    if (trigger.type === 'fixed') return 'One-off';
+    const offset = trigger.offsetMinutes;
+    if (offset === 0) return `At ${PRAYER_LABELS[trigger.prayer]} daily`;
+    return `${Math.abs(offset)} min ${offset < 0 ? 'before' : 'after'} ${PRAYER_LABELS[trigger.prayer]} daily`;
+  }
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        placeholder="Title (optional)"
+        value={title}
+        onChangeText={setTitle}
+      />
+
+      <View style={styles.modeRow}>
+        {(['prayer', 'fixed'] as const).map((m) => (
+          <TouchableOpacity
+            key={m}
+            style={[styles.modeButton, mode === m && styles.modeButtonActive]}
+            onPress={() => setMode(m)}
+          >
+            <Text style={[styles.modeText, mode === m && styles.modeTextActive]}>
+              {m === 'prayer' ? 'Around a prayer' : 'Fixed time'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === 'prayer' ? (
+        <View style={styles.modeRow}>
+          <TouchableOpacity style={styles.prayerButton} onPress={cyclePrayer}>
+            <Text style={styles.modeText}>{PRAYER_LABELS[prayer]} ▸</Text>
+          </TouchableOpacity>
+          <TextInput
+            style={[styles.input, styles.offsetInput]}
+            placeholder="± minutes"
+            value={offsetMinutes}
+            onChangeText={setOffsetMinutes}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      ) : (
+        <TextInput
+          style={styles.input}
+          placeholder="HH:mm"
+          value={fixedTime}
+          onChangeText={setFixedTime}
+          keyboardType="numbers-and-punctuation"
+        />
+      )}
+
+      <TouchableOpacity style={styles.addButton} onPress={addSchedule} disabled={isSaving}>
+        <Text style={styles.addButtonText}>{isSaving ? 'Saving...' : '＋ Add Schedule'}</Text>
+      </TouchableOpacity>
+
+      {schedules.map((schedule) => (
+        <View key={schedule.id} style={styles.scheduleItem}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.scheduleTitle}>{schedule.title}</Text>
+            <Text style={styles.scheduleMeta}>
+              {schedule.scheduledFor.toLocaleString()} · {describeTrigger(schedule.trigger)}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => ScheduleManager.cancelSchedule(schedule.id)}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginBottom: 10,
+    fontSize: 15,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  modeButton: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#2196F3',
+  },
+  modeText: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  modeTextActive: {
+    color: '#fff',
+  },
+  prayerButton: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 6,
+    backgroundColor: '#e3f2fd',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  offsetInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  addButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 6,
+    padding: 12,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  scheduleItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  scheduleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  scheduleMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  cancelText: {
+    color: '#f44336',
+    fontWeight: '600',
+  },
+});
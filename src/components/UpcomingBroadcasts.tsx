@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+import { ScheduleManager, ScheduledAnnouncement } from '../services/scheduleManager';
+import * as api from '../services/api';
+
+interface Props {
+  senderIds: string[];
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+};
+
+/**
+ * Upcoming scheduled broadcasts from the given senders, with live countdowns.
+ */
+export default function UpcomingBroadcasts({ senderIds }: Props) {
+  const [schedules, setSchedules] = useState<ScheduledAnnouncement[]>([]);
+  const [senderNames, setSenderNames] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now());
+  const requestedNamesRef = useRef<Set<string>>(new Set());
+
+  const senderKey = senderIds.join(',');
+
+  useEffect(() => {
+    return ScheduleManager.listenToUpcoming(senderIds, setSchedules);
+  }, [senderKey]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Resolve sender names once per sender
+  useEffect(() => {
+    schedules.forEach((schedule) => {
+      if (requestedNamesRef.current.has(schedule.senderId)) return;
+      requestedNamesRef.current.add(schedule.senderId);
+      api
+        .getUser(schedule.senderId)
+        .then((sender) =>
+          setSenderNames((prev) => ({ ...prev, [schedule.senderId]: sender?.name || schedule.senderId }))
+        )
+        .catch(() => null);
+    });
+  }, [schedules]);
+
+  const upcoming = schedules.filter((s) => s.scheduledFor.getTime() > now);
+  if (upcoming.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>⏰ Upcoming</Text>
+      {upcoming.map((schedule) => (
+        <View key={schedule.id} style={styles.item}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.itemTitle}>{schedule.title}</Text>
+            <Text style={styles.itemMeta}>
+              {senderNames[schedule.senderId] || schedule.senderId} ·{' '}
+              {schedule.scheduledFor.toLocaleTimeString()}
+            </Text>
+          </View>
+          <Text style={styles.countdown}>{formatCountdown(schedule.scheduledFor.getTime() - now)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9800',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  countdown: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#E65100',
+    fontFamily: 'monospace',
+  },
+});
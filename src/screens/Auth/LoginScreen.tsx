@@ -18,9 +18,8 @@ export default function LoginScreen({ navigation }: any) {
       const uid = credential.user.uid;
       // Load profile from Firestore
       const snap = await getDoc(doc(db, 'users', uid));
-      const data = snap.exists() ? snap.data() : { uid, name: credential.user.email, role: 'receiver' };
-      dispatch(setUser({ uid: data.uid, name: data.name, email: credential.user.email, role: data.role }));
-      navigation.replace('Home');
+      const data = snap.exists() ? snap.data() : { uid, name: credential.user.email, role: undefined };
+      dispatch(setUser({ uid, name: data.name, email: credential.user.email, role: data.role }));
     } catch (err:any) {
       alert(err.message);
     }
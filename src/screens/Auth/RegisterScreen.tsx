@@ -1,30 +1,40 @@
 import React, { useState } from 'react';
-import { View, TextInput, Button } from 'react-native';
+import { View, Text, TextInput, Button, TouchableOpacity } from 'react-native';
 import { createUserWithEmailAndPassword, updateProfile } from 'firebase/auth';
+import { useDispatch } from 'react-redux';
 import { auth } from '../../services/firebase';
-import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../services/firebase';
+import * as api from '../../services/api';
+import { setUser, profileSetupFailed } from '../../store/slices/authSlice';
+import { UserRole } from '../../types/api';
+import { ROLE_LABELS, SIGN_UP_ROLES } from '../../utils/roleAccess';
 
-export default function RegisterScreen({ navigation }: any) {
+const ROLE_HINTS: Partial<Record<UserRole, string>> = {
+  receiver: 'Listen to announcements from your mosque',
+  sender: 'Broadcast announcements to your receivers',
+};
+
+export default function RegisterScreen() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
-  const [role, setRole] = useState<'sender'|'receiver'>('receiver');
+  const [role, setRole] = useState<UserRole>('receiver');
+  const dispatch = useDispatch();
 
   const register = async () => {
     try {
       const res = await createUserWithEmailAndPassword(auth, email, password);
       await updateProfile(res.user, { displayName: name });
-      await setDoc(doc(db, 'users', res.user.uid), {
-        uid: res.user.uid,
-        name,
-        email,
-        role,
-        createdAt: serverTimestamp()
-      });
-      navigation.replace('Home');
     } catch (err:any) {
       alert(err.message);
+      return;
+    }
+    try {
+      // The backend refuses roles that cannot be self-assigned
+      const profile = await api.createUser(name, email, role);
+      dispatch(setUser({ uid: profile.uid, name: profile.name, email: profile.email, role: profile.role }));
+    } catch (err:any) {
+      // The account exists but has no profile yet; Home offers to retry or sign out
+      dispatch(profileSetupFailed({ role, error: err.message }));
     }
   };
 
@@ -33,7 +43,24 @@ export default function RegisterScreen({ navigation }: any) {
       <TextInput placeholder="Full name" value={name} onChangeText={setName} />
       <TextInput placeholder="Email" value={email} onChangeText={setEmail} keyboardType="email-address" />
       <TextInput placeholder="Password" secureTextEntry value={password} onChangeText={setPassword} />
-      <Button title={`Register as ${role}`} onPress={register} />
+      <Text style={{ marginTop: 16, marginBottom: 8 }}>I want to</Text>
+      {SIGN_UP_ROLES.map((option) => (
+        <TouchableOpacity
+          key={option}
+          onPress={() => setRole(option)}
+          style={{
+            padding: 12,
+            marginBottom: 8,
+            borderRadius: 8,
+            borderWidth: 2,
+            borderColor: role === option ? '#2196F3' : '#e0e0e0',
+          }}
+        >
+          <Text style={{ fontWeight: '600' }}>{ROLE_LABELS[option]}</Text>
+          <Text style={{ color: '#666' }}>{ROLE_HINTS[option]}</Text>
+        </TouchableOpacity>
+      ))}
+      <Button title={`Register as ${ROLE_LABELS[role]}`} onPress={register} />
     </View>
   );
 }
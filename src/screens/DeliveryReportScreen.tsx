@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+
+import * as api from '../services/api';
+import { DeliveryReceiver, DeliveryReport } from '../types/api';
+import { formatBroadcastDuration } from '../utils/broadcastHistory';
+
+/**
+ * Which of the receivers targeted when a broadcast started heard it.
+ * Route params: `{ sessionId }`.
+ */
+export default function DeliveryReportScreen({ route }: any) {
+  const sessionId: string = route.params.sessionId;
+
+  const [report, setReport] = useState<DeliveryReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    api
+      .getDeliveryReport(sessionId)
+      .then((result) => {
+        if (!cancelled) setReport(result);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error loading delivery report:', error);
+        setError('Failed to load delivery report');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const missed = report?.receivers.filter((r) => r.status === 'missed') ?? [];
+  const heard = report?.receivers.filter((r) => r.status === 'heard') ?? [];
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>📋 Delivery Report</Text>
+
+      {isLoading && <ActivityIndicator color="#2196F3" />}
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {report && (
+        <>
+          <View style={styles.summary}>
+            <Text style={styles.summaryText}>
+              Heard by {report.heardReceivers} of {report.mappedReceivers} receivers
+            </Text>
+            <Text style={styles.summaryMeta}>
+              {new Date(report.startedAt).toLocaleString()}
+              {report.endedAt === null && ' · still live'}
+            </Text>
+          </View>
+
+          {report.mappedReceivers === 0 && (
+            <Text style={styles.emptyText}>No receivers were targeted when this broadcast started</Text>
+          )}
+
+          {missed.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Missed ({missed.length})</Text>
+              {missed.map((receiver) => (
+                <View key={receiver.receiverId} style={[styles.item, styles.itemMissed]}>
+                  <Text style={styles.itemName}>⚠️ {receiverName(receiver)}</Text>
+                  <Text style={styles.itemMissedText}>Did not tune in</Text>
+                </View>
+              ))}
+            </>
+          )}
+
+          {heard.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Heard ({heard.length})</Text>
+              {heard.map((receiver) => (
+                <HeardItem key={receiver.receiverId} receiver={receiver} />
+              ))}
+            </>
+          )}
+
+          {report.otherListeners.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Not targeted at start ({report.otherListeners.length})</Text>
+              {report.otherListeners.map((receiver) => (
+                <HeardItem key={receiver.receiverId} receiver={receiver} />
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+function HeardItem({ receiver }: { receiver: DeliveryReceiver }) {
+  return (
+    <View style={styles.item}>
+      <Text style={styles.itemName}>🎧 {receiverName(receiver)}</Text>
+      <Text style={styles.itemMeta}>
+        Joined{' '}
+        {receiver.firstJoinedAt
+          ? new Date(receiver.firstJoinedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+          : '—'}
+        {' · '}⏱ {formatBroadcastDuration(receiver.listenedSeconds)}
+        {receiver.joins > 1 && ` · ${receiver.joins} joins`}
+      </Text>
+    </View>
+  );
+}
+
+function receiverName(receiver: DeliveryReceiver): string {
+  return receiver.name || receiver.receiverId;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  summary: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#7e57c2',
+  },
+  summaryText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryMeta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  item: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#4CAF50',
+  },
+  itemMissed: {
+    backgroundColor: '#fff3e0',
+    borderLeftColor: '#ff9800',
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  itemMissedText: {
+    fontSize: 13,
+    color: '#e65100',
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    padding: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import * as api from '../services/api';
+import { ReceiverGroup, SenderMapping } from '../types/api';
+
+/**
+ * The signed-in sender's receiver groups. Members are picked from the
+ * sender's mapping; broadcasts can then target one or more groups.
+ */
+export default function GroupsScreen() {
+  const auth = useSelector((state: any) => state.auth);
+
+  const [mapping, setMapping] = useState<SenderMapping | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [newGroupName, setNewGroupName] = useState('');
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadGroups();
+  }, [auth.uid]);
+
+  async function loadGroups() {
+    if (!auth.uid) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [users, current] = await Promise.all([
+        api.getAllUsers(),
+        // A sender without a mapping yet has no receivers to group
+        api.getMapping(auth.uid).catch((error) => {
+          if (api.isApiError(error, 'not_found')) return null;
+          throw error;
+        }),
+      ]);
+      setNames(Object.fromEntries(users.map((u) => [u.uid, u.name])));
+      setMapping(current);
+    } catch (error) {
+      console.error('Error loading groups:', error);
+      setError('Failed to load groups');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function createGroup() {
+    const name = newGroupName.trim();
+    if (!name) return;
+    try {
+      setMapping(await api.createReceiverGroup(auth.uid, name));
+      setNewGroupName('');
+    } catch (error) {
+      console.error('Error creating group:', error);
+      Alert.alert(
+        'Error',
+        api.isApiError(error, 'conflict') ? `A group named "${name}" already exists` : 'Failed to create group'
+      );
+    }
+  }
+
+  async function toggleMember(group: ReceiverGroup, receiverId: string) {
+    const receiverIds = group.receiverIds.includes(receiverId)
+      ? group.receiverIds.filter((id) => id !== receiverId)
+      : [...group.receiverIds, receiverId];
+    try {
+      setMapping(await api.updateReceiverGroup(auth.uid, group.groupId, { receiverIds }));
+    } catch (error) {
+      console.error('Error updating group:', error);
+      Alert.alert('Error', 'Failed to update group');
+    }
+  }
+
+  function deleteGroup(group: ReceiverGroup) {
+    Alert.alert('Delete Group', `Delete "${group.name}"? Its receivers stay in your list.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setMapping(await api.deleteReceiverGroup(auth.uid, group.groupId));
+          } catch (error) {
+            console.error('Error deleting group:', error);
+            Alert.alert('Error', 'Failed to delete group');
+          }
+        },
+      },
+    ]);
+  }
+
+  const receivers = mapping?.receivers ?? [];
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>👥 Receiver Groups</Text>
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator color="#2196F3" />
+      ) : !mapping ? (
+        <Text style={styles.emptyText}>Select some recipients first, then group them here</Text>
+      ) : (
+        <>
+          <View style={styles.createRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="New group, e.g. Family"
+              value={newGroupName}
+              onChangeText={setNewGroupName}
+              maxLength={50}
+            />
+            <TouchableOpacity
+              style={[styles.createButton, !newGroupName.trim() && styles.createButtonDisabled]}
+              onPress={createGroup}
+              disabled={!newGroupName.trim()}
+            >
+              <Text style={styles.createButtonText}>Create</Text>
+            </TouchableOpacity>
+          </View>
+
+          {mapping.groups.length === 0 && <Text style={styles.emptyText}>No groups yet</Text>}
+
+          {mapping.groups.map((group) => (
+            <View key={group.groupId} style={styles.group}>
+              <TouchableOpacity
+                style={styles.groupHeader}
+                onPress={() =>
+                  setExpandedGroupId(expandedGroupId === group.groupId ? null : group.groupId)
+                }
+              >
+                <Text style={styles.groupName}>
+                  {expandedGroupId === group.groupId ? '▼' : '▶'} {group.name}
+                </Text>
+                <Text style={styles.groupCount}>{group.receiverIds.length} members</Text>
+              </TouchableOpacity>
+
+              {expandedGroupId === group.groupId && (
+                <>
+                  {receivers.map((receiverId) => (
+                    <View key={receiverId} style={styles.member}>
+                      <Text style={styles.memberName}>{names[receiverId] || receiverId}</Text>
+                      <Switch
+                        value={group.receiverIds.includes(receiverId)}
+                        onValueChange={() => toggleMember(group, receiverId)}
+                        trackColor={{ false: '#d3d3d3', true: '#81c784' }}
+                        thumbColor={group.receiverIds.includes(receiverId) ? '#4CAF50' : '#f4f3f4'}
+                      />
+                    </View>
+                  ))}
+                  <TouchableOpacity onPress={() => deleteGroup(group)}>
+                    <Text style={styles.deleteText}>Delete group</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  createRow: {
+    flexDirection: 'row',
+    marginBottom: 20,
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  createButton: {
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  createButtonDisabled: {
+    opacity: 0.5,
+  },
+  createButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  group: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  groupName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  groupCount: {
+    fontSize: 13,
+    color: '#999',
+  },
+  member: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 8,
+  },
+  memberName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  deleteText: {
+    color: '#f44336',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    padding: 16,
+    textAlign: 'center',
+  },
+});
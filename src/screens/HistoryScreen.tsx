@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import * as api from '../services/api';
+import { Announcement } from '../types/api';
+import {
+  HISTORY_PAGE_SIZE,
+  HISTORY_RANGES,
+  HistoryRange,
+  describeEndedReason,
+  formatBroadcastDuration,
+  getBroadcastDuration,
+  getBroadcastTitle,
+  historyQueryFor,
+} from '../utils/broadcastHistory';
+
+/**
+ * The signed-in sender's past broadcasts, newest first, one page at a time.
+ * Tapping one opens its delivery report.
+ */
+export default function HistoryScreen({ navigation }: any) {
+  const auth = useSelector((state: any) => state.auth);
+
+  const [range, setRange] = useState<HistoryRange>('30d');
+  const [broadcasts, setBroadcasts] = useState<Announcement[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Responses for an older filter are dropped when the filter changes
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    loadPage(null);
+  }, [auth.uid, range]);
+
+  async function loadPage(cursor: string | null) {
+    if (!auth.uid) return;
+    const requestId = ++requestIdRef.current;
+
+    setIsLoading(true);
+    setError(null);
+    if (!cursor) {
+      setBroadcasts([]);
+    }
+
+    try {
+      const page = await api.getAnnouncementsBySender(auth.uid, historyQueryFor(range, cursor));
+      if (requestId !== requestIdRef.current) return;
+
+      setBroadcasts((prev) => (cursor ? [...prev, ...page] : page));
+      setHasMore(page.length === HISTORY_PAGE_SIZE);
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error loading broadcast history:', error);
+      setError('Failed to load broadcast history');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }
+
+  function loadMore() {
+    if (isLoading || !hasMore || broadcasts.length === 0) return;
+    loadPage(broadcasts[broadcasts.length - 1].startedAt);
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>📜 Broadcast History</Text>
+
+      <View style={styles.filterRow}>
+        {HISTORY_RANGES.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.filterChip, range === option.key && styles.filterChipActive]}
+            onPress={() => setRange(option.key)}
+          >
+            <Text style={[styles.filterText, range === option.key && styles.filterTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      <FlatList
+        data={broadcasts}
+        keyExtractor={(item) => item.sessionId}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.item}
+            onPress={() => navigation.navigate('DeliveryReport', { sessionId: item.sessionId })}
+          >
+            <View style={styles.itemHeader}>
+              <Text style={styles.itemTitle}>{getBroadcastTitle(item)}</Text>
+              <Text style={[styles.endedReason, item.isLive && styles.endedReasonLive]}>
+                {describeEndedReason(item)}
+              </Text>
+            </View>
+            <Text style={styles.itemMeta}>{new Date(item.startedAt).toLocaleString()}</Text>
+            <View style={styles.itemStats}>
+              <Text style={styles.stat}>
+                ⏱ {formatBroadcastDuration(getBroadcastDuration(item))}
+              </Text>
+              <Text style={styles.stat}>👥 Peak {item.peakListeners ?? 0}</Text>
+            </View>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          isLoading ? null : <Text style={styles.emptyText}>No broadcasts in this period</Text>
+        }
+        ListFooterComponent={
+          isLoading ? <ActivityIndicator style={styles.footer} color="#2196F3" /> : null
+        }
+        style={styles.list}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    backgroundColor: '#fff',
+  },
+  filterChipActive: {
+    backgroundColor: '#2196F3',
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  filterTextActive: {
+    color: '#fff',
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  list: {
+    flex: 1,
+  },
+  item: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#9e9e9e',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+  },
+  endedReason: {
+    fontSize: 12,
+    color: '#666',
+  },
+  endedReasonLive: {
+    color: '#ff5252',
+    fontWeight: '600',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 8,
+  },
+  itemStats: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  stat: {
+    fontSize: 14,
+    color: '#555',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    padding: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    marginVertical: 16,
+  },
+});
@@ -1,21 +1,60 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, Switch, Button } from 'react-native';
+import React from 'react';
+import { View, Text, Button } from 'react-native';
+import { signOut } from 'firebase/auth';
+import { useDispatch, useSelector } from 'react-redux';
+
+import PrayerTimetable from '../components/PrayerTimetable';
+import { auth } from '../services/firebase';
+import * as api from '../services/api';
+import { RootState } from '../store';
+import { setUser, profileSetupFailed, clearUser } from '../store/slices/authSlice';
+import { ROLE_LABELS, homeActionFor } from '../utils/roleAccess';
 
 export default function HomeScreen({ navigation }: any) {
-  const [isSenderMode, setIsSenderMode] = useState(false);
+  const dispatch = useDispatch();
+  const { role, signUpRole, setupError } = useSelector((state: RootState) => state.auth);
+  const action = homeActionFor(role);
+
+  // Sign-up created the account but not its profile, so it has no role yet
+  const retrySetup = async () => {
+    const user = auth.currentUser;
+    if (!user || !signUpRole) return;
+    try {
+      const profile = await api.createUser(user.displayName ?? '', user.email ?? '', signUpRole);
+      dispatch(setUser({ uid: profile.uid, name: profile.name, email: profile.email, role: profile.role }));
+    } catch (err: any) {
+      dispatch(profileSetupFailed({ role: signUpRole, error: err.message }));
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await signOut(auth);
+      dispatch(clearUser());
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
 
   return (
     <View style={{ flex: 1, padding: 20 }}>
       <Text style={{ fontSize: 22 }}>MyAzan</Text>
-      <View style={{ flexDirection: 'row', alignItems: 'center', marginVertical: 20 }}>
-        <Text>{isSenderMode ? 'Sender Mode' : 'Receiver Mode'}</Text>
-        <Switch value={isSenderMode} onValueChange={setIsSenderMode} />
+      <View style={{ marginTop: 20 }}>
+        <PrayerTimetable />
       </View>
-      {isSenderMode ? (
-        <Button title="Open Sender Dashboard" onPress={() => navigation.navigate('SenderDashboard')} />
-      ) : (
-        <Button title="Open Receiver Dashboard" onPress={() => navigation.navigate('ReceiverDashboard')} />
+      <Text style={{ marginVertical: 20 }}>
+        {role ? `Signed in as ${ROLE_LABELS[role]}` : 'Setting up your account…'}
+      </Text>
+      {!role && setupError && (
+        <View style={{ marginBottom: 20 }}>
+          <Text style={{ color: '#f44336', marginBottom: 8 }}>
+            Couldn't finish setting up your account: {setupError}
+          </Text>
+          <Button title="Try Again" onPress={retrySetup} />
+        </View>
       )}
+      {!role && <Button title="Sign Out" onPress={handleLogout} />}
+      {action && <Button title={action.title} onPress={() => navigation.navigate(action.screen)} />}
       <Button title="Settings" onPress={() => navigation.navigate('Settings')} />
     </View>
   );
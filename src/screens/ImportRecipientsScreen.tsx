@@ -0,0 +1,333 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import * as api from '../services/api';
+import { ImportRecipientsResult, ImportRowStatus, RecipientRow } from '../types/api';
+import { MAX_IMPORT_ROWS, parseRecipients, toRecipientCsv } from '../utils/recipientImport';
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'Will be asked',
+  pending: 'Already asked',
+  existing: 'Already added',
+  declined: 'Declined',
+  duplicate: 'Duplicate',
+  unknown_user: 'No account yet',
+  invalid: 'Invalid',
+};
+
+const STATUS_COLORS: Record<ImportRowStatus, string> = {
+  new: '#4CAF50',
+  pending: '#9C27B0',
+  existing: '#2196F3',
+  declined: '#999',
+  duplicate: '#999',
+  unknown_user: '#ff9800',
+  invalid: '#f44336',
+};
+
+/**
+ * Bulk ask receivers from pasted CSV or JSON, previewed with a dry run
+ * first, and export the current list as CSV. Receivers join the list, and
+ * their groups, once they approve.
+ */
+export default function ImportRecipientsScreen() {
+  const auth = useSelector((state: any) => state.auth);
+
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<RecipientRow[] | null>(null);
+  const [preview, setPreview] = useState<ImportRecipientsResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function changeText(value: string) {
+    setText(value);
+    // A preview only stands for the text it was made from
+    setRows(null);
+    setPreview(null);
+  }
+
+  async function previewImport() {
+    setError(null);
+    let parsed: RecipientRow[];
+    try {
+      parsed = parseRecipients(text);
+    } catch (error: any) {
+      setError(error.message);
+      return;
+    }
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      setError(`At most ${MAX_IMPORT_ROWS} rows per import; split the list and import each part`);
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      setPreview(await api.importRecipients(auth.uid, parsed, true));
+      setRows(parsed);
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      setError('Failed to preview import');
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function runImport() {
+    if (!rows) return;
+    setIsWorking(true);
+    try {
+      const result = await api.importRecipients(auth.uid, rows);
+      Alert.alert(
+        'Import Complete',
+        `Asked ${result.requested} receiver(s) to subscribe` +
+          (result.groupsCreated.length > 0 ? ` and created ${result.groupsCreated.join(', ')}` : '')
+      );
+      setText('');
+      setRows(null);
+      setPreview(null);
+    } catch (error) {
+      console.error('Error importing recipients:', error);
+      setError('Failed to import recipients');
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function exportList() {
+    try {
+      const exported = await api.exportRecipients(auth.uid);
+      await Share.share({ title: 'Recipients', message: toRecipientCsv(exported.rows) });
+    } catch (error) {
+      console.error('Error exporting recipients:', error);
+      Alert.alert('Error', 'Failed to export recipients');
+    }
+  }
+
+  const count = (status: ImportRowStatus) => preview?.rows.filter((r) => r.status === status).length ?? 0;
+  const canImport = !!preview && (preview.requested > 0 || count('existing') > 0 || count('pending') > 0);
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>📥 Import Recipients</Text>
+
+      <Text style={styles.hint}>
+        Paste CSV with an "email,name,group" header, or JSON. Receivers are matched to accounts by
+        email; they need to have registered first. New receivers are sent a request and join once they
+        approve.
+      </Text>
+
+      <TextInput
+        style={styles.input}
+        multiline
+        placeholder={'email,name,group\namina@example.com,Amina,Family'}
+        value={text}
+        onChangeText={changeText}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, styles.previewButton]}
+        onPress={previewImport}
+        disabled={isWorking || !text.trim()}
+      >
+        {isWorking && !preview ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.buttonText}>Preview</Text>
+        )}
+      </TouchableOpacity>
+
+      {preview && (
+        <>
+          <View style={styles.summary}>
+            <Text style={styles.summaryText}>
+              {preview.requested} to ask · {count('pending')} already asked · {count('existing')} already
+              added · {count('unknown_user')} without an account ·{' '}
+              {count('declined') + count('invalid') + count('duplicate')} skipped
+            </Text>
+            {preview.groupsCreated.length > 0 && (
+              <Text style={styles.summaryMeta}>New groups: {preview.groupsCreated.join(', ')}</Text>
+            )}
+          </View>
+
+          {preview.rows.map((row) => (
+            <View key={row.row} style={[styles.row, { borderLeftColor: STATUS_COLORS[row.status] }]}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowName}>
+                  {row.row}. {row.name || row.email || '—'}
+                </Text>
+                <Text style={styles.rowMeta}>
+                  {row.email}
+                  {row.group && ` · ${row.group}`}
+                </Text>
+                {row.message && <Text style={styles.rowMessage}>{row.message}</Text>}
+              </View>
+              <Text style={[styles.rowStatus, { color: STATUS_COLORS[row.status] }]}>
+                {STATUS_LABELS[row.status]}
+              </Text>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.button, styles.importButton, !canImport && styles.buttonDisabled]}
+            onPress={runImport}
+            disabled={isWorking || !canImport}
+          >
+            {isWorking ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Import</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+
+      <TouchableOpacity style={styles.exportButton} onPress={exportList}>
+        <Text style={styles.exportButtonText}>📤 Export Current List (CSV)</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    minHeight: 140,
+    textAlignVertical: 'top',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 12,
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  previewButton: {
+    backgroundColor: '#2196F3',
+  },
+  importButton: {
+    backgroundColor: '#4CAF50',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summary: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#7e57c2',
+  },
+  summaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  summaryMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  rowMessage: {
+    fontSize: 13,
+    color: '#c62828',
+    marginTop: 2,
+  },
+  rowStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  exportButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  exportButtonText: {
+    color: '#2196F3',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
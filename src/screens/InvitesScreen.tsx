@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+import QRCode from 'react-native-qrcode-svg';
+
+import * as api from '../services/api';
+import { Invite } from '../types/api';
+import { INVITE_STATUS_LABELS, describeInvite, inviteLink } from '../utils/invites';
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const USE_OPTIONS: { label: string; maxUses: number | null }[] = [
+  { label: 'Unlimited', maxUses: null },
+  { label: '1', maxUses: 1 },
+  { label: '10', maxUses: 10 },
+  { label: '100', maxUses: 100 },
+];
+
+/**
+ * Invite codes receivers redeem to subscribe themselves, shown as a code, a
+ * link and a QR code. Revoking one keeps the receivers who already used it.
+ */
+export default function InvitesScreen() {
+  const auth = useSelector((state: any) => state.auth);
+
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [shownCode, setShownCode] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInvites();
+  }, []);
+
+  async function loadInvites() {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setInvites(await api.getInvites(auth.uid));
+    } catch (error) {
+      console.error('Error loading invites:', error);
+      setError('Failed to load invites');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function createInvite() {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const invite = await api.createInvite(auth.uid, {
+        ...(expiryDays !== null && {
+          expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+        }),
+        ...(maxUses !== null && { maxUses }),
+      });
+      setInvites((prev) => [invite, ...prev]);
+      setShownCode(invite.code);
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      setError('Failed to create invite');
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function shareInvite(invite: Invite) {
+    try {
+      await Share.share({
+        title: 'MyAzan invite',
+        message: `Listen to my broadcasts on MyAzan: open ${inviteLink(invite.code)} or enter the code ${invite.code}.`,
+      });
+    } catch (error) {
+      console.error('Error sharing invite:', error);
+    }
+  }
+
+  function revokeInvite(invite: Invite) {
+    Alert.alert('Revoke Invite', `Nobody else will be able to use ${invite.code}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await api.revokeInvite(auth.uid, invite.code);
+            setInvites((prev) => prev.filter((i) => i.code !== invite.code));
+          } catch (error) {
+            console.error('Error revoking invite:', error);
+            Alert.alert('Error', 'Failed to revoke invite');
+          }
+        },
+      },
+    ]);
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>🔗 Invites</Text>
+
+      <Text style={styles.hint}>
+        Receivers who enter the code, open the link or scan the QR code with their camera are added to
+        your recipients without a separate request to approve.
+      </Text>
+
+      <Text style={styles.sectionTitle}>Expires after</Text>
+      <View style={styles.chipRow}>
+        {EXPIRY_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, expiryDays === option.days && styles.chipActive]}
+            onPress={() => setExpiryDays(option.days)}
+          >
+            <Text style={[styles.chipText, expiryDays === option.days && styles.chipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Uses</Text>
+      <View style={styles.chipRow}>
+        {USE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, maxUses === option.maxUses && styles.chipActive]}
+            onPress={() => setMaxUses(option.maxUses)}
+          >
+            <Text style={[styles.chipText, maxUses === option.maxUses && styles.chipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.createButton} onPress={createInvite} disabled={isCreating}>
+        {isCreating ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.createButtonText}>Create Invite</Text>
+        )}
+      </TouchableOpacity>
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator color="#2196F3" />
+      ) : invites.length === 0 ? (
+        <Text style={styles.emptyText}>No invites yet</Text>
+      ) : (
+        invites.map((invite) => (
+          <View key={invite.code} style={[styles.item, invite.status !== 'active' && styles.itemInactive]}>
+            <TouchableOpacity
+              style={styles.itemHeader}
+              onPress={() => setShownCode(shownCode === invite.code ? null : invite.code)}
+            >
+              <Text style={styles.code}>{invite.code}</Text>
+              <Text style={styles.status}>{INVITE_STATUS_LABELS[invite.status]}</Text>
+            </TouchableOpacity>
+            <Text style={styles.meta}>{describeInvite(invite)}</Text>
+
+            {shownCode === invite.code && invite.status === 'active' && (
+              <View style={styles.qr}>
+                <QRCode value={inviteLink(invite.code)} size={180} />
+                <Text style={styles.link}>{inviteLink(invite.code)}</Text>
+              </View>
+            )}
+
+            <View style={styles.actions}>
+              {invite.status === 'active' && (
+                <TouchableOpacity onPress={() => shareInvite(invite)}>
+                  <Text style={styles.actionText}>Share</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => revokeInvite(invite)}>
+                <Text style={[styles.actionText, styles.revokeText]}>Revoke</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+  },
+  chipActive: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  createButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    padding: 20,
+  },
+  item: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  itemInactive: {
+    opacity: 0.6,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  code: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+    color: '#333',
+  },
+  status: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  qr: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  link: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 8,
+  },
+  actionText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  revokeText: {
+    color: '#f44336',
+  },
+});
@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+
+import * as api from '../services/api';
+import { InvitePreview } from '../types/api';
+import { parseInviteCode } from '../utils/invites';
+
+const UNAVAILABLE: Record<Exclude<InvitePreview['status'], 'active'>, string> = {
+  expired: 'This invite has expired. Ask the sender for a new one.',
+  used_up: 'This invite has been used up. Ask the sender for a new one.',
+};
+
+/**
+ * Subscribe to a sender with an invite code. Invite links and scanned QR
+ * codes open this screen with `route.params.code` filled in; the receiver
+ * still confirms who they are subscribing to.
+ */
+export default function JoinInviteScreen({ navigation, route }: any) {
+  const [text, setText] = useState<string>(route?.params?.code ?? '');
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (route?.params?.code) {
+      lookUp(route.params.code);
+    }
+  }, [route?.params?.code]);
+
+  function changeText(value: string) {
+    setText(value);
+    setPreview(null);
+    setError(null);
+  }
+
+  async function lookUp(input = text) {
+    const code = parseInviteCode(input);
+    if (!code) {
+      setError('Enter the 8-character code or paste the invite link');
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      setPreview(await api.getInvite(code));
+    } catch (error) {
+      if (api.isApiError(error, 'not_found')) {
+        setError('No invite with this code. It may have been revoked.');
+      } else {
+        console.error('Error looking up invite:', error);
+        setError('Failed to look up invite');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function accept() {
+    if (!preview) return;
+    setIsWorking(true);
+    try {
+      const result = await api.acceptInvite(preview.code);
+      Alert.alert(
+        'Subscribed',
+        result.alreadySubscribed
+          ? `You already follow ${result.senderName}.`
+          : `You will now hear broadcasts from ${result.senderName}.`,
+        [{ text: 'OK', onPress: () => navigation.navigate('ReceiverDashboard') }]
+      );
+    } catch (error) {
+      if (api.isApiError(error, 'conflict') || api.isApiError(error, 'not_found')) {
+        setError(error.message);
+      } else {
+        console.error('Error accepting invite:', error);
+        setError('Failed to accept invite');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>🔗 Join with Invite</Text>
+
+      <Text style={styles.hint}>
+        Enter the code a sender gave you, or paste their invite link. To use a QR code, scan it with
+        your phone's camera.
+      </Text>
+
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. K7QM4XPA"
+        value={text}
+        onChangeText={changeText}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        onSubmitEditing={() => lookUp()}
+      />
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {!preview ? (
+        <TouchableOpacity
+          style={[styles.button, styles.lookUpButton]}
+          onPress={() => lookUp()}
+          disabled={isWorking || !text.trim()}
+        >
+          {isWorking ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Look Up</Text>}
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.preview}>
+          <Text style={styles.senderName}>🎤 {preview.senderName}</Text>
+          {preview.status === 'active' ? (
+            <>
+              {preview.expiresAt && (
+                <Text style={styles.meta}>
+                  Valid until {new Date(preview.expiresAt).toLocaleString()}
+                </Text>
+              )}
+              <TouchableOpacity
+                style={[styles.button, styles.acceptButton]}
+                onPress={accept}
+                disabled={isWorking}
+              >
+                {isWorking ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>Subscribe</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <Text style={styles.unavailable}>{UNAVAILABLE[preview.status]}</Text>
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 18,
+    letterSpacing: 2,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 12,
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  lookUpButton: {
+    backgroundColor: '#2196F3',
+  },
+  acceptButton: {
+    backgroundColor: '#4CAF50',
+    marginTop: 16,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  preview: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#2196F3',
+  },
+  senderName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  unavailable: {
+    fontSize: 14,
+    color: '#c62828',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+});
@@ -8,12 +8,18 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { useSelector } from 'react-redux';
-import { RtcEngine, ChannelProfile, ClientRole } from 'react-native-agora';
+import { useDispatch, useSelector } from 'react-redux';
 
+import { setConnectionStatus, setParticipants } from '../store/slices/sessionSlice';
+import { AudioEngine, createAudioEngine } from '../services/audioEngine';
 import { FirebaseListenerService } from '../services/firebaseListener';
-import { TokenRefreshManager } from '../utils/tokenRefresh';
+import { ListenerAnalytics } from '../services/listenerAnalytics';
+import { ListenerPresence } from '../services/listenerPresence';
+import { TokenRefreshManager, getTokenWarning } from '../utils/tokenRefresh';
+import { ConnectionMonitor, getConnectionLabel } from '../utils/connectionState';
 import * as api from '../services/api';
+import PrayerTimetable from '../components/PrayerTimetable';
+import UpcomingBroadcasts from '../components/UpcomingBroadcasts';
 
 interface ActiveAnnouncement {
   sessionId: string;
@@ -22,21 +28,41 @@ interface ActiveAnnouncement {
   senderName: string;
   isJoined: boolean;
   duration: number;
+  tokenWarning?: string | null;
+  /** Whether the sender is in the audio channel; unknown until Agora reports it. */
+  senderInChannel?: boolean;
 }
 
-export default function ReceiverDashboard() {
+interface JoinedChannel {
+  sessionId: string;
+  channelName: string;
+  uid: number;
+}
+
+export default function ReceiverDashboard({ navigation }: any) {
+  const dispatch = useDispatch();
   const auth = useSelector((state: any) => state.auth);
+  const session = useSelector((state: any) => state.session);
 
   const [activeAnnouncements, setActiveAnnouncements] = useState<
     ActiveAnnouncement[]
   >([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [followedSenderIds, setFollowedSenderIds] = useState<string[]>([]);
+  const [isEngineReady, setIsEngineReady] = useState(false);
+  const [rejoinAttempt, setRejoinAttempt] = useState(0);
 
-  const engineRef = useRef<any>(null);
+  const engineRef = useRef<AudioEngine | null>(null);
   const listenerServiceRef = useRef<FirebaseListenerService | null>(null);
   const tokenRefreshRefs = useRef<Map<string, TokenRefreshManager>>(new Map());
   const durationIntervalsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const connectionMonitorRef = useRef<ConnectionMonitor>(new ConnectionMonitor());
+  const presenceRef = useRef<ListenerPresence | null>(null);
+  // Channel the engine is in, readable from engine callbacks registered at mount
+  const joinedChannelRef = useRef<JoinedChannel | null>(null);
+  // Firebase uids of the remote Agora uids in the joined channel
+  const remoteUsersRef = useRef<Map<number, string>>(new Map());
 
   // Initialize Agora engine
   useEffect(() => {
@@ -48,7 +74,7 @@ export default function ReceiverDashboard() {
 
   // Setup Firestore listeners
   useEffect(() => {
-    if (!engineRef.current || !auth.user) {
+    if (!isEngineReady || !auth.uid) {
       return;
     }
 
@@ -56,7 +82,7 @@ export default function ReceiverDashboard() {
     return () => {
       listenerServiceRef.current?.stopListening();
     };
-  }, [engineRef.current, auth.user?.uid]);
+  }, [isEngineReady, auth.uid]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -67,37 +93,50 @@ export default function ReceiverDashboard() {
       );
       durationIntervalsRef.current.clear();
 
-      // Cleanup all token refresh managers
-      tokenRefreshRefs.current.forEach((manager) => manager.cleanup());
+      // Cleanup all token refresh managers; each one is a joined session
+      tokenRefreshRefs.current.forEach((manager, sessionId) => {
+        ListenerAnalytics.recordEvent(sessionId, auth.uid, 'leave');
+        manager.cleanup();
+      });
       tokenRefreshRefs.current.clear();
+      presenceRef.current?.leaveAll();
     };
   }, []);
 
   async function initializeAgoraEngine() {
     try {
-      const engine = await RtcEngine.create(
-        process.env.REACT_APP_AGORA_APP_ID || ''
-      );
-
-      await engine.enableAudio();
-      await engine.setChannelProfile(ChannelProfile.Communication);
-      await engine.setClientRole(ClientRole.Audience);
-
-      // Add event listeners
-      engine.addListener('UserJoined', (uid: number) => {
-        console.log(`Speaker ${uid} joined`);
+      const engine = createAudioEngine();
+      await engine.create();
+      await engine.setRole('audience');
+
+      // Connection state and speaker count feed the session slice
+      const monitor = connectionMonitorRef.current;
+      monitor.onStatusChange((status, attempt) => {
+        dispatch(setConnectionStatus(status));
+        setRejoinAttempt(attempt);
       });
+      monitor.onParticipantsChange((count) => {
+        dispatch(setParticipants(count));
+      });
+      monitor.attach(engine, rejoinChannel);
 
-      engine.addListener('UserOffline', (uid: number) => {
-        console.log(`Speaker ${uid} left`);
+      // Agora reports remote users by numeric uid only
+      engine.on('userJoined', (agoraUid) => {
+        resolveRemoteUser(agoraUid);
+      });
+      engine.on('userLeft', (agoraUid) => {
+        const uid = remoteUsersRef.current.get(agoraUid);
+        remoteUsersRef.current.delete(agoraUid);
+        if (uid) markSenderInChannel(uid, false);
       });
 
-      engine.addListener('Error', (err: any) => {
+      engine.on('error', (err) => {
         console.error('Agora error:', err);
         setError(`Audio error: ${JSON.stringify(err)}`);
       });
 
       engineRef.current = engine;
+      setIsEngineReady(true);
       console.log('Agora engine initialized');
     } catch (error) {
       console.error('Failed to initialize Agora:', error);
@@ -105,12 +144,70 @@ export default function ReceiverDashboard() {
     }
   }
 
+  /**
+   * Join the current channel again with a fresh token after the connection was lost.
+   */
+  async function rejoinChannel() {
+    const engine = engineRef.current;
+    const joined = joinedChannelRef.current;
+    if (!engine || !joined) {
+      throw new Error('Not listening to a broadcast');
+    }
+
+    const { token, expiresAt } = await api.generateAgoraToken(
+      joined.channelName,
+      'audience',
+      joined.uid
+    );
+    await engine.leave();
+    await engine.join(token, joined.channelName, joined.uid);
+    tokenRefreshRefs.current
+      .get(joined.sessionId)
+      ?.initialize(engine, joined.channelName, joined.uid, 'audience', expiresAt);
+  }
+
+  /**
+   * Forget the joined channel if it belongs to this session.
+   */
+  function releaseJoinedChannel(sessionId: string) {
+    if (joinedChannelRef.current?.sessionId !== sessionId) return;
+    joinedChannelRef.current = null;
+    remoteUsersRef.current.clear();
+    connectionMonitorRef.current.left();
+  }
+
+  /**
+   * Find out which user a remote Agora uid belongs to, and whether it is the
+   * sender of the broadcast we are listening to.
+   */
+  async function resolveRemoteUser(agoraUid: number) {
+    try {
+      const { uid } = await api.resolveAgoraUid(agoraUid);
+      if (!joinedChannelRef.current) return;
+      remoteUsersRef.current.set(agoraUid, uid);
+      markSenderInChannel(uid, true);
+    } catch (error) {
+      console.error(`Error resolving Agora uid ${agoraUid}:`, error);
+    }
+  }
+
+  function markSenderInChannel(uid: string, inChannel: boolean) {
+    const sessionId = joinedChannelRef.current?.sessionId;
+    setActiveAnnouncements((prev) =>
+      prev.map((a) =>
+        a.sessionId === sessionId && a.senderId === uid ? { ...a, senderInChannel: inChannel } : a
+      )
+    );
+  }
+
   async function setupFirestoreListeners() {
     try {
-      const sendersMapping = await api
-        .getMapping(auth.user.uid)
+      // Senders this receiver is mapped to (reverse index of sender mappings)
+      const subscriptions = await api
+        .getSubscriptions(auth.uid)
         .catch(() => null);
-      const receivesFromSenderIds = sendersMapping?.receivers || [];
+      const receivesFromSenderIds: string[] = subscriptions?.senderIds || [];
+      setFollowedSenderIds(receivesFromSenderIds);
 
       listenerServiceRef.current = new FirebaseListenerService();
       listenerServiceRef.current.startListening(
@@ -121,13 +218,20 @@ export default function ReceiverDashboard() {
           onAnnouncementEnded: (sessionId, channelName) => {
             handleAnnouncementEnded(sessionId, channelName);
           },
+          onSenderLost: (sessionId) => {
+            console.warn('Sender lost:', sessionId);
+            setError('Lost contact with the broadcaster');
+          },
+          onSubscriptionsChanged: (senderIds) => {
+            setFollowedSenderIds(senderIds);
+          },
           onError: (error) => {
             console.error('Listener error:', error);
             setError('Listener error occurred');
           },
         },
         'receiver',
-        auth.user.uid,
+        auth.uid,
         receivesFromSenderIds
       );
     } catch (error) {
@@ -171,28 +275,48 @@ export default function ReceiverDashboard() {
     try {
       setIsLoading(true);
 
-      // Generate token as audience
-      const { token } = await api.generateAgoraToken(
+      // Generate token as audience, bound to our allocated Agora uid
+      const { token, expiresAt, uid } = await api.generateAgoraToken(
         announcement.channelName,
-        auth.user.uid,
         'audience'
       );
 
       // Join channel
-      await engineRef.current.joinChannel(
-        token,
-        announcement.channelName,
-        null,
-        auth.user.uid
-      );
+      connectionMonitorRef.current.joining();
+      try {
+        await engineRef.current.join(token, announcement.channelName, uid);
+      } catch (joinError) {
+        connectionMonitorRef.current.left();
+        throw joinError;
+      }
+      joinedChannelRef.current = {
+        sessionId: announcement.sessionId,
+        channelName: announcement.channelName,
+        uid,
+      };
+      ListenerAnalytics.recordEvent(announcement.sessionId, auth.uid, 'join');
+      if (!presenceRef.current) {
+        presenceRef.current = new ListenerPresence(auth.uid);
+      }
+      presenceRef.current.join(announcement.sessionId);
 
       // Setup token refresh
       const tokenRefreshManager = new TokenRefreshManager();
+      tokenRefreshManager.onStatusChange((event) => {
+        setActiveAnnouncements((prev) =>
+          prev.map((a) =>
+            a.sessionId === announcement.sessionId
+              ? { ...a, tokenWarning: getTokenWarning(event) }
+              : a
+          )
+        );
+      });
       tokenRefreshManager.initialize(
         engineRef.current,
         announcement.channelName,
-        auth.user.uid,
-        'audience'
+        uid,
+        'audience',
+        expiresAt
       );
       tokenRefreshRefs.current.set(announcement.sessionId, tokenRefreshManager);
 
@@ -235,14 +359,22 @@ export default function ReceiverDashboard() {
     try {
       console.log('Announcement ended:', channelName);
 
-      // Leave channel
-      if (engineRef.current) {
-        await engineRef.current.leaveChannel();
+      // Leave the channel only if it is the one that ended; another broadcast
+      // may be playing
+      const joined = joinedChannelRef.current;
+      const wasJoined = joined?.sessionId === sessionId && joined.channelName === channelName;
+      releaseJoinedChannel(sessionId);
+      if (wasJoined && engineRef.current) {
+        await engineRef.current.leave();
       }
 
       // Cleanup token refresh
       const tokenRefresh = tokenRefreshRefs.current.get(sessionId);
-      tokenRefresh?.cleanup();
+      if (tokenRefresh) {
+        ListenerAnalytics.recordEvent(sessionId, auth.uid, 'leave');
+        presenceRef.current?.leave(sessionId);
+        tokenRefresh.cleanup();
+      }
       tokenRefreshRefs.current.delete(sessionId);
 
       // Cleanup duration timer
@@ -265,7 +397,10 @@ export default function ReceiverDashboard() {
     try {
       if (!engineRef.current) return;
 
-      await engineRef.current.leaveChannel();
+      releaseJoinedChannel(sessionId);
+      await engineRef.current.leave();
+      ListenerAnalytics.recordEvent(sessionId, auth.uid, 'leave');
+      presenceRef.current?.leave(sessionId);
 
       // Cleanup
       const tokenRefresh = tokenRefreshRefs.current.get(sessionId);
@@ -293,6 +428,7 @@ export default function ReceiverDashboard() {
       clearInterval(interval)
     );
     tokenRefreshRefs.current.forEach((manager) => manager.cleanup());
+    connectionMonitorRef.current.detach();
 
     if (engineRef.current) {
       await engineRef.current.destroy();
@@ -310,6 +446,10 @@ export default function ReceiverDashboard() {
     <View style={styles.container}>
       <Text style={styles.title}>🎧 Receiver Dashboard</Text>
 
+      <PrayerTimetable />
+
+      <UpcomingBroadcasts senderIds={followedSenderIds} />
+
       {error && (
         <View style={styles.errorBox}>
           <Text style={styles.errorText}>{error}</Text>
@@ -345,6 +485,29 @@ export default function ReceiverDashboard() {
 
               <Text style={styles.channelName}>{item.channelName}</Text>
 
+              {item.isJoined && (
+                <Text
+                  style={[
+                    styles.connection,
+                    session.connectionStatus === 'connected'
+                      ? styles.connectionOk
+                      : styles.connectionTrouble,
+                  ]}
+                >
+                  {session.connectionStatus === 'failed'
+                    ? 'Audio connection lost and could not be restored.'
+                    : getConnectionLabel(session.connectionStatus, rejoinAttempt)}
+                </Text>
+              )}
+
+              {item.isJoined && item.senderInChannel === false && (
+                <Text style={styles.warningText}>⚠️ The broadcaster dropped out of the audio</Text>
+              )}
+
+              {item.isJoined && item.tokenWarning && (
+                <Text style={styles.warningText}>⚠️ {item.tokenWarning}</Text>
+              )}
+
               <View style={styles.cardFooter}>
                 <Text style={styles.duration}>
                   ⏱ {formatDuration(item.duration)}
@@ -371,11 +534,18 @@ export default function ReceiverDashboard() {
         />
       )}
 
+      <TouchableOpacity onPress={() => navigation.navigate('JoinInvite')}>
+        <Text style={styles.inviteLink}>🔗 Follow a Sender with an Invite Code</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => navigation.navigate('Subscriptions')}>
+        <Text style={styles.inviteLink}>📬 Sender Requests & Subscriptions</Text>
+      </TouchableOpacity>
+
       {/* Info Box */}
       <View style={styles.infoBox}>
         <Text style={styles.infoTitle}>ℹ️ How it works:</Text>
         <Text style={styles.infoText}>
-          • Auto-joins broadcasts from senders you follow{'\n'}
+          • Auto-joins broadcasts from senders you approved{'\n'}
           • Real-time audio streaming{'\n'}
           • Leave anytime by tapping the button
         </Text>
@@ -409,6 +579,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  warningText: {
+    color: '#e65100',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  connection: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  connectionOk: {
+    color: '#388e3c',
+  },
+  connectionTrouble: {
+    color: '#e65100',
+  },
   emptyBox: {
     flex: 1,
     justifyContent: 'center',
@@ -500,6 +686,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  inviteLink: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+    padding: 12,
+    textAlign: 'center',
+  },
   infoBox: {
     backgroundColor: '#e3f2fd',
     padding: 16,
@@ -11,12 +11,28 @@ import {
   Switch,
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
-import { RtcEngine, ChannelProfile, ClientRole } from 'react-native-agora';
 
-import { setCurrentChannel, setLive } from '../store/slices/sessionSlice';
+import {
+  setConnectionStatus,
+  setCurrentChannel,
+  setLive,
+  setParticipants,
+} from '../store/slices/sessionSlice';
 import * as api from '../services/api';
+import { AudioEngine, createAudioEngine } from '../services/audioEngine';
 import { ChannelManager } from '../services/channelManager';
-import { TokenRefreshManager } from '../utils/tokenRefresh';
+import { TokenRefreshManager, getTokenWarning } from '../utils/tokenRefresh';
+import { SessionHeartbeat } from '../utils/sessionHeartbeat';
+import { ConnectionMonitor, getConnectionLabel } from '../utils/connectionState';
+import { ScheduleManager, ScheduledAnnouncement } from '../services/scheduleManager';
+import { ScheduleReminder, ScheduleReminders } from '../services/scheduleReminders';
+import { ListenerAnalytics, ListenerStats } from '../services/listenerAnalytics';
+import { ListenerPresence, PresenceEntry } from '../services/listenerPresence';
+import { EndedReason, ReceiverGroup, SenderMapping, SubscriptionRequestStatus } from '../types/api';
+import PrayerTimetable from '../components/PrayerTimetable';
+import ScheduleBroadcastForm from '../components/ScheduleBroadcastForm';
+import ListenerStatsCard from '../components/ListenerStatsCard';
+import LiveListeners from '../components/LiveListeners';
 
 interface BroadcastState {
   sessionId: string | null;
@@ -24,22 +40,41 @@ interface BroadcastState {
   isLive: boolean;
   isLoading: boolean;
   error: string | null;
-  participantCount: number;
   duration: number; // seconds
 }
 
+interface LiveSession {
+  sessionId: string;
+  channelName: string;
+  /** Our Agora uid, allocated by the backend. */
+  uid: number;
+  peakListeners: number;
+}
+
 interface ReceiverMapping {
   uid: string;
   name: string;
   email: string;
   role: string;
   selected: boolean;
+  /** Asked but not (yet) in the mapping. */
+  request: SubscriptionRequestStatus | null;
+}
+
+const REQUEST_LABELS: Record<SubscriptionRequestStatus, string> = {
+  pending: 'Awaiting approval',
+  declined: 'Declined',
+};
+
+function requestStatus(mapping: SenderMapping | null, receiverId: string): SubscriptionRequestStatus | null {
+  return mapping?.requests.find((r) => r.receiverId === receiverId)?.status ?? null;
 }
 
-export default function SenderDashboard() {
+export default function SenderDashboard({ navigation }: any) {
   const dispatch = useDispatch();
   const auth = useSelector((state: any) => state.auth);
   const session = useSelector((state: any) => state.session);
+  const prayerSettings = useSelector((state: any) => state.prayerTimes.settings);
 
   const [broadcastState, setBroadcastState] = useState<BroadcastState>({
     sessionId: null,
@@ -47,16 +82,35 @@ export default function SenderDashboard() {
     isLive: false,
     isLoading: false,
     error: null,
-    participantCount: 0,
     duration: 0,
   });
 
   const [receivers, setReceivers] = useState<ReceiverMapping[]>([]);
   const [showReceiverList, setShowReceiverList] = useState(false);
-
-  const engineRef = useRef<any>(null);
+  const [schedules, setSchedules] = useState<ScheduledAnnouncement[]>([]);
+  const [remindedAt, setRemindedAt] = useState(0);
+  const [tokenWarning, setTokenWarning] = useState<string | null>(null);
+  const [rejoinAttempt, setRejoinAttempt] = useState(0);
+  const [lastBroadcast, setLastBroadcast] = useState<{
+    sessionId: string;
+    stats: ListenerStats;
+  } | null>(null);
+  const [listeners, setListeners] = useState<PresenceEntry[]>([]);
+  const [groups, setGroups] = useState<ReceiverGroup[]>([]);
+  /** Groups the next broadcast targets; empty means every selected recipient. */
+  const [targetGroupIds, setTargetGroupIds] = useState<string[]>([]);
+
+  const engineRef = useRef<AudioEngine | null>(null);
   const tokenRefreshRef = useRef<TokenRefreshManager | null>(null);
+  const heartbeatRef = useRef<SessionHeartbeat>(new SessionHeartbeat());
+  const connectionMonitorRef = useRef<ConnectionMonitor>(new ConnectionMonitor());
+  // Session being broadcast, readable from engine callbacks registered at mount
+  const liveSessionRef = useRef<LiveSession | null>(null);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const startBroadcastRef = useRef<(reminder?: ScheduleReminder) => Promise<void>>(
+    async () => {}
+  );
+  const endBroadcastRef = useRef<(reason?: EndedReason) => Promise<void>>(async () => {});
 
   // Initialize Agora engine
   useEffect(() => {
@@ -66,10 +120,68 @@ export default function SenderDashboard() {
     };
   }, []);
 
-  // Load all users and current mappings
+  // A broadcast left live by a crash would keep its lease-lapsed announcement live
+  useEffect(() => {
+    if (!auth.uid) return;
+    ChannelManager.cleanupStaleSessions(auth.uid);
+  }, [auth.uid]);
+
+  // Load all users and current mappings, again after editing groups
   useEffect(() => {
     loadReceiversList();
-  }, [auth.user?.uid]);
+    return navigation.addListener('focus', loadReceiversList);
+  }, [auth.uid, navigation]);
+
+  // Watch this sender's pending schedules
+  useEffect(() => {
+    if (!auth.uid) return;
+    return ScheduleManager.listenToUpcoming([auth.uid], setSchedules);
+  }, [auth.uid]);
+
+  // Remind the muezzin with local notifications, which go off even when the
+  // app is in the background or closed. Schedules already due have had theirs,
+  // so roll them forward; a reminder going off brings us back here.
+  useEffect(() => {
+    const now = Date.now();
+    schedules
+      .filter((schedule) => schedule.scheduledFor.getTime() <= now)
+      .forEach((schedule) => ScheduleManager.completeSchedule(schedule, prayerSettings));
+    ScheduleReminders.sync(schedules, now);
+  }, [schedules, prayerSettings, remindedAt]);
+
+  useEffect(() => {
+    ScheduleReminders.setup();
+    return ScheduleReminders.listen((reminder, action) => {
+      setRemindedAt(Date.now());
+      if (action === 'start') {
+        startBroadcastRef.current(reminder);
+      } else if (action === 'opened') {
+        Alert.alert('Scheduled Broadcast', `"${reminder.title}" is due now.`, [
+          { text: 'Dismiss', style: 'cancel' },
+          { text: 'Start Broadcast', onPress: () => startBroadcastRef.current(reminder) },
+        ]);
+      }
+    });
+  }, []);
+
+  // Receivers' presence documents are the listener list and count
+  useEffect(() => {
+    const sessionId = broadcastState.sessionId;
+    if (!sessionId) {
+      setListeners([]);
+      return;
+    }
+
+    return ListenerPresence.listen(sessionId, (entries) => {
+      setListeners(entries);
+      dispatch(setParticipants(entries.length));
+      const live = liveSessionRef.current;
+      if (live?.sessionId === sessionId && entries.length > live.peakListeners) {
+        live.peakListeners = entries.length;
+        ChannelManager.recordPeakListeners(sessionId, entries.length);
+      }
+    });
+  }, [broadcastState.sessionId]);
 
   // Duration timer
   useEffect(() => {
@@ -95,32 +207,24 @@ export default function SenderDashboard() {
 
   async function initializeAgoraEngine() {
     try {
-      const engine = await RtcEngine.create(
-        process.env.REACT_APP_AGORA_APP_ID || ''
-      );
-
-      await engine.enableAudio();
-      await engine.setChannelProfile(ChannelProfile.Communication);
-      await engine.setClientRole(ClientRole.Broadcaster);
-
-      // Add event listeners
-      engine.addListener('UserJoined', (uid: number) => {
-        console.log(`User ${uid} joined`);
-        setBroadcastState((prev) => ({
-          ...prev,
-          participantCount: prev.participantCount + 1,
-        }));
+      const engine = createAudioEngine();
+      await engine.create();
+      await engine.setRole('publisher');
+
+      // Connection state feeds the session slice. Agora's user events do not
+      // reliably cover the audience, so the listener count comes from presence.
+      const monitor = connectionMonitorRef.current;
+      monitor.onStatusChange((status, attempt) => {
+        dispatch(setConnectionStatus(status));
+        setRejoinAttempt(attempt);
+        if (status === 'failed' && liveSessionRef.current) {
+          // Rejoining gave up; end the session rather than leave receivers waiting
+          endBroadcastRef.current('timeout');
+        }
       });
+      monitor.attach(engine, rejoinBroadcast);
 
-      engine.addListener('UserOffline', (uid: number) => {
-        console.log(`User ${uid} left`);
-        setBroadcastState((prev) => ({
-          ...prev,
-          participantCount: Math.max(0, prev.participantCount - 1),
-        }));
-      });
-
-      engine.addListener('Error', (err: any) => {
+      engine.on('error', (err) => {
         console.error('Agora error:', err);
         setBroadcastState((prev) => ({
           ...prev,
@@ -139,25 +243,51 @@ export default function SenderDashboard() {
     }
   }
 
+  /**
+   * Join the live channel again with a fresh token after the connection was lost.
+   */
+  async function rejoinBroadcast() {
+    const engine = engineRef.current;
+    const live = liveSessionRef.current;
+    if (!engine || !live) {
+      throw new Error('Not broadcasting');
+    }
+
+    const { token, expiresAt } = await api.generateAgoraToken(live.channelName, 'publisher', live.uid);
+    await engine.leave();
+    await engine.join(token, live.channelName, live.uid);
+    tokenRefreshRef.current?.initialize(engine, live.channelName, live.uid, 'publisher', expiresAt);
+  }
+
   async function loadReceiversList() {
     try {
       const users = await api.getAllUsers();
 
       // Filter out self and get mapping
-      const currentMapping = await api.getMapping(auth.user.uid).catch(() => null);
+      // A sender without a mapping yet has no receivers selected
+      const currentMapping = await api.getMapping(auth.uid).catch((error) => {
+        if (api.isApiError(error, 'not_found')) return null;
+        throw error;
+      });
       const currentReceiverIds = currentMapping?.receivers || [];
 
       const receiverList: ReceiverMapping[] = users
-        .filter((u: any) => u.uid !== auth.user.uid)
-        .map((u: any) => ({
+        .filter((u) => u.uid !== auth.uid)
+        .map((u) => ({
           uid: u.uid,
           name: u.name,
           email: u.email,
           role: u.role,
           selected: currentReceiverIds.includes(u.uid),
+          request: requestStatus(currentMapping, u.uid),
         }));
 
       setReceivers(receiverList);
+      const currentGroups = currentMapping?.groups || [];
+      setGroups(currentGroups);
+      setTargetGroupIds((prev) =>
+        prev.filter((groupId) => currentGroups.some((g) => g.groupId === groupId))
+      );
     } catch (error) {
       console.error('Error loading receivers:', error);
       setBroadcastState((prev) => ({
@@ -172,28 +302,39 @@ export default function SenderDashboard() {
       const receiver = receivers.find((r) => r.uid === receiverId);
       if (!receiver) return;
 
-      if (receiver.selected) {
-        // Remove from mapping
-        await api.removeReceiverFromMapping(auth.user.uid, receiverId);
-      } else {
-        // Add to mapping
-        await api.addReceiverToMapping(auth.user.uid, receiverId);
-      }
+      // Removing also withdraws a pending request; adding only asks the receiver
+      const mapping =
+        receiver.selected || receiver.request === 'pending'
+          ? await api.removeReceiverFromMapping(auth.uid, receiverId)
+          : await api.addReceiverToMapping(auth.uid, receiverId);
 
       // Update local state
       setReceivers((prev) =>
         prev.map((r) =>
-          r.uid === receiverId ? { ...r, selected: !r.selected } : r
+          r.uid === receiverId
+            ? {
+                ...r,
+                selected: mapping.receivers.includes(receiverId),
+                request: requestStatus(mapping, receiverId),
+              }
+            : r
         )
       );
     } catch (error) {
+      if (api.isApiError(error, 'conflict')) {
+        Alert.alert('Declined', 'This receiver declined. They can still join with an invite.');
+        return;
+      }
       console.error('Error updating receiver:', error);
       Alert.alert('Error', 'Failed to update receiver');
     }
   }
 
-  async function startBroadcast() {
-    if (!engineRef.current || !auth.user) {
+  /**
+   * Go live, optionally for a schedule whose reminder just went off.
+   */
+  async function startBroadcast(reminder?: ScheduleReminder) {
+    if (!engineRef.current || !auth.uid) {
       Alert.alert('Error', 'Not ready to broadcast');
       return;
     }
@@ -201,45 +342,80 @@ export default function SenderDashboard() {
     setBroadcastState((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      const sessionId = `${auth.user.uid}_${Date.now()}`;
-      const channelName = ChannelManager.generateChannelName(auth.user.uid);
+      const sessionId = `${auth.uid}_${Date.now()}`;
+      const channelName = ChannelManager.generateChannelName(auth.uid);
 
-      // Check collision
-      const activeExists = await ChannelManager.checkActiveSession(channelName);
-      if (activeExists) {
+      // Resolve the target groups to receivers now; later group edits do not change this broadcast
+      const { receiverIds } = await api.resolveRecipients(
+        auth.uid,
+        targetGroupIds.length > 0 ? targetGroupIds : undefined
+      );
+      if (targetGroupIds.length > 0 && receiverIds.length === 0) {
         setBroadcastState((prev) => ({
           ...prev,
-          error: 'A broadcast is already active. End it first.',
+          error: 'The selected groups have no recipients.',
           isLoading: false,
         }));
         return;
       }
 
-      // Get Agora token
-      const { token, expiresAt } = await api.generateAgoraToken(
-        channelName,
-        0,
-        'publisher'
-      );
+      // Get Agora token, bound to our allocated Agora uid
+      const { token, expiresAt, uid } = await api.generateAgoraToken(channelName, 'publisher');
 
-      // Create announcement
-      await api.createAnnouncement(
+      // Atomically claim the channel and create the announcement
+      const result = await ChannelManager.startSession(
         sessionId,
+        auth.uid,
         channelName,
-        token,
-        expiresAt
+        expiresAt ? new Date(expiresAt) : undefined,
+        {
+          title: reminder?.title ?? null,
+          prayer: reminder?.prayer ?? null,
+          mappedReceiverIds: receiverIds,
+        }
       );
+      if (result.status !== 'created') {
+        setBroadcastState((prev) => ({
+          ...prev,
+          error:
+            result.status === 'collision'
+              ? 'A broadcast is already active. End it first.'
+              : `Could not start broadcast: ${result.error.message}`,
+          isLoading: false,
+        }));
+        return;
+      }
 
-      // Join channel
-      await engineRef.current.joinChannel(token, channelName, null, 0);
+      // Join channel, releasing the session if audio fails to connect
+      connectionMonitorRef.current.joining();
+      try {
+        await engineRef.current.join(token, channelName, uid);
+      } catch (joinError) {
+        connectionMonitorRef.current.left();
+        await ChannelManager.endSession(sessionId);
+        throw joinError;
+      }
+      liveSessionRef.current = { sessionId, channelName, uid, peakListeners: 0 };
+
+      // Keep the session leased so receivers know we're still here
+      heartbeatRef.current.start(sessionId, () => {
+        setBroadcastState((prev) => ({
+          ...prev,
+          error: 'Lost connection to the server. Listeners may have been disconnected.',
+        }));
+      });
 
       // Setup token refresh
       tokenRefreshRef.current = new TokenRefreshManager();
+      tokenRefreshRef.current.onStatusChange((event) => {
+        setTokenWarning(getTokenWarning(event));
+      });
       tokenRefreshRef.current.initialize(
         engineRef.current,
         channelName,
-        0,
-        'publisher'
+        uid,
+        'publisher',
+        expiresAt
       );
 
       // Update state
@@ -251,7 +427,6 @@ export default function SenderDashboard() {
         isLoading: false,
         error: null,
         duration: 0,
-        participantCount: 0,
       }));
 
       dispatch(setCurrentChannel(channelName));
@@ -268,7 +443,13 @@ export default function SenderDashboard() {
     }
   }
 
-  async function endBroadcast() {
+  startBroadcastRef.current = startBroadcast;
+
+  /**
+   * Stop broadcasting.
+   * @param reason `timeout` when ended because the connection could not be restored
+   */
+  async function endBroadcast(reason: EndedReason = 'manual') {
     if (!engineRef.current || !broadcastState.sessionId) {
       return;
     }
@@ -276,14 +457,23 @@ export default function SenderDashboard() {
     setBroadcastState((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      // Update announcement
-      await api.endAnnouncement(broadcastState.sessionId);
+      // End announcement and release the channel lock
+      const sessionId = broadcastState.sessionId;
+      const ended = await ChannelManager.endSession(sessionId, reason);
+      if (!ended) {
+        // Still live, so keep the lease renewed until ending succeeds
+        throw new Error('Could not end the session. The broadcast is still live, please try again.');
+      }
+      heartbeatRef.current.stop();
 
       // Leave channel
-      await engineRef.current.leaveChannel();
+      liveSessionRef.current = null;
+      connectionMonitorRef.current.left();
+      await engineRef.current.leave();
 
       // Cleanup token refresh
       tokenRefreshRef.current?.cleanup();
+      setTokenWarning(null);
 
       // Update state
       setBroadcastState((prev) => ({
@@ -293,13 +483,22 @@ export default function SenderDashboard() {
         isLive: false,
         isLoading: false,
         duration: 0,
-        participantCount: 0,
+        error:
+          reason === 'timeout'
+            ? 'Audio connection could not be restored, so the broadcast was ended.'
+            : prev.error,
       }));
 
       dispatch(setCurrentChannel(null));
       dispatch(setLive(false));
 
-      Alert.alert('Success', 'Broadcast ended');
+      if (reason === 'manual') {
+        Alert.alert('Success', 'Broadcast ended');
+      }
+
+      // Summarize who listened from the receivers' join/leave events
+      const stats = await ListenerAnalytics.summarizeSession(sessionId);
+      setLastBroadcast(stats ? { sessionId, stats } : null);
     } catch (error: any) {
       console.error('Error ending broadcast:', error);
       setBroadcastState((prev) => ({
@@ -310,7 +509,11 @@ export default function SenderDashboard() {
     }
   }
 
+  endBroadcastRef.current = endBroadcast;
+
   async function cleanupAgoraEngine() {
+    heartbeatRef.current.stop();
+    connectionMonitorRef.current.detach();
     if (broadcastState.isLive) {
       await endBroadcast();
     }
@@ -330,6 +533,8 @@ export default function SenderDashboard() {
     <ScrollView style={styles.container}>
       <Text style={styles.title}>📻 Sender Dashboard</Text>
 
+      <PrayerTimetable />
+
       {/* Error Message */}
       {broadcastState.error && (
         <View style={styles.errorBox}>
@@ -337,6 +542,13 @@ export default function SenderDashboard() {
         </View>
       )}
 
+      {/* Token Renewal Warning */}
+      {broadcastState.isLive && tokenWarning && (
+        <View style={styles.warningBox}>
+          <Text style={styles.warningText}>⚠️ {tokenWarning}</Text>
+        </View>
+      )}
+
       {/* Live Broadcast Status */}
       {broadcastState.isLive ? (
         <>
@@ -347,13 +559,24 @@ export default function SenderDashboard() {
               Duration: {formatDuration(broadcastState.duration)}
             </Text>
             <Text style={styles.listeners}>
-              Listeners: {broadcastState.participantCount}
+              Listeners: {session.participants}
             </Text>
+            <Text
+              style={[
+                styles.connection,
+                session.connectionStatus === 'connected'
+                  ? styles.connectionOk
+                  : styles.connectionTrouble,
+              ]}
+            >
+              {getConnectionLabel(session.connectionStatus, rejoinAttempt)}
+            </Text>
+            <LiveListeners listeners={listeners} />
           </View>
 
           <TouchableOpacity
             style={[styles.button, styles.stopButton]}
-            onPress={endBroadcast}
+            onPress={() => endBroadcast()}
             disabled={broadcastState.isLoading}
           >
             {broadcastState.isLoading ? (
@@ -365,6 +588,15 @@ export default function SenderDashboard() {
         </>
       ) : (
         <>
+          {lastBroadcast && (
+            <ListenerStatsCard
+              stats={lastBroadcast.stats}
+              onViewDeliveryReport={() =>
+                navigation.navigate('DeliveryReport', { sessionId: lastBroadcast.sessionId })
+              }
+            />
+          )}
+
           <Text style={styles.sectionTitle}>Select Recipients</Text>
           <TouchableOpacity
             style={styles.toggleButton}
@@ -390,9 +622,13 @@ export default function SenderDashboard() {
                       <View style={styles.receiverInfo}>
                         <Text style={styles.receiverName}>{item.name}</Text>
                         <Text style={styles.receiverEmail}>{item.email}</Text>
+                        {item.request && (
+                          <Text style={styles.requestStatus}>{REQUEST_LABELS[item.request]}</Text>
+                        )}
                       </View>
                       <Switch
-                        value={item.selected}
+                        value={item.selected || item.request === 'pending'}
+                        disabled={item.request === 'declined'}
                         onValueChange={() =>
                           toggleReceiverSelection(item.uid)
                         }
@@ -403,12 +639,59 @@ export default function SenderDashboard() {
                   )}
                 />
               )}
+              <TouchableOpacity onPress={() => navigation.navigate('ImportRecipients')}>
+                <Text style={styles.importLink}>📥 Import / Export Recipients</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => navigation.navigate('Invites')}>
+                <Text style={styles.importLink}>🔗 Invite with a Code or QR</Text>
+              </TouchableOpacity>
             </View>
           )}
 
+          <Text style={styles.sectionTitle}>Send To</Text>
+          <View style={styles.targetRow}>
+            <TouchableOpacity
+              style={[styles.targetChip, targetGroupIds.length === 0 && styles.targetChipActive]}
+              onPress={() => setTargetGroupIds([])}
+            >
+              <Text
+                style={[styles.targetText, targetGroupIds.length === 0 && styles.targetTextActive]}
+              >
+                Everyone
+              </Text>
+            </TouchableOpacity>
+            {groups.map((group) => {
+              const active = targetGroupIds.includes(group.groupId);
+              return (
+                <TouchableOpacity
+                  key={group.groupId}
+                  style={[styles.targetChip, active && styles.targetChipActive]}
+                  onPress={() =>
+                    setTargetGroupIds((prev) =>
+                      active ? prev.filter((id) => id !== group.groupId) : [...prev, group.groupId]
+                    )
+                  }
+                >
+                  <Text style={[styles.targetText, active && styles.targetTextActive]}>
+                    {group.name} ({group.receiverIds.length})
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TouchableOpacity
+            style={styles.toggleButton}
+            onPress={() => navigation.navigate('Groups')}
+          >
+            <Text style={styles.toggleButtonText}>👥 Manage Groups</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Scheduled Broadcasts</Text>
+          {auth.uid && <ScheduleBroadcastForm senderId={auth.uid} schedules={schedules} />}
+
           <TouchableOpacity
             style={[styles.button, styles.startButton]}
-            onPress={startBroadcast}
+            onPress={() => startBroadcast()}
             disabled={broadcastState.isLoading}
           >
             {broadcastState.isLoading ? (
@@ -417,6 +700,13 @@ export default function SenderDashboard() {
               <Text style={styles.buttonText}>🎤 Start Broadcast</Text>
             )}
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.toggleButton}
+            onPress={() => navigation.navigate('History')}
+          >
+            <Text style={styles.toggleButtonText}>📜 Broadcast History</Text>
+          </TouchableOpacity>
         </>
       )}
 
@@ -466,6 +756,19 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  warningBox: {
+    backgroundColor: '#fff8e1',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ffa000',
+  },
+  warningText: {
+    color: '#e65100',
+    fontSize: 14,
+    lineHeight: 20,
+  },
   statusBox: {
     backgroundColor: '#fff',
     padding: 20,
@@ -504,6 +807,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  connection: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  connectionOk: {
+    color: '#388e3c',
+  },
+  connectionTrouble: {
+    color: '#e65100',
+  },
   button: {
     height: 50,
     borderRadius: 8,
@@ -538,6 +852,31 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#2196F3',
   },
+  targetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  targetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    backgroundColor: '#fff',
+  },
+  targetChipActive: {
+    backgroundColor: '#4CAF50',
+  },
+  targetText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  targetTextActive: {
+    color: '#fff',
+  },
   receiverList: {
     backgroundColor: '#fff',
     borderRadius: 8,
@@ -568,12 +907,24 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#999',
   },
+  requestStatus: {
+    fontSize: 12,
+    color: '#9C27B0',
+    marginTop: 2,
+  },
   emptyText: {
     fontSize: 14,
     color: '#999',
     padding: 16,
     textAlign: 'center',
   },
+  importLink: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+    padding: 12,
+    textAlign: 'center',
+  },
   infoBox: {
     backgroundColor: '#e3f2fd',
     padding: 16,
@@ -1,27 +1,110 @@
-import React from 'react';
-import { View, Text, Button } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, Button, TextInput, Switch, ScrollView } from 'react-native';
 import { signOut } from 'firebase/auth';
 import { auth } from '../services/firebase';
-import { useDispatch } from 'react-redux';
+import { useDispatch, useSelector } from 'react-redux';
 import { clearUser } from '../store/slices/authSlice';
+import { RootState } from '../store';
+import {
+  setLocation,
+  setCalculationMethod,
+  setAsrMethod,
+  setHighLatitudeRule,
+  setPrayerAdjustment,
+} from '../store/slices/prayerTimesSlice';
+import {
+  CALCULATION_METHODS,
+  CalculationMethod,
+  HighLatitudeRule,
+  PRAYER_LABELS,
+  PRAYER_NAMES,
+} from '../utils/prayerTimes';
 
-export default function SettingsScreen({ navigation }: any) {
+const METHODS = Object.keys(CALCULATION_METHODS) as CalculationMethod[];
+const HIGH_LATITUDE_RULES: HighLatitudeRule[] = ['none', 'middleOfNight', 'seventhOfNight', 'angleBased'];
+
+// Cycle through a fixed list of options
+function nextOption<T>(options: T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
+
+export default function SettingsScreen() {
   const dispatch = useDispatch();
+  const { settings } = useSelector((state: RootState) => state.prayerTimes);
+
+  const [latitude, setLatitude] = useState(String(settings.latitude));
+  const [longitude, setLongitude] = useState(String(settings.longitude));
+  const [timezone, setTimezone] = useState(String(settings.timezone));
 
   const handleLogout = async () => {
     try {
       await signOut(auth);
       dispatch(clearUser());
-      navigation.replace('Login');
     } catch (err: any) {
       alert(err.message);
     }
   };
 
+  const saveLocation = () => {
+    const lat = parseFloat(latitude);
+    const lng = parseFloat(longitude);
+    const tz = parseFloat(timezone);
+    if (isNaN(lat) || isNaN(lng) || isNaN(tz) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      alert('Please enter a valid latitude, longitude and UTC offset');
+      return;
+    }
+    dispatch(setLocation({ latitude: lat, longitude: lng, timezone: tz }));
+  };
+
   return (
-    <View style={{ flex: 1, padding: 20 }}>
+    <ScrollView style={{ flex: 1, padding: 20 }}>
       <Text style={{ fontSize: 22, marginBottom: 20 }}>Settings</Text>
-      <Button title="Logout" onPress={handleLogout} color="red" />
-    </View>
+
+      <Text style={{ fontSize: 18, marginBottom: 10 }}>Prayer Times</Text>
+      <TextInput placeholder="Latitude" value={latitude} onChangeText={setLatitude} keyboardType="numeric" />
+      <TextInput placeholder="Longitude" value={longitude} onChangeText={setLongitude} keyboardType="numeric" />
+      <TextInput placeholder="UTC offset (hours)" value={timezone} onChangeText={setTimezone} keyboardType="numeric" />
+      <Button title="Save Location" onPress={saveLocation} />
+
+      <View style={{ marginVertical: 10 }}>
+        <Button
+          title={`Method: ${CALCULATION_METHODS[settings.method].name}`}
+          onPress={() => dispatch(setCalculationMethod(nextOption(METHODS, settings.method)))}
+        />
+      </View>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginVertical: 10 }}>
+        <Text style={{ flex: 1 }}>Hanafi Asr</Text>
+        <Switch
+          value={settings.asrMethod === 'hanafi'}
+          onValueChange={(hanafi) => {
+            dispatch(setAsrMethod(hanafi ? 'hanafi' : 'shafi'));
+          }}
+        />
+      </View>
+      <View style={{ marginVertical: 10 }}>
+        <Button
+          title={`High latitudes: ${settings.highLatitudeRule}`}
+          onPress={() =>
+            dispatch(setHighLatitudeRule(nextOption(HIGH_LATITUDE_RULES, settings.highLatitudeRule)))
+          }
+        />
+      </View>
+
+      <Text style={{ fontSize: 16, marginVertical: 10 }}>Adjustments (minutes)</Text>
+      {PRAYER_NAMES.map((prayer) => {
+        const minutes = settings.adjustments[prayer] || 0;
+        return (
+          <View key={prayer} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 6 }}>
+            <Text style={{ flex: 1 }}>{PRAYER_LABELS[prayer]}: {minutes > 0 ? `+${minutes}` : minutes}</Text>
+            <Button title="-" onPress={() => dispatch(setPrayerAdjustment({ prayer, minutes: minutes - 1 }))} />
+            <Button title="+" onPress={() => dispatch(setPrayerAdjustment({ prayer, minutes: minutes + 1 }))} />
+          </View>
+        );
+      })}
+
+      <View style={{ marginTop: 20, marginBottom: 40 }}>
+        <Button title="Logout" onPress={handleLogout} color="red" />
+      </View>
+    </ScrollView>
   );
 }
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import * as api from '../services/api';
+import { IncomingSubscriptionRequest } from '../types/api';
+
+/**
+ * The signed-in receiver's incoming sender requests and the senders it
+ * follows. Senders are only heard once approved; declining or revoking one
+ * stops it asking again.
+ */
+export default function SubscriptionsScreen() {
+  const auth = useSelector((state: any) => state.auth);
+
+  const [requests, setRequests] = useState<IncomingSubscriptionRequest[]>([]);
+  const [senderIds, setSenderIds] = useState<string[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [auth.uid]);
+
+  async function loadSubscriptions() {
+    if (!auth.uid) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [users, incoming, subscriptions] = await Promise.all([
+        api.getAllUsers(),
+        api.getSubscriptionRequests(auth.uid),
+        api.getSubscriptions(auth.uid),
+      ]);
+      setNames(Object.fromEntries(users.map((u) => [u.uid, u.name])));
+      setRequests(incoming);
+      setSenderIds(subscriptions.senderIds);
+    } catch (error) {
+      console.error('Error loading subscriptions:', error);
+      setError('Failed to load subscriptions');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function approve(request: IncomingSubscriptionRequest) {
+    try {
+      const subscriptions = await api.approveSubscriptionRequest(auth.uid, request.senderId);
+      setSenderIds(subscriptions.senderIds);
+      setRequests((prev) => prev.filter((r) => r.senderId !== request.senderId));
+    } catch (error) {
+      console.error('Error approving request:', error);
+      Alert.alert('Error', 'Failed to approve request');
+      loadSubscriptions();
+    }
+  }
+
+  function decline(request: IncomingSubscriptionRequest) {
+    Alert.alert('Decline Request', `${request.senderName} will not be able to ask again.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Decline',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await api.declineSubscriptionRequest(auth.uid, request.senderId);
+            setRequests((prev) => prev.filter((r) => r.senderId !== request.senderId));
+          } catch (error) {
+            console.error('Error declining request:', error);
+            Alert.alert('Error', 'Failed to decline request');
+          }
+        },
+      },
+    ]);
+  }
+
+  function revoke(senderId: string) {
+    const name = names[senderId] || senderId;
+    Alert.alert('Stop Listening', `You will no longer hear ${name}, and they will not be able to ask again.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Stop',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setSenderIds((await api.revokeSubscription(auth.uid, senderId)).senderIds);
+          } catch (error) {
+            console.error('Error revoking subscription:', error);
+            Alert.alert('Error', 'Failed to stop listening');
+          }
+        },
+      },
+    ]);
+  }
+
+  if (isLoading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color="#2196F3" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>📬 Subscriptions</Text>
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>Requests ({requests.length})</Text>
+      {requests.length === 0 ? (
+        <Text style={styles.emptyText}>No senders are asking to reach you</Text>
+      ) : (
+        requests.map((request) => (
+          <View key={request.senderId} style={styles.item}>
+            <View style={styles.itemInfo}>
+              <Text style={styles.name}>🎤 {request.senderName || request.senderId}</Text>
+              <Text style={styles.meta}>Asked {new Date(request.requestedAt).toLocaleDateString()}</Text>
+            </View>
+            <View style={styles.actions}>
+              <TouchableOpacity onPress={() => decline(request)}>
+                <Text style={[styles.actionText, styles.destructiveText]}>Decline</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => approve(request)}>
+                <Text style={styles.actionText}>Approve</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))
+      )}
+
+      <Text style={styles.sectionTitle}>Listening To ({senderIds.length})</Text>
+      {senderIds.length === 0 ? (
+        <Text style={styles.emptyText}>You are not following any senders yet</Text>
+      ) : (
+        senderIds.map((senderId) => (
+          <View key={senderId} style={styles.item}>
+            <View style={styles.itemInfo}>
+              <Text style={styles.name}>🎤 {names[senderId] || senderId}</Text>
+            </View>
+            <TouchableOpacity onPress={() => revoke(senderId)}>
+              <Text style={[styles.actionText, styles.destructiveText]}>Stop</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    padding: 20,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  actionText: {
+    color: '#2196F3',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  destructiveText: {
+    color: '#f44336',
+  },
+});
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import * as api from '../services/api';
+import { UserProfile, UserRole } from '../types/api';
+import { ROLE_LABELS } from '../utils/roleAccess';
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+/**
+ * Admin only: every user and their role. Admins cannot change their own
+ * role, so there is always one left.
+ */
+export default function UsersScreen() {
+  const auth = useSelector((state: any) => state.auth);
+
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  async function loadUsers() {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const all = await api.getAllUsers();
+      setUsers(all.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Error loading users:', error);
+      setError('Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function changeRole(user: UserProfile, role: UserRole) {
+    if (user.role === role) return;
+    Alert.alert('Change Role', `Make ${user.name} ${ROLE_LABELS[role].toLowerCase()}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Change',
+        onPress: async () => {
+          try {
+            const updated = await api.updateUser(user.uid, undefined, role);
+            setUsers((prev) => prev.map((u) => (u.uid === updated.uid ? updated : u)));
+          } catch (error) {
+            console.error('Error changing role:', error);
+            Alert.alert('Error', 'Failed to change role');
+          }
+        },
+      },
+    ]);
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.title}>🛡️ Users</Text>
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {isLoading ? (
+        <ActivityIndicator color="#2196F3" />
+      ) : (
+        users.map((user) => (
+          <View key={user.uid} style={styles.item}>
+            <Text style={styles.name}>{user.name}</Text>
+            <Text style={styles.email}>{user.email}</Text>
+            {user.uid === auth.uid ? (
+              <Text style={styles.selfText}>{ROLE_LABELS[user.role]} (you)</Text>
+            ) : (
+              <View style={styles.roleRow}>
+                {ROLES.map((role) => (
+                  <TouchableOpacity
+                    key={role}
+                    style={[styles.roleChip, user.role === role && styles.roleChipActive]}
+                    onPress={() => changeRole(user, role)}
+                  >
+                    <Text style={[styles.roleText, user.role === role && styles.roleTextActive]}>
+                      {ROLE_LABELS[role]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f44336',
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  item: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  email: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  selfText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 8,
+  },
+  roleChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+  },
+  roleChipActive: {
+    backgroundColor: '#2196F3',
+  },
+  roleText: {
+    fontSize: 13,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  roleTextActive: {
+    color: '#fff',
+  },
+});
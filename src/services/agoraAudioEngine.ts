@@ -0,0 +1,110 @@
+import { RtcEngine, ChannelProfile, ClientRole } from 'react-native-agora';
+import {
+  AudioConnectionState,
+  AudioEngine,
+  AudioEngineEvent,
+  AudioEngineEvents,
+  AudioEventEmitter,
+  AudioRole,
+} from './audioEngine';
+
+/** Agora event name for each AudioEngine event. */
+const AGORA_EVENTS: Record<AudioEngineEvent, string> = {
+  userJoined: 'UserJoined',
+  userLeft: 'UserOffline',
+  tokenWillExpire: 'TokenPrivilegeWillExpire',
+  tokenRequired: 'RequestToken',
+  joinSuccess: 'JoinChannelSuccess',
+  rejoinSuccess: 'RejoinChannelSuccess',
+  connectionLost: 'ConnectionLost',
+  connectionStateChanged: 'ConnectionStateChanged',
+  error: 'Error',
+};
+
+/** Agora's ConnectionStateType values. */
+const AGORA_CONNECTION_STATES: Record<number, AudioConnectionState> = {
+  1: 'disconnected',
+  2: 'connecting',
+  3: 'connected',
+  4: 'reconnecting',
+  5: 'failed',
+};
+
+/**
+ * Convert native event arguments to the AudioEngine signature.
+ */
+function translateArgs(event: AudioEngineEvent, args: any[]): any[] {
+  if (event === 'connectionStateChanged') {
+    const [state, reason] = args;
+    return [AGORA_CONNECTION_STATES[state] || 'disconnected', reason];
+  }
+  return args;
+}
+
+/**
+ * AudioEngine backed by react-native-agora, set up for audio-only
+ * communication. The app ID comes from REACT_APP_AGORA_APP_ID.
+ */
+export class AgoraAudioEngine implements AudioEngine {
+  private engine: any = null;
+  private emitter = new AudioEventEmitter();
+  private nativeListeners: Array<[string, (...args: any[]) => void]> = [];
+
+  constructor(private readonly appId: string = process.env.REACT_APP_AGORA_APP_ID || '') {}
+
+  async create(): Promise<void> {
+    if (this.engine) return;
+
+    const engine = await RtcEngine.create(this.appId);
+    await engine.enableAudio();
+    await engine.setChannelProfile(ChannelProfile.Communication);
+
+    (Object.keys(AGORA_EVENTS) as AudioEngineEvent[]).forEach((event) => {
+      const forward = (...args: any[]) =>
+        (this.emitter.emit as any)(event, ...translateArgs(event, args));
+      engine.addListener(AGORA_EVENTS[event], forward);
+      this.nativeListeners.push([AGORA_EVENTS[event], forward]);
+    });
+
+    this.engine = engine;
+  }
+
+  async setRole(role: AudioRole): Promise<void> {
+    await this.requireEngine().setClientRole(
+      role === 'publisher' ? ClientRole.Broadcaster : ClientRole.Audience
+    );
+  }
+
+  async join(token: string, channelName: string, uid: number): Promise<void> {
+    await this.requireEngine().joinChannel(token, channelName, null, uid);
+  }
+
+  async leave(): Promise<void> {
+    await this.requireEngine().leaveChannel();
+  }
+
+  async renewToken(token: string): Promise<void> {
+    await this.requireEngine().renewToken(token);
+  }
+
+  on<E extends AudioEngineEvent>(event: E, listener: AudioEngineEvents[E]): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  async destroy(): Promise<void> {
+    if (!this.engine) return;
+    const engine = this.engine;
+    this.engine = null;
+    this.nativeListeners.forEach(([name, listener]) => engine.removeListener(name, listener));
+    this.nativeListeners = [];
+    this.emitter.clear();
+    await engine.destroy();
+  }
+
+  private requireEngine(): any {
+    if (!this.engine) {
+      throw new Error('Audio engine not created');
+    }
+    return this.engine;
+  }
+}
@@ -1,150 +1,307 @@
-import axios from 'axios';
 import { getAuth } from 'firebase/auth';
+import { createApiClient } from './apiClient';
+import {
+  AgoraRole,
+  AgoraTokenResponse,
+  AgoraUidAllocation,
+  Announcement,
+  AnnouncementHistoryQuery,
+  ApiAck,
+  CreateAnnouncementRequest,
+  CreateInviteRequest,
+  CreateReceiverGroupRequest,
+  CreateUserRequest,
+  DeliveryReport,
+  GenerateTokenRequest,
+  ImportRecipientsRequest,
+  ImportRecipientsResult,
+  IncomingSubscriptionRequest,
+  Invite,
+  InviteAcceptance,
+  InvitePreview,
+  ReceiverSubscriptions,
+  RecipientExport,
+  RecipientRow,
+  ResolveRecipientsRequest,
+  ResolvedRecipients,
+  SenderMapping,
+  UpdateAnnouncementRequest,
+  UpdateReceiverGroupRequest,
+  UpdateUserRequest,
+  UserProfile,
+  UserRole,
+} from '../types/api';
+
+export { ApiError, isApiError } from './apiClient';
+export type { ApiErrorKind } from './apiClient';
 
 // Use environment variable or fallback to localhost for development
 const BACKEND_BASE = process.env.REACT_APP_BACKEND_URL || 'http://localhost:4000/api';
 
-export async function getFirebaseIdToken() {
+export async function getFirebaseIdToken(forceRefresh = false): Promise<string> {
   const auth = getAuth();
   const user = auth.currentUser;
   if (!user) throw new Error('Not authenticated');
-  return user.getIdToken();
+  return user.getIdToken(forceRefresh);
 }
 
-export async function generateAgoraToken(channelName: string, uid = 0, role: 'publisher'|'audience' = 'audience') {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.post(
-    `${BACKEND_BASE}/token/generate`,
-    { channelName, uid, role },
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+/**
+ * Shared client: auth header, 401 token refresh, retries and ApiError mapping
+ * are handled by its interceptors (see apiClient.ts).
+ */
+export const apiClient = createApiClient({
+  baseURL: BACKEND_BASE,
+  getIdToken: getFirebaseIdToken,
+});
+
+/**
+ * Tokens are bound to the caller's Agora uid, which the backend allocates and
+ * returns as `uid`; join with it. Pass `uid` back when renewing.
+ */
+export async function generateAgoraToken(
+  channelName: string,
+  role: AgoraRole = 'audience',
+  uid?: number
+): Promise<AgoraTokenResponse> {
+  const body: GenerateTokenRequest = { channelName, role, ...(uid !== undefined && { uid }) };
+  const res = await apiClient.post<AgoraTokenResponse>('/token/generate', body);
+  return res.data;
+}
+
+/**
+ * The user a numeric Agora uid (e.g. from an engine event) belongs to.
+ */
+export async function resolveAgoraUid(agoraUid: number): Promise<AgoraUidAllocation> {
+  const res = await apiClient.get<AgoraUidAllocation>(`/agora-uids/${agoraUid}`);
   return res.data;
 }
 
 // ==================== USER ENDPOINTS ====================
 
-export async function createUser(name: string, email: string, role: 'sender' | 'receiver') {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.post(
-    `${BACKEND_BASE}/user`,
-    { name, email, role },
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function createUser(name: string, email: string, role: UserRole): Promise<UserProfile> {
+  const body: CreateUserRequest = { name, email, role };
+  const res = await apiClient.post<UserProfile>('/user', body);
   return res.data;
 }
 
-export async function getUser(uid: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.get(
-    `${BACKEND_BASE}/user/${uid}`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function getUser(uid: string): Promise<UserProfile> {
+  const res = await apiClient.get<UserProfile>(`/user/${uid}`);
   return res.data;
 }
 
-export async function updateUser(uid: string, name?: string, role?: 'sender' | 'receiver') {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.put(
-    `${BACKEND_BASE}/user/${uid}`,
-    { ...(name && { name }), ...(role && { role }) },
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function updateUser(uid: string, name?: string, role?: UserRole): Promise<UserProfile> {
+  const body: UpdateUserRequest = {
+    ...(name && { name }),
+    ...(role && { role }),
+  };
+  const res = await apiClient.put<UserProfile>(`/user/${uid}`, body);
   return res.data;
 }
 
-export async function getAllUsers() {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.get(
-    `${BACKEND_BASE}/user`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function getAllUsers(): Promise<UserProfile[]> {
+  const res = await apiClient.get<UserProfile[]>('/user');
   return res.data;
 }
 
 // ==================== MAPPINGS ENDPOINTS ====================
 
-export async function getMapping(senderId: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.get(
-    `${BACKEND_BASE}/mappings/${senderId}`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function getMapping(senderId: string): Promise<SenderMapping> {
+  const res = await apiClient.get<SenderMapping>(`/mappings/${senderId}`);
   return res.data;
 }
 
-export async function addReceiverToMapping(senderId: string, receiverId: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.post(
-    `${BACKEND_BASE}/mappings/${senderId}/receivers/${receiverId}`,
-    {},
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+/**
+ * Asks the receiver to subscribe: the receiver appears in `requests` until
+ * they approve. Fails with a `conflict` ApiError if they declined before.
+ */
+export async function addReceiverToMapping(senderId: string, receiverId: string): Promise<SenderMapping> {
+  const res = await apiClient.post<SenderMapping>(`/mappings/${senderId}/receivers/${receiverId}`, {});
+  return res.data;
+}
+
+/** Also withdraws a pending request. */
+export async function removeReceiverFromMapping(senderId: string, receiverId: string): Promise<SenderMapping> {
+  const res = await apiClient.delete<SenderMapping>(`/mappings/${senderId}/receivers/${receiverId}`);
+  return res.data;
+}
+
+export async function createReceiverGroup(
+  senderId: string,
+  name: string,
+  receiverIds: string[] = []
+): Promise<SenderMapping> {
+  const body: CreateReceiverGroupRequest = { name, receiverIds };
+  const res = await apiClient.post<SenderMapping>(`/mappings/${senderId}/groups`, body);
   return res.data;
 }
 
-export async function removeReceiverFromMapping(senderId: string, receiverId: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.delete(
-    `${BACKEND_BASE}/mappings/${senderId}/receivers/${receiverId}`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
+export async function updateReceiverGroup(
+  senderId: string,
+  groupId: string,
+  patch: UpdateReceiverGroupRequest
+): Promise<SenderMapping> {
+  const res = await apiClient.put<SenderMapping>(`/mappings/${senderId}/groups/${groupId}`, patch);
+  return res.data;
+}
+
+export async function deleteReceiverGroup(senderId: string, groupId: string): Promise<SenderMapping> {
+  const res = await apiClient.delete<SenderMapping>(`/mappings/${senderId}/groups/${groupId}`);
+  return res.data;
+}
+
+/**
+ * The receivers a broadcast targets: members of `groupIds`, or the whole
+ * mapping if omitted. Call when the broadcast starts.
+ */
+export async function resolveRecipients(senderId: string, groupIds?: string[]): Promise<ResolvedRecipients> {
+  const body: ResolveRecipientsRequest = groupIds ? { groupIds } : {};
+  const res = await apiClient.post<ResolvedRecipients>(`/mappings/${senderId}/resolve`, body);
+  return res.data;
+}
+
+/**
+ * Ask up to 200 receivers, matched by email, to subscribe and create their
+ * groups in one batch; receivers join their groups when they approve.
+ * With `dryRun` nothing is written; the result previews what would happen to
+ * each row.
+ */
+export async function importRecipients(
+  senderId: string,
+  rows: RecipientRow[],
+  dryRun = false
+): Promise<ImportRecipientsResult> {
+  const body: ImportRecipientsRequest = { rows, dryRun };
+  const res = await apiClient.post<ImportRecipientsResult>(`/mappings/${senderId}/import`, body);
+  return res.data;
+}
+
+export async function exportRecipients(senderId: string): Promise<RecipientExport> {
+  const res = await apiClient.get<RecipientExport>(`/mappings/${senderId}/export`);
+  return res.data;
+}
+
+// ==================== INVITES ENDPOINTS ====================
+// Senders hand out invite codes (or `myazan://invite/<code>` links and QR
+// codes, see utils/invites.ts); a receiver who redeems one is added to the
+// sender's mapping, which counts as approving it.
+
+export async function getInvites(senderId: string): Promise<Invite[]> {
+  const res = await apiClient.get<Invite[]>(`/mappings/${senderId}/invites`);
+  return res.data;
+}
+
+/** Without `expiresAt` or `maxUses` the invite stays valid until revoked. */
+export async function createInvite(senderId: string, options: CreateInviteRequest = {}): Promise<Invite> {
+  const res = await apiClient.post<Invite>(`/mappings/${senderId}/invites`, options);
+  return res.data;
+}
+
+export async function revokeInvite(senderId: string, code: string): Promise<ApiAck> {
+  const res = await apiClient.delete<ApiAck>(`/mappings/${senderId}/invites/${code}`);
+  return res.data;
+}
+
+export async function getInvite(code: string): Promise<InvitePreview> {
+  const res = await apiClient.get<InvitePreview>(`/invites/${code}`);
+  return res.data;
+}
+
+/** Expired or used-up invites fail with a `conflict` ApiError. */
+export async function acceptInvite(code: string): Promise<InviteAcceptance> {
+  const res = await apiClient.post<InviteAcceptance>(`/invites/${code}/accept`);
+  return res.data;
+}
+
+// ==================== SUBSCRIPTIONS ENDPOINTS ====================
+// Reverse index of mappings (receiver -> senders), stored in `subscriptions/{receiverId}`.
+// The backend updates it in the same batch as `mappings/{senderId}` whenever a
+// receiver is added to or removed from a sender's mapping. Receivers are only
+// added by approving a sender's request or redeeming an invite.
+
+export async function getSubscriptions(receiverId: string): Promise<ReceiverSubscriptions> {
+  const res = await apiClient.get<ReceiverSubscriptions>(`/subscriptions/${receiverId}`);
+  return res.data;
+}
+
+export async function getSubscriptionRequests(receiverId: string): Promise<IncomingSubscriptionRequest[]> {
+  const res = await apiClient.get<IncomingSubscriptionRequest[]>(`/subscriptions/${receiverId}/requests`);
+  return res.data;
+}
+
+export async function approveSubscriptionRequest(
+  receiverId: string,
+  senderId: string
+): Promise<ReceiverSubscriptions> {
+  const res = await apiClient.post<ReceiverSubscriptions>(
+    `/subscriptions/${receiverId}/requests/${senderId}/approve`
   );
   return res.data;
 }
 
+/** The sender cannot ask again; the receiver can still redeem its invites. */
+export async function declineSubscriptionRequest(receiverId: string, senderId: string): Promise<ApiAck> {
+  const res = await apiClient.post<ApiAck>(`/subscriptions/${receiverId}/requests/${senderId}/decline`);
+  return res.data;
+}
+
+/** Stop receiving a sender's broadcasts; like declining, the sender cannot ask again. */
+export async function revokeSubscription(receiverId: string, senderId: string): Promise<ReceiverSubscriptions> {
+  const res = await apiClient.delete<ReceiverSubscriptions>(`/subscriptions/${receiverId}/senders/${senderId}`);
+  return res.data;
+}
+
 // ==================== ANNOUNCEMENTS ENDPOINTS ====================
 
-export async function getAnnouncement(sessionId: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.get(
-    `${BACKEND_BASE}/announcements/${sessionId}`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function getAnnouncement(sessionId: string): Promise<Announcement> {
+  const res = await apiClient.get<Announcement>(`/announcements/${sessionId}`);
   return res.data;
 }
 
-export async function createAnnouncement(sessionId: string, channelName: string, agoraToken: string, expiresAt?: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.post(
-    `${BACKEND_BASE}/announcements`,
-    { sessionId, channelName, agoraToken, expiresAt },
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function createAnnouncement(
+  sessionId: string,
+  channelName: string,
+  expiresAt?: string
+): Promise<Announcement> {
+  const body: CreateAnnouncementRequest = { sessionId, channelName, expiresAt };
+  const res = await apiClient.post<Announcement>('/announcements', body);
   return res.data;
 }
 
-export async function updateAnnouncement(sessionId: string, isLive: boolean) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.put(
-    `${BACKEND_BASE}/announcements/${sessionId}`,
-    { isLive },
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function updateAnnouncement(sessionId: string, isLive: boolean): Promise<Announcement> {
+  const body: UpdateAnnouncementRequest = { isLive };
+  const res = await apiClient.put<Announcement>(`/announcements/${sessionId}`, body);
   return res.data;
 }
 
-export async function endAnnouncement(sessionId: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.delete(
-    `${BACKEND_BASE}/announcements/${sessionId}`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function endAnnouncement(sessionId: string): Promise<ApiAck> {
+  const res = await apiClient.delete<ApiAck>(`/announcements/${sessionId}`);
   return res.data;
 }
 
-export async function getLiveAnnouncements() {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.get(
-    `${BACKEND_BASE}/announcements/live`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+export async function getLiveAnnouncements(): Promise<Announcement[]> {
+  const res = await apiClient.get<Announcement[]>('/announcements/live');
   return res.data;
 }
 
-export async function getAnnouncementsBySender(senderId: string) {
-  const idToken = await getFirebaseIdToken();
-  const res = await axios.get(
-    `${BACKEND_BASE}/announcements/sender/${senderId}`,
-    { headers: { Authorization: `Bearer ${idToken}` } }
-  );
+/**
+ * A sender's broadcasts, newest first. Pass the last `startedAt` of a page as
+ * `before` to fetch the next one.
+ */
+export async function getAnnouncementsBySender(
+  senderId: string,
+  query: AnnouncementHistoryQuery = {}
+): Promise<Announcement[]> {
+  const res = await apiClient.get<Announcement[]>(`/announcements/sender/${senderId}`, {
+    params: query,
+  });
+  return res.data;
+}
+
+/**
+ * Which receivers mapped when the broadcast started listened to it, missed
+ * ones first. Only the broadcast's sender may read it.
+ */
+export async function getDeliveryReport(sessionId: string): Promise<DeliveryReport> {
+  const res = await apiClient.get<DeliveryReport>(`/announcements/${sessionId}/delivery-report`);
   return res.data;
 }
@@ -0,0 +1,150 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export type ApiErrorKind = 'network' | 'auth' | 'not_found' | 'conflict' | 'server' | 'client';
+
+/**
+ * Error thrown by every backend call. `kind` tells callers how to react
+ * without inspecting HTTP details; `status` and `data` are kept for logging.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly data?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.data = data;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  /**
+   * Map any failure from the HTTP layer onto an ApiError.
+   */
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+    if (!axios.isAxiosError(error)) {
+      return new ApiError('network', (error as Error)?.message || 'Request failed');
+    }
+
+    const status = error.response?.status;
+    const data = error.response?.data as any;
+    const message = data?.error || data?.message || error.message;
+
+    if (status === undefined) {
+      return new ApiError('network', message);
+    }
+    if (status === 401 || status === 403) {
+      return new ApiError('auth', message, status, data);
+    }
+    if (status === 404) {
+      return new ApiError('not_found', message, status, data);
+    }
+    if (status === 409) {
+      return new ApiError('conflict', message, status, data);
+    }
+    if (status >= 500) {
+      return new ApiError('server', message, status, data);
+    }
+    return new ApiError('client', message, status, data);
+  }
+}
+
+export function isApiError(error: unknown, kind?: ApiErrorKind): error is ApiError {
+  return error instanceof ApiError && (kind === undefined || error.kind === kind);
+}
+
+export interface ApiClientOptions {
+  baseURL: string;
+  /** Returns a Firebase ID token; `forceRefresh` bypasses the SDK's cache. */
+  getIdToken: (forceRefresh?: boolean) => Promise<string>;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+interface RetryState {
+  retryCount?: number;
+  authRetried?: boolean;
+  forceTokenRefresh?: boolean;
+}
+
+type ClientRequestConfig = InternalAxiosRequestConfig & { retryState?: RetryState };
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+
+function isRetriable(error: AxiosError): boolean {
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create an axios instance for the backend API.
+ * - Injects the Firebase ID token as a Bearer header
+ * - On 401, refreshes the token once and replays the request
+ * - Retries idempotent requests on network errors, 429 and 5xx with exponential backoff
+ * - Applies a request timeout
+ * - Rejects with ApiError
+ */
+export function createApiClient(options: ApiClientOptions): AxiosInstance {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+
+  const client = axios.create({
+    baseURL: options.baseURL,
+    timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  });
+
+  client.interceptors.request.use(async (config: ClientRequestConfig) => {
+    const state = config.retryState || {};
+    let idToken: string;
+    try {
+      idToken = await options.getIdToken(state.forceTokenRefresh);
+    } catch (error) {
+      throw new ApiError('auth', (error as Error)?.message || 'Not authenticated');
+    }
+    config.headers.set('Authorization', `Bearer ${idToken}`);
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error: unknown) => {
+    if (!axios.isAxiosError(error) || !error.config) {
+      throw ApiError.from(error);
+    }
+
+    const config = error.config as ClientRequestConfig;
+    const state: RetryState = (config.retryState = config.retryState || {});
+
+    // An expired ID token gets one refresh-and-replay, whatever the method
+    if (error.response?.status === 401 && !state.authRetried) {
+      state.authRetried = true;
+      state.forceTokenRefresh = true;
+      return client.request(config);
+    }
+    state.forceTokenRefresh = false;
+
+    const method = (config.method || 'get').toLowerCase();
+    const retryCount = state.retryCount || 0;
+    if (IDEMPOTENT_METHODS.includes(method) && isRetriable(error) && retryCount < maxRetries) {
+      state.retryCount = retryCount + 1;
+      await delay(retryBaseDelayMs * 2 ** retryCount);
+      return client.request(config);
+    }
+
+    throw ApiError.from(error);
+  });
+
+  return client;
+}
@@ -0,0 +1,98 @@
+export type AudioRole = 'publisher' | 'audience';
+
+/** Connection state reported by the engine (Agora's ConnectionStateType). */
+export type AudioConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed';
+
+/**
+ * Events raised by an audio engine. Agora's native names are mapped onto
+ * these by the Agora implementation.
+ */
+export interface AudioEngineEvents {
+  /** A remote user joined the channel. */
+  userJoined: (uid: number) => void;
+  /** A remote user left the channel or dropped offline. */
+  userLeft: (uid: number) => void;
+  /** The current token expires soon (Agora: ~30 s before). */
+  tokenWillExpire: () => void;
+  /** The token has expired; a new one is needed to stay connected. */
+  tokenRequired: () => void;
+  /** This client joined a channel. */
+  joinSuccess: (channelName: string, uid: number) => void;
+  /** The engine reconnected on its own after a network interruption. */
+  rejoinSuccess: (channelName: string, uid: number) => void;
+  /** The engine could not reach the server for ~10 s and stopped trying on its own. */
+  connectionLost: () => void;
+  /** `reason` is the SDK's ConnectionChangedReason code, kept for logging. */
+  connectionStateChanged: (state: AudioConnectionState, reason: number) => void;
+  error: (error: unknown) => void;
+}
+
+export type AudioEngineEvent = keyof AudioEngineEvents;
+
+/**
+ * Audio-only RTC engine used by the dashboards and TokenRefreshManager.
+ * Implemented by AgoraAudioEngine (react-native-agora) and FakeAudioEngine (tests).
+ */
+export interface AudioEngine {
+  /** Create the native engine and enable audio. Call once before anything else. */
+  create(): Promise<void>;
+  setRole(role: AudioRole): Promise<void>;
+  join(token: string, channelName: string, uid: number): Promise<void>;
+  leave(): Promise<void>;
+  renewToken(token: string): Promise<void>;
+  /** Subscribe to an event. Returns an unsubscribe function. */
+  on<E extends AudioEngineEvent>(event: E, listener: AudioEngineEvents[E]): () => void;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Listener bookkeeping shared by the AudioEngine implementations.
+ */
+export class AudioEventEmitter {
+  private listeners: { [E in AudioEngineEvent]?: Set<AudioEngineEvents[E]> } = {};
+
+  on<E extends AudioEngineEvent>(event: E, listener: AudioEngineEvents[E]): () => void {
+    const set = (this.listeners[event] || new Set()) as Set<AudioEngineEvents[E]>;
+    set.add(listener);
+    this.listeners[event] = set as any;
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  emit<E extends AudioEngineEvent>(event: E, ...args: Parameters<AudioEngineEvents[E]>): void {
+    const set = this.listeners[event] as Set<(...a: any[]) => void> | undefined;
+    set?.forEach((listener) => listener(...args));
+  }
+
+  clear(): void {
+    this.listeners = {};
+  }
+}
+
+type AudioEngineFactory = () => AudioEngine;
+
+let factory: AudioEngineFactory = () => {
+  // Required lazily so code paths using a fake never load the native module
+  const { AgoraAudioEngine } = require('./agoraAudioEngine');
+  return new AgoraAudioEngine();
+};
+
+/**
+ * Create the app's audio engine (Agora unless replaced with setAudioEngineFactory).
+ */
+export function createAudioEngine(): AudioEngine {
+  return factory();
+}
+
+/**
+ * Replace the engine implementation, e.g. with FakeAudioEngine in tests.
+ */
+export function setAudioEngineFactory(next: AudioEngineFactory): void {
+  factory = next;
+}
@@ -1,13 +1,48 @@
 import { db } from './firebase';
-import { query, collection, where, getDocs, setDoc, doc, updateDoc, serverTimestamp, writeBatch } from 'firebase/firestore';
+import { query, collection, where, getDocs, doc, updateDoc, serverTimestamp, writeBatch, runTransaction } from 'firebase/firestore';
+import { EndedReason } from '../types/api';
+import { PrayerName } from '../utils/prayerTimes';
+
+export type ActiveSessionStatus = 'active' | 'inactive' | 'error';
+
+/** What the broadcast is, shown in the sender's history. */
+export interface SessionDetails {
+  /** Title of the schedule that started it; null for a manual broadcast. */
+  title?: string | null;
+  prayer?: PrayerName | null;
+  /**
+   * Receivers the broadcast targets (`api.resolveRecipients()`): the whole
+   * mapping or the chosen groups. Receivers left out skip the broadcast.
+   */
+  mappedReceiverIds?: string[];
+}
+
+export type StartSessionResult =
+  | { status: 'created'; sessionId: string }
+  | { status: 'collision'; activeSessionId: string }
+  | { status: 'error'; error: Error };
 
 /**
  * Channel naming convention: myazan_<senderId>
  * This ensures deterministic, collision-free channel names.
+ *
+ * Each channel has a lock document (`channelLocks/<channelName>`) naming the
+ * session that owns it. Sessions are started and ended inside Firestore
+ * transactions that read and write the lock, so two devices can never both
+ * go live on the same channel.
+ *
+ * Live sessions hold a lease: the sender writes a server-timestamped
+ * `lastHeartbeatAt` every HEARTBEAT_INTERVAL_MS, and a session not renewed
+ * for LEASE_DURATION_MS is treated as lost by receivers and ended by
+ * `cleanupStaleSessions()`. The lease is never worked out from the sender's
+ * clock, so devices whose clocks disagree still agree on it.
  */
 export class ChannelManager {
   private static readonly CHANNEL_PREFIX = 'myazan_';
-  private static readonly SESSION_TIMEOUT_MINUTES = 60;
+  private static readonly LOCKS_COLLECTION = 'channelLocks';
+  static readonly HEARTBEAT_INTERVAL_MS = 15 * 1000;
+  /** Three missed heartbeats before a session is considered lost. */
+  static readonly LEASE_DURATION_MS = 45 * 1000;
 
   /**
    * Generate a deterministic channel name based on sender ID.
@@ -28,9 +63,10 @@ export class ChannelManager {
 
   /**
    * Check if an active session already exists for the given channel.
-   * Prevents channel collisions by ensuring only one active session per senderId.
+   * Returns 'error' rather than 'inactive' when the check itself fails, so
+   * callers never mistake a failed read for a free channel.
    */
-  static async checkActiveSession(channelName: string): Promise<boolean> {
+  static async checkActiveSession(channelName: string): Promise<ActiveSessionStatus> {
     try {
       const q = query(
         collection(db, 'announcements'),
@@ -38,83 +74,186 @@ export class ChannelManager {
         where('isLive', '==', true)
       );
       const snapshot = await getDocs(q);
-      return !snapshot.empty;
+      return snapshot.empty ? 'inactive' : 'active';
     } catch (error) {
       console.error('Error checking active session:', error);
-      return false;
+      return 'error';
     }
   }
 
   /**
    * Create a new announcement/session.
-   * Enforces atomicity by checking for collisions before creation.
+   * Atomic: the channel lock is checked and taken in the same transaction that
+   * creates the announcement. A lock held by a session that is no longer live
+   * is taken over; so is one whose session's lease has lapsed (the sender app
+   * crashed mid-broadcast), after ending that session as `crash_cleanup`.
+   * The announcement carries no Agora token: every client it is shared with
+   * requests its own from the backend (`api.generateAgoraToken`).
    */
   static async startSession(
     sessionId: string,
     senderId: string,
     channelName: string,
-    agoraToken: string,
-    expiresAt?: Date
-  ): Promise<boolean> {
+    expiresAt?: Date,
+    details: SessionDetails = {}
+  ): Promise<StartSessionResult> {
     try {
-      // Check for existing active session
-      const activeExists = await this.checkActiveSession(channelName);
-      if (activeExists) {
-        console.warn(`Active session already exists for channel: ${channelName}`);
-        return false;
-      }
-
-      // Create new announcement
-      await setDoc(doc(db, 'announcements', sessionId), {
-        sessionId,
-        senderId,
-        channelName,
-        agoraToken,
-        startedAt: serverTimestamp(),
-        isLive: true,
-        expiresAt: expiresAt || null,
+      return await runTransaction(db, async (transaction: any): Promise<StartSessionResult> => {
+        const lockRef = doc(db, this.LOCKS_COLLECTION, channelName);
+        const lockSnapshot = await transaction.get(lockRef);
+
+        if (lockSnapshot.exists()) {
+          const heldBy: string = lockSnapshot.data().sessionId;
+          const heldRef = doc(db, 'announcements', heldBy);
+          const heldSnapshot = await transaction.get(heldRef);
+          if (heldSnapshot.exists() && heldSnapshot.data().isLive) {
+            if (!this.isLeaseExpired(heldSnapshot.data())) {
+              console.warn(`Active session already exists for channel: ${channelName}`);
+              return { status: 'collision', activeSessionId: heldBy };
+            }
+            transaction.update(heldRef, {
+              isLive: false,
+              endedAt: serverTimestamp(),
+              endedReason: 'crash_cleanup',
+            });
+          }
+        }
+
+        transaction.set(lockRef, {
+          channelName,
+          sessionId,
+          senderId,
+          acquiredAt: serverTimestamp(),
+        });
+        transaction.set(doc(db, 'announcements', sessionId), {
+          sessionId,
+          senderId,
+          channelName,
+          startedAt: serverTimestamp(),
+          lastHeartbeatAt: serverTimestamp(),
+          isLive: true,
+          expiresAt: expiresAt || null,
+          title: details.title ?? null,
+          prayer: details.prayer ?? null,
+          mappedReceiverIds: details.mappedReceiverIds ?? [],
+          peakListeners: 0,
+          endedReason: null,
+        });
+
+        return { status: 'created', sessionId };
       });
+    } catch (error) {
+      console.error('Error starting session:', error);
+      return { status: 'error', error: error as Error };
+    }
+  }
+
+  /**
+   * End an active session and release its channel lock.
+   * @param reason `manual` when the sender stopped it, `timeout` when the app
+   *   gave up on a broken connection
+   */
+  static async endSession(sessionId: string, reason: EndedReason = 'manual'): Promise<boolean> {
+    try {
+      await runTransaction(db, async (transaction: any) => {
+        const announcementRef = doc(db, 'announcements', sessionId);
+        const announcement = await transaction.get(announcementRef);
+        if (!announcement.exists()) {
+          return;
+        }
 
+        const lockRef = doc(db, this.LOCKS_COLLECTION, announcement.data().channelName);
+        const lock = await transaction.get(lockRef);
+
+        transaction.update(announcementRef, {
+          isLive: false,
+          endedAt: serverTimestamp(),
+          endedReason: reason,
+        });
+        if (lock.exists() && lock.data().sessionId === sessionId) {
+          transaction.delete(lockRef);
+        }
+      });
       return true;
     } catch (error) {
-      console.error('Error starting session:', error);
+      console.error('Error ending session:', error);
       return false;
     }
   }
 
   /**
-   * End an active session.
+   * Record a sender heartbeat and extend the session's lease.
    */
-  static async endSession(sessionId: string): Promise<boolean> {
+  static async renewLease(sessionId: string): Promise<boolean> {
     try {
       await updateDoc(doc(db, 'announcements', sessionId), {
-        isLive: false,
+        lastHeartbeatAt: serverTimestamp(),
       });
       return true;
     } catch (error) {
-      console.error('Error ending session:', error);
+      console.error('Error renewing session lease:', error);
       return false;
     }
   }
 
   /**
-   * Cleanup old stale sessions (older than SESSION_TIMEOUT_MINUTES and still marked live).
-   * Useful after app crash or network failure.
+   * Record a new high in concurrent listeners. Written as it happens so the
+   * figure survives a crash.
    */
-  static async cleanupStaleSessions(): Promise<void> {
+  static async recordPeakListeners(sessionId: string, peakListeners: number): Promise<boolean> {
     try {
-      const cutoffTime = new Date(Date.now() - this.SESSION_TIMEOUT_MINUTES * 60 * 1000);
-      const q = query(
-        collection(db, 'announcements'),
-        where('isLive', '==', true)
-      );
+      await updateDoc(doc(db, 'announcements', sessionId), { peakListeners });
+      return true;
+    } catch (error) {
+      console.error('Error recording peak listeners:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Server time of the session's last heartbeat, in milliseconds. Sessions
+   * written before heartbeats existed fall back to `startedAt`. A pending
+   * server timestamp reads as null: the write has only just happened.
+   */
+  static lastHeartbeatMillis(data: any): number | null {
+    return toMillis(data.lastHeartbeatAt) ?? toMillis(data.startedAt);
+  }
+
+  /**
+   * Whether a live announcement's lease has lapsed at `now`, which should be
+   * close to server time. Receivers do not use this; they time heartbeats on
+   * their own clock (`FirebaseListenerService`). The rules check crash cleanup
+   * against server time whatever this says.
+   */
+  static isLeaseExpired(data: any, now: number = Date.now()): boolean {
+    const heartbeat = this.lastHeartbeatMillis(data);
+    return heartbeat !== null && heartbeat + this.LEASE_DURATION_MS < now;
+  }
+
+  /**
+   * End live sessions whose lease has lapsed, however long they have run.
+   * Useful after app crash or network failure. SenderDashboard runs it for
+   * its own sender on mount; without `senderId` it sweeps every sender.
+   */
+  static async cleanupStaleSessions(senderId?: string): Promise<void> {
+    try {
+      const q = senderId
+        ? query(
+            collection(db, 'announcements'),
+            where('senderId', '==', senderId),
+            where('isLive', '==', true)
+          )
+        : query(collection(db, 'announcements'), where('isLive', '==', true));
       const snapshot = await getDocs(q);
 
       const batch = writeBatch(db);
       snapshot.docs.forEach((docSnapshot: any) => {
-        const data = docSnapshot.data();
-        if (data.startedAt && data.startedAt.toDate() < cutoffTime) {
-          batch.update(docSnapshot.ref, { isLive: false });
+        if (this.isLeaseExpired(docSnapshot.data())) {
+          batch.update(docSnapshot.ref, {
+            isLive: false,
+            endedAt: serverTimestamp(),
+            endedReason: 'crash_cleanup',
+          });
         }
       });
 
@@ -124,3 +263,14 @@ export class ChannelManager {
     }
   }
 }
+
+/**
+ * Read a Firestore Timestamp, Date or epoch value as milliseconds.
+ */
+function toMillis(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  return null;
+}
@@ -0,0 +1,85 @@
+import { AudioEngine, AudioEngineEvent, AudioEngineEvents, AudioEventEmitter, AudioRole } from './audioEngine';
+
+/**
+ * In-memory AudioEngine for tests. Records what the app asked for and lets
+ * the test raise engine events with `emit`.
+ */
+export class FakeAudioEngine implements AudioEngine {
+  created = false;
+  destroyed = false;
+  role: AudioRole | null = null;
+  channelName: string | null = null;
+  uid: number | null = null;
+  token: string | null = null;
+  /** Every token handed to renewToken, in order. */
+  renewedTokens: string[] = [];
+  /** Make the next join/renewToken call reject with this error. */
+  failNext: { join?: Error; renewToken?: Error } = {};
+
+  private emitter = new AudioEventEmitter();
+
+  async create(): Promise<void> {
+    this.created = true;
+  }
+
+  async setRole(role: AudioRole): Promise<void> {
+    this.requireCreated();
+    this.role = role;
+  }
+
+  async join(token: string, channelName: string, uid: number): Promise<void> {
+    this.requireCreated();
+    const error = this.failNext.join;
+    if (error) {
+      this.failNext.join = undefined;
+      throw error;
+    }
+    this.token = token;
+    this.channelName = channelName;
+    this.uid = uid;
+  }
+
+  async leave(): Promise<void> {
+    this.requireCreated();
+    this.channelName = null;
+    this.uid = null;
+    this.token = null;
+  }
+
+  async renewToken(token: string): Promise<void> {
+    this.requireCreated();
+    const error = this.failNext.renewToken;
+    if (error) {
+      this.failNext.renewToken = undefined;
+      throw error;
+    }
+    this.token = token;
+    this.renewedTokens.push(token);
+  }
+
+  on<E extends AudioEngineEvent>(event: E, listener: AudioEngineEvents[E]): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  /** Raise an engine event as the native SDK would. */
+  emit<E extends AudioEngineEvent>(event: E, ...args: Parameters<AudioEngineEvents[E]>): void {
+    this.emitter.emit(event, ...args);
+  }
+
+  get isJoined(): boolean {
+    return this.channelName !== null;
+  }
+
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    this.created = false;
+    this.channelName = null;
+    this.emitter.clear();
+  }
+
+  private requireCreated(): void {
+    if (!this.created) {
+      throw new Error('Audio engine not created');
+    }
+  }
+}
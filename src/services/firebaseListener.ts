@@ -1,40 +1,86 @@
-import { onSnapshot, collection, query, where } from 'firebase/firestore';
+import { onSnapshot, collection, doc, query, where } from 'firebase/firestore';
 import { db } from './firebase';
+import { ChannelManager } from './channelManager';
 
 export interface AnnouncementData {
   sessionId: string;
   senderId: string;
   channelName: string;
-  agoraToken: string;
   startedAt: Date;
   isLive: boolean;
   expiresAt?: Date;
+  lastHeartbeatAt?: Date;
+  /** Receivers the broadcast targets, resolved from the sender's groups at start. */
+  mappedReceiverIds?: string[];
 }
 
 interface ListenerCallbacks {
   onNewAnnouncement?: (announcement: AnnouncementData) => void;
   onAnnouncementEnded?: (sessionId: string, channelName: string) => void;
+  /** The sender stopped renewing its lease; fired just before onAnnouncementEnded. */
+  onSenderLost?: (sessionId: string, channelName: string) => void;
+  onSubscriptionsChanged?: (senderIds: string[]) => void;
   onError?: (error: Error) => void;
 }
 
+/**
+ * One Firestore listener over a slice of the followed senders.
+ * `senderIds` is null for the unfiltered (all live announcements) listener.
+ */
+interface ListenerShard {
+  senderIds: string[] | null;
+  announcements: Map<string, AnnouncementData>;
+  unsubscribe: (() => void) | null;
+}
+
 /**
  * Listen to announcements collection with real-time updates.
  * Automatically handles:
  * - New announcements (isLive: true)
  * - Ended announcements (isLive: false)
  * - Receiver auto-join logic
+ * - Follow/unfollow while listening (via `subscriptions/{receiverId}`)
+ * - Sender lost (live announcement whose heartbeat lease has lapsed)
+ * - Targeting: receivers skip broadcasts whose `mappedReceiverIds` leave them out
+ *
+ * Receivers only query their followed senders: the sender list is split into
+ * `senderId in [...]` shards (Firestore caps `in` at 30 values), and the shards'
+ * results are merged before callbacks fire.
  */
 export class FirebaseListenerService {
-  private unsubscribe: any = null;
-  private activeChannels: Set<string> = new Set();
+  private static readonly MAX_IN_QUERY_SIZE = 30;
+  private static readonly LEASE_CHECK_INTERVAL_MS = 5 * 1000;
+
+  private isListening = false;
+  private leaseCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private subscriptionUnsubscribe: any = null;
+  private callbacks: ListenerCallbacks = {};
+  private shards: ListenerShard[] = [];
+  /** Channels reported to the caller, mapped to their document ID. */
+  private activeChannels: Map<string, string> = new Map();
+  /** Senders to accept announcements from; null means no filtering. */
+  private followedSenderIds: Set<string> | null = null;
+  /** The listening receiver, to skip broadcasts targeted at other receivers. */
+  private receiverId: string | null = null;
+  /**
+   * Per announcement, the last heartbeat seen and when it arrived on this
+   * device's clock. Leases are timed from arrival, so a sender or receiver
+   * clock that is off never makes a healthy broadcast look lost, or a crashed
+   * one look alive.
+   */
+  private heartbeats: Map<string, { heartbeat: number | null; seenAt: number }> = new Map();
 
   /**
    * Start listening to live announcements.
-   * For receivers, filter announcements based on user's mappings.
+   * For receivers, only announcements from subscribed senders are queried, so
+   * a sender is heard only once the receiver approved it; a receiver with no
+   * senders queries nothing. When a userId is given, the receiver's
+   * `subscriptions` document is watched so the queries follow mapping changes
+   * made while listening.
    * @param callbacks Callbacks for new, ended, and error events
    * @param userRole 'sender' or 'receiver'
    * @param userId Current user's UID
-   * @param receivesFromSenderIds Optional: List of sender IDs this receiver listens to
+   * @param receivesFromSenderIds Optional: Initial list of sender IDs this receiver listens to
    */
   startListening(
     callbacks: ListenerCallbacks,
@@ -42,54 +88,30 @@ export class FirebaseListenerService {
     userId?: string,
     receivesFromSenderIds?: string[]
   ): void {
-    if (this.unsubscribe) {
+    if (this.isListening) {
       console.warn('Listener already active. Call stopListening() first.');
       return;
     }
 
+    this.isListening = true;
+    this.callbacks = callbacks;
+
     try {
-      // Query live announcements
-      const q = query(collection(db, 'announcements'), where('isLive', '==', true));
-
-      this.unsubscribe = onSnapshot(
-        q,
-        (snapshot: any) => {
-          snapshot.docChanges().forEach((change: any) => {
-            const data = change.doc.data() as AnnouncementData;
-            const docId = change.doc.id;
-
-            if (change.type === 'added' || change.type === 'modified') {
-              // Check if receiver should listen to this sender
-              if (
-                userRole === 'receiver' &&
-                receivesFromSenderIds &&
-                !receivesFromSenderIds.includes(data.senderId)
-              ) {
-                return; // Skip if not in receiver's mapping
-              }
-
-              if (data.isLive) {
-                // New or still-live announcement
-                if (!this.activeChannels.has(data.channelName)) {
-                  this.activeChannels.add(data.channelName);
-                  callbacks.onNewAnnouncement?.(data);
-                }
-              }
-            }
-
-            if (change.type === 'removed' || (change.type === 'modified' && !data.isLive)) {
-              // Announcement ended or was deleted
-              if (this.activeChannels.has(data.channelName)) {
-                this.activeChannels.delete(data.channelName);
-                callbacks.onAnnouncementEnded?.(docId, data.channelName);
-              }
-            }
-          });
-        },
-        (error: any) => {
-          console.error('Firestore listener error:', error);
-          callbacks.onError?.(error);
+      if (userRole === 'receiver') {
+        this.receiverId = userId ?? null;
+        // Wait for the subscription document if no initial list was given
+        this.updateFollowedSenders(receivesFromSenderIds || []);
+        if (userId) {
+          this.watchSubscriptions(userId);
         }
+      } else {
+        this.openShard(null, new Map());
+      }
+
+      // Leases lapse without any document change, so re-check on a timer
+      this.leaseCheckTimer = setInterval(
+        () => this.reconcile(),
+        FirebaseListenerService.LEASE_CHECK_INTERVAL_MS
       );
     } catch (error) {
       console.error('Error setting up Firestore listener:', error);
@@ -97,14 +119,185 @@ export class FirebaseListenerService {
     }
   }
 
+  /**
+   * Watch the receiver's subscription document and re-shard on change.
+   */
+  private watchSubscriptions(receiverId: string): void {
+    this.subscriptionUnsubscribe = onSnapshot(
+      doc(db, 'subscriptions', receiverId),
+      (snapshot: any) => {
+        const senderIds: string[] = snapshot.exists() ? snapshot.data().senderIds || [] : [];
+        this.callbacks.onSubscriptionsChanged?.(senderIds);
+        this.updateFollowedSenders(senderIds);
+      },
+      (error: any) => {
+        console.error('Subscription listener error:', error);
+        this.callbacks.onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Replace the followed sender set, re-sharding queries as needed.
+   * Senders that stay followed keep their shard where possible; shards that
+   * must be rebuilt carry their last results over, so nothing flaps while
+   * the new listener attaches.
+   */
+  private updateFollowedSenders(senderIds: string[]): void {
+    const next = new Set(senderIds);
+    this.followedSenderIds = next;
+
+    // Drop unfollowed senders from their shards
+    [...this.shards].forEach((shard) => {
+      if (!shard.senderIds) return;
+      const remaining = shard.senderIds.filter((id) => next.has(id));
+      if (remaining.length === shard.senderIds.length) return;
+
+      this.closeShard(shard);
+      if (remaining.length > 0) {
+        this.openShard(remaining, shard.announcements);
+      }
+    });
+
+    // Add newly followed senders, filling the last shard before opening new ones
+    const assigned = new Set(this.shards.flatMap((shard) => shard.senderIds || []));
+    const added = Array.from(next).filter((id) => !assigned.has(id));
+    const maxSize = FirebaseListenerService.MAX_IN_QUERY_SIZE;
+    while (added.length > 0) {
+      const last = this.shards[this.shards.length - 1];
+      if (last?.senderIds && last.senderIds.length < maxSize) {
+        this.closeShard(last);
+        this.openShard(
+          [...last.senderIds, ...added.splice(0, maxSize - last.senderIds.length)],
+          last.announcements
+        );
+      } else {
+        this.openShard(added.splice(0, maxSize), new Map());
+      }
+    }
+
+    this.reconcile();
+  }
+
+  private openShard(senderIds: string[] | null, seed: Map<string, AnnouncementData>): void {
+    const shard: ListenerShard = { senderIds, announcements: new Map(seed), unsubscribe: null };
+    this.shards.push(shard);
+
+    const q = senderIds
+      ? query(
+          collection(db, 'announcements'),
+          where('senderId', 'in', senderIds),
+          where('isLive', '==', true)
+        )
+      : query(collection(db, 'announcements'), where('isLive', '==', true));
+
+    shard.unsubscribe = onSnapshot(
+      q,
+      (snapshot: any) => {
+        // The snapshot holds the shard's full result set; replace rather than patch
+        shard.announcements = new Map();
+        snapshot.docs.forEach((docSnapshot: any) => {
+          const data = docSnapshot.data() as AnnouncementData;
+          if (data.isLive) {
+            shard.announcements.set(docSnapshot.id, data);
+          }
+        });
+        this.reconcile();
+      },
+      (error: any) => {
+        console.error('Firestore listener error:', error);
+        this.callbacks.onError?.(error);
+      }
+    );
+  }
+
+  private closeShard(shard: ListenerShard): void {
+    shard.unsubscribe?.();
+    this.shards = this.shards.filter((s) => s !== shard);
+  }
+
+  /**
+   * Diff the followed live announcements across all shards against what the
+   * caller has been told, firing ended/new callbacks for the difference. Newly
+   * followed senders that are already live are reported here too, and
+   * announcements whose lease has lapsed are reported as sender lost.
+   */
+  private reconcile(): void {
+    const now = Date.now();
+    const eligible = new Map<string, { docId: string; data: AnnouncementData }>();
+    const lost = new Set<string>();
+    this.shards.forEach((shard) => {
+      shard.announcements.forEach((data, docId) => {
+        if (this.followedSenderIds && !this.followedSenderIds.has(data.senderId)) {
+          return;
+        }
+        if (this.receiverId && data.mappedReceiverIds && !data.mappedReceiverIds.includes(this.receiverId)) {
+          return;
+        }
+        if (this.hasLeaseLapsed(docId, data, now)) {
+          lost.add(docId);
+        } else {
+          eligible.set(data.channelName, { docId, data });
+        }
+      });
+    });
+
+    this.activeChannels.forEach((docId, channelName) => {
+      if (eligible.get(channelName)?.docId !== docId) {
+        this.activeChannels.delete(channelName);
+        if (lost.has(docId)) {
+          this.callbacks.onSenderLost?.(docId, channelName);
+        }
+        this.callbacks.onAnnouncementEnded?.(docId, channelName);
+      }
+    });
+
+    eligible.forEach(({ docId, data }, channelName) => {
+      if (!this.activeChannels.has(channelName)) {
+        this.activeChannels.set(channelName, docId);
+        this.callbacks.onNewAnnouncement?.(data);
+      }
+    });
+
+    const current = new Set(this.shards.flatMap((shard) => Array.from(shard.announcements.keys())));
+    Array.from(this.heartbeats.keys())
+      .filter((docId) => !current.has(docId))
+      .forEach((docId) => this.heartbeats.delete(docId));
+  }
+
+  /**
+   * Whether no new heartbeat has arrived for a lease. An announcement seen for
+   * the first time counts as just renewed.
+   */
+  private hasLeaseLapsed(docId: string, data: AnnouncementData, now: number): boolean {
+    const heartbeat = ChannelManager.lastHeartbeatMillis(data);
+    const seen = this.heartbeats.get(docId);
+    if (!seen || seen.heartbeat !== heartbeat) {
+      this.heartbeats.set(docId, { heartbeat, seenAt: now });
+      return false;
+    }
+    return now - seen.seenAt > ChannelManager.LEASE_DURATION_MS;
+  }
+
   /**
    * Stop listening to announcements.
    */
   stopListening(): void {
-    if (this.unsubscribe) {
-      this.unsubscribe();
-      this.unsubscribe = null;
+    if (this.subscriptionUnsubscribe) {
+      this.subscriptionUnsubscribe();
+      this.subscriptionUnsubscribe = null;
+    }
+    if (this.leaseCheckTimer) {
+      clearInterval(this.leaseCheckTimer);
+      this.leaseCheckTimer = null;
+    }
+    if (this.isListening) {
+      [...this.shards].forEach((shard) => this.closeShard(shard));
+      this.isListening = false;
       this.activeChannels.clear();
+      this.followedSenderIds = null;
+      this.receiverId = null;
+      this.heartbeats.clear();
     }
   }
 
@@ -112,7 +305,7 @@ export class FirebaseListenerService {
    * Get currently active channels.
    */
   getActiveChannels(): string[] {
-    return Array.from(this.activeChannels);
+    return Array.from(this.activeChannels.keys());
   }
 
   /**
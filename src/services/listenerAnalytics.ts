@@ -0,0 +1,227 @@
+import { db } from './firebase';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+  updateDoc,
+} from 'firebase/firestore';
+
+export type ListenerEventType = 'join' | 'leave';
+
+export interface ListenerEvent {
+  receiverId: string;
+  type: ListenerEventType;
+  at: Date;
+}
+
+/** One receiver's listening time in a broadcast. */
+export interface ListenerSummary {
+  receiverId: string;
+  /** Times the receiver (re)joined. */
+  joins: number;
+  firstJoinedAt: Date;
+  listenedSeconds: number;
+}
+
+export interface ListenerStats {
+  peakConcurrent: number;
+  /** Mean listeners over the whole broadcast. */
+  averageConcurrent: number;
+  listenerMinutes: number;
+  uniqueListeners: number;
+  /** Receivers mapped when the broadcast started. */
+  mappedReceivers: number;
+  /** Mapped receivers who listened at all. */
+  reachedReceivers: number;
+  /** reachedReceivers / mappedReceivers, 0 when nobody was mapped. */
+  reach: number;
+  listeners: ListenerSummary[];
+}
+
+interface Interval {
+  receiverId: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Compute listener statistics from a session's join/leave events.
+ * - Events are clamped to the broadcast window; a listener still joined when
+ *   it ended (or whose leave was never written, e.g. after a crash) is
+ *   counted until `endedAt`
+ * - A repeated join without a leave in between is ignored, as is a leave
+ *   without a join
+ *
+ * The backend's delivery report credits listening the same way; keep
+ * `__tests__/fixtures/listenerIntervals.json` passing in both.
+ */
+export function computeListenerStats(
+  events: ListenerEvent[],
+  startedAt: Date,
+  endedAt: Date,
+  mappedReceiverIds: string[] = []
+): ListenerStats {
+  const windowStart = startedAt.getTime();
+  const windowEnd = Math.max(windowStart, endedAt.getTime());
+  const clamp = (time: number) => Math.min(windowEnd, Math.max(windowStart, time));
+
+  const intervals: Interval[] = [];
+  const openSince = new Map<string, number>();
+  const joins = new Map<string, number>();
+
+  [...events]
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .forEach((event) => {
+      const time = clamp(event.at.getTime());
+      const open = openSince.get(event.receiverId);
+      if (event.type === 'join') {
+        if (open !== undefined) return;
+        openSince.set(event.receiverId, time);
+        joins.set(event.receiverId, (joins.get(event.receiverId) || 0) + 1);
+      } else if (open !== undefined) {
+        openSince.delete(event.receiverId);
+        intervals.push({ receiverId: event.receiverId, start: open, end: time });
+      }
+    });
+  openSince.forEach((start, receiverId) => {
+    intervals.push({ receiverId, start, end: windowEnd });
+  });
+
+  // Sweep the interval edges; at equal times leaves go first so a rejoin
+  // does not count the same listener twice
+  const edges = intervals
+    .flatMap((interval) => [
+      { time: interval.start, delta: 1 },
+      { time: interval.end, delta: -1 },
+    ])
+    .sort((a, b) => a.time - b.time || a.delta - b.delta);
+  let concurrent = 0;
+  let peakConcurrent = 0;
+  edges.forEach((edge) => {
+    concurrent += edge.delta;
+    peakConcurrent = Math.max(peakConcurrent, concurrent);
+  });
+
+  const byReceiver = new Map<string, ListenerSummary>();
+  intervals.forEach((interval) => {
+    const summary = byReceiver.get(interval.receiverId) || {
+      receiverId: interval.receiverId,
+      joins: joins.get(interval.receiverId) || 0,
+      firstJoinedAt: new Date(interval.start),
+      listenedSeconds: 0,
+    };
+    summary.listenedSeconds += (interval.end - interval.start) / 1000;
+    if (interval.start < summary.firstJoinedAt.getTime()) {
+      summary.firstJoinedAt = new Date(interval.start);
+    }
+    byReceiver.set(interval.receiverId, summary);
+  });
+
+  const listeners = Array.from(byReceiver.values())
+    .map((summary) => ({ ...summary, listenedSeconds: Math.round(summary.listenedSeconds) }))
+    .sort((a, b) => a.firstJoinedAt.getTime() - b.firstJoinedAt.getTime());
+  const listenedSeconds = intervals.reduce((sum, i) => sum + (i.end - i.start) / 1000, 0);
+  const durationSeconds = (windowEnd - windowStart) / 1000;
+  const mapped = new Set(mappedReceiverIds);
+  const reachedReceivers = listeners.filter((l) => mapped.has(l.receiverId)).length;
+
+  return {
+    peakConcurrent,
+    averageConcurrent: durationSeconds > 0 ? round2(listenedSeconds / durationSeconds) : 0,
+    listenerMinutes: round2(listenedSeconds / 60),
+    uniqueListeners: listeners.length,
+    mappedReceivers: mapped.size,
+    reachedReceivers,
+    reach: mapped.size > 0 ? round2(reachedReceivers / mapped.size) : 0,
+    listeners,
+  };
+}
+
+/**
+ * Join/leave events live in `announcements/{sessionId}/listenerEvents`.
+ * Receivers write their own events; the sender reads them after the
+ * broadcast and stores the summary on the announcement as `listenerStats`.
+ */
+export class ListenerAnalytics {
+  private static readonly EVENTS_COLLECTION = 'listenerEvents';
+
+  /**
+   * Record that a receiver started or stopped listening. Failures are logged,
+   * never thrown: analytics must not get in the way of audio.
+   */
+  static async recordEvent(
+    sessionId: string,
+    receiverId: string,
+    type: ListenerEventType
+  ): Promise<boolean> {
+    try {
+      await addDoc(collection(db, 'announcements', sessionId, this.EVENTS_COLLECTION), {
+        receiverId,
+        type,
+        at: serverTimestamp(),
+      });
+      return true;
+    } catch (error) {
+      console.error(`Error recording listener ${type}:`, error);
+      return false;
+    }
+  }
+
+  static async loadEvents(sessionId: string): Promise<ListenerEvent[]> {
+    const snapshot = await getDocs(
+      collection(db, 'announcements', sessionId, this.EVENTS_COLLECTION)
+    );
+    return snapshot.docs
+      .map((docSnapshot: any) => docSnapshot.data())
+      .filter((data: any) => data.at)
+      .map((data: any) => ({
+        receiverId: data.receiverId,
+        type: data.type,
+        at: toDate(data.at),
+      }));
+  }
+
+  /**
+   * Compute and store the stats for an ended session. Returns null if the
+   * session or its events could not be read.
+   */
+  static async summarizeSession(sessionId: string): Promise<ListenerStats | null> {
+    try {
+      const announcementRef = doc(db, 'announcements', sessionId);
+      const announcement = await getDoc(announcementRef);
+      if (!announcement.exists()) {
+        return null;
+      }
+      const data = announcement.data();
+      const events = await this.loadEvents(sessionId);
+      const stats = computeListenerStats(
+        events,
+        toDate(data.startedAt),
+        data.endedAt ? toDate(data.endedAt) : new Date(),
+        data.mappedReceiverIds || []
+      );
+
+      const { listeners, ...totals } = stats;
+      await updateDoc(announcementRef, {
+        listenerStats: totals,
+        peakListeners: Math.max(data.peakListeners || 0, stats.peakConcurrent),
+      });
+      return stats;
+    } catch (error) {
+      console.error('Error summarizing listener analytics:', error);
+      return null;
+    }
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDate(value: any): Date {
+  if (typeof value?.toDate === 'function') return value.toDate();
+  return new Date(value);
+}
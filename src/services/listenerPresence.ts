@@ -0,0 +1,178 @@
+import { db } from './firebase';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+
+export interface PresenceEntry {
+  receiverId: string;
+  joinedAt: Date | null;
+  lastSeenAt: Date | null;
+}
+
+/**
+ * Who is listening to a broadcast right now.
+ *
+ * While joined, a receiver keeps a document at
+ * `announcements/{sessionId}/presence/{receiverId}` and refreshes its
+ * `lastSeenAt` every HEARTBEAT_INTERVAL_MS; it deletes the document when it
+ * leaves. Documents not refreshed for STALE_AFTER_MS (the receiver crashed or
+ * lost its network) are ignored by `listen()`. That is timed on the watching
+ * device from when each refresh arrives, so its clock need not agree with
+ * the server's.
+ */
+export class ListenerPresence {
+  private static readonly COLLECTION = 'presence';
+  static readonly HEARTBEAT_INTERVAL_MS = 30 * 1000;
+  /** Three missed heartbeats before a listener is dropped. */
+  static readonly STALE_AFTER_MS = 90 * 1000;
+
+  private timers: Map<string, ReturnType<typeof setInterval>> = new Map();
+
+  constructor(private readonly receiverId: string) {}
+
+  /**
+   * Mark this receiver as listening to a session and keep the mark fresh.
+   */
+  async join(sessionId: string): Promise<boolean> {
+    this.stopHeartbeat(sessionId);
+    try {
+      await setDoc(this.ref(sessionId), {
+        receiverId: this.receiverId,
+        joinedAt: serverTimestamp(),
+        lastSeenAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error writing presence:', error);
+      return false;
+    }
+
+    this.timers.set(
+      sessionId,
+      setInterval(() => {
+        updateDoc(this.ref(sessionId), { lastSeenAt: serverTimestamp() }).catch((error: any) =>
+          console.error('Error refreshing presence:', error)
+        );
+      }, ListenerPresence.HEARTBEAT_INTERVAL_MS)
+    );
+    return true;
+  }
+
+  /**
+   * Clear this receiver's presence for a session.
+   */
+  async leave(sessionId: string): Promise<boolean> {
+    this.stopHeartbeat(sessionId);
+    try {
+      await deleteDoc(this.ref(sessionId));
+      return true;
+    } catch (error) {
+      console.error('Error clearing presence:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Leave every session this instance joined, e.g. on unmount.
+   */
+  leaveAll(): void {
+    Array.from(this.timers.keys()).forEach((sessionId) => {
+      this.leave(sessionId);
+    });
+  }
+
+  private stopHeartbeat(sessionId: string): void {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  private ref(sessionId: string) {
+    return doc(db, 'announcements', sessionId, ListenerPresence.COLLECTION, this.receiverId);
+  }
+
+  /**
+   * Whether a listener has missed too many heartbeats.
+   * @param seenAt When its latest `lastSeenAt` arrived, on this device's clock
+   */
+  static isStale(seenAt: number, now: number = Date.now()): boolean {
+    return now - seenAt > this.STALE_AFTER_MS;
+  }
+
+  /**
+   * Listen to the current listeners of a session, in the order they joined.
+   * Re-checks staleness every heartbeat interval, since a crashed receiver
+   * produces no further snapshots. Returns an unsubscribe function.
+   */
+  static listen(
+    sessionId: string,
+    onChange: (listeners: PresenceEntry[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    let entries: PresenceEntry[] = [];
+    // Each listener's latest heartbeat and when it arrived here
+    const heartbeats = new Map<string, { lastSeenAt: number | null; seenAt: number }>();
+    const emit = () => {
+      const now = Date.now();
+      onChange(
+        entries.filter((entry) => !this.isStale(heartbeats.get(entry.receiverId)!.seenAt, now))
+      );
+    };
+
+    const unsubscribe = onSnapshot(
+      collection(db, 'announcements', sessionId, this.COLLECTION),
+      (snapshot: any) => {
+        entries = snapshot.docs
+          .map((docSnapshot: any) => fromFirestore(docSnapshot.data()))
+          .sort(
+            (a: PresenceEntry, b: PresenceEntry) =>
+              (a.joinedAt?.getTime() ?? Infinity) - (b.joinedAt?.getTime() ?? Infinity)
+          );
+        const now = Date.now();
+        const present = new Set<string>();
+        entries.forEach((entry) => {
+          const lastSeenAt = entry.lastSeenAt?.getTime() ?? null;
+          present.add(entry.receiverId);
+          if (heartbeats.get(entry.receiverId)?.lastSeenAt !== lastSeenAt) {
+            heartbeats.set(entry.receiverId, { lastSeenAt, seenAt: now });
+          }
+        });
+        Array.from(heartbeats.keys())
+          .filter((receiverId) => !present.has(receiverId))
+          .forEach((receiverId) => heartbeats.delete(receiverId));
+        emit();
+      },
+      (error: any) => {
+        console.error('Presence listener error:', error);
+        onError?.(error);
+      }
+    );
+    const recheck = setInterval(emit, this.HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(recheck);
+      unsubscribe();
+    };
+  }
+}
+
+function fromFirestore(data: any): PresenceEntry {
+  return {
+    receiverId: data.receiverId,
+    joinedAt: toDate(data.joinedAt),
+    lastSeenAt: toDate(data.lastSeenAt),
+  };
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  return new Date(value);
+}
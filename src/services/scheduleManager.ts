@@ -0,0 +1,218 @@
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import {
+  calculatePrayerTimes,
+  prayerTimeToDate,
+  toDateKey,
+  PrayerName,
+  PrayerTimesSettings,
+} from '../utils/prayerTimes';
+
+/**
+ * When a scheduled broadcast should start: either a fixed moment, or an offset
+ * (negative = before) from one of the day's prayers.
+ */
+export type ScheduleTrigger =
+  | { type: 'fixed'; at: string }
+  | { type: 'prayer'; prayer: PrayerName; offsetMinutes: number };
+
+export type ScheduleStatus = 'pending' | 'triggered' | 'cancelled';
+
+export interface ScheduledAnnouncement {
+  id: string;
+  senderId: string;
+  title: string;
+  trigger: ScheduleTrigger;
+  /** Next resolved start time. Prayer-relative entries roll forward daily. */
+  scheduledFor: Date;
+  recurring: boolean;
+  status: ScheduleStatus;
+}
+
+/**
+ * Scheduled broadcasts live in the `scheduledAnnouncements` collection.
+ * The sender app resolves prayer-relative triggers against its own prayer
+ * settings and stores the absolute `scheduledFor` time, so receivers in other
+ * locations see the same countdown.
+ */
+export class ScheduleManager {
+  private static readonly COLLECTION = 'scheduledAnnouncements';
+  private static readonly MAX_IN_QUERY_SIZE = 30;
+
+  /**
+   * Resolve the next start time for a trigger after `now`.
+   * Prayer-relative triggers fall through to tomorrow once today's slot has passed.
+   */
+  static resolveScheduledTime(
+    trigger: ScheduleTrigger,
+    settings: PrayerTimesSettings,
+    now: Date = new Date()
+  ): Date | null {
+    if (trigger.type === 'fixed') {
+      const at = new Date(trigger.at);
+      return isNaN(at.getTime()) ? null : at;
+    }
+
+    for (let dayOffset = 0; dayOffset <= 1; dayOffset++) {
+      const day = new Date(now.getTime() + dayOffset * 24 * 3600000);
+      const dateKey = toDateKey(day, settings.timezone);
+      const times = calculatePrayerTimes(settings, dateKey);
+      const prayerAt = prayerTimeToDate(dateKey, times[trigger.prayer], settings.timezone);
+      if (!prayerAt) continue;
+
+      const at = new Date(prayerAt.getTime() + trigger.offsetMinutes * 60000);
+      if (at.getTime() > now.getTime()) {
+        return at;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Create a scheduled broadcast. Returns the new schedule ID, or null on failure.
+   */
+  static async createSchedule(
+    senderId: string,
+    title: string,
+    trigger: ScheduleTrigger,
+    settings: PrayerTimesSettings
+  ): Promise<string | null> {
+    try {
+      const scheduledFor = this.resolveScheduledTime(trigger, settings);
+      if (!scheduledFor) {
+        console.warn('Could not resolve a future time for schedule:', trigger);
+        return null;
+      }
+
+      const id = `${senderId}_${Date.now()}`;
+      await setDoc(doc(db, this.COLLECTION, id), {
+        id,
+        senderId,
+        title,
+        trigger,
+        scheduledFor,
+        recurring: trigger.type === 'prayer',
+        status: 'pending',
+        createdAt: serverTimestamp(),
+      });
+      return id;
+    } catch (error) {
+      console.error('Error creating schedule:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a pending scheduled broadcast.
+   */
+  static async cancelSchedule(scheduleId: string): Promise<boolean> {
+    try {
+      await updateDoc(doc(db, this.COLLECTION, scheduleId), { status: 'cancelled' });
+      return true;
+    } catch (error) {
+      console.error('Error cancelling schedule:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark a schedule as fired. Recurring entries roll forward to their next
+   * occurrence instead of being closed.
+   */
+  static async completeSchedule(
+    schedule: ScheduledAnnouncement,
+    settings: PrayerTimesSettings
+  ): Promise<boolean> {
+    try {
+      const ref = doc(db, this.COLLECTION, schedule.id);
+      const next = schedule.recurring
+        ? this.resolveScheduledTime(
+            schedule.trigger,
+            settings,
+            // Step past the slot that just fired
+            new Date(Math.max(Date.now(), schedule.scheduledFor.getTime()) + 60000)
+          )
+        : null;
+
+      if (next) {
+        await updateDoc(ref, { scheduledFor: next, lastTriggeredAt: serverTimestamp() });
+      } else {
+        await updateDoc(ref, { status: 'triggered', lastTriggeredAt: serverTimestamp() });
+      }
+      return true;
+    } catch (error) {
+      console.error('Error completing schedule:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Listen to pending schedules for the given senders, sorted by start time.
+   * Returns an unsubscribe function.
+   */
+  static listenToUpcoming(
+    senderIds: string[],
+    onChange: (schedules: ScheduledAnnouncement[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    // Firestore caps `in` queries, so shard the sender list and merge results
+    const shards = new Map<number, ScheduledAnnouncement[]>();
+    const unsubscribes: Array<() => void> = [];
+
+    const emit = () => {
+      const merged = Array.from(shards.values())
+        .flat()
+        .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+      onChange(merged);
+    };
+
+    if (senderIds.length === 0) {
+      onChange([]);
+      return () => {};
+    }
+
+    for (let i = 0; i < senderIds.length; i += this.MAX_IN_QUERY_SIZE) {
+      const shardIndex = i;
+      const q = query(
+        collection(db, this.COLLECTION),
+        where('senderId', 'in', senderIds.slice(i, i + this.MAX_IN_QUERY_SIZE)),
+        where('status', '==', 'pending')
+      );
+
+      unsubscribes.push(
+        onSnapshot(
+          q,
+          (snapshot: any) => {
+            shards.set(
+              shardIndex,
+              snapshot.docs.map((docSnapshot: any) => this.fromFirestore(docSnapshot.data()))
+            );
+            emit();
+          },
+          (error: any) => {
+            console.error('Schedule listener error:', error);
+            onError?.(error);
+          }
+        )
+      );
+    }
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+
+  private static fromFirestore(data: any): ScheduledAnnouncement {
+    return {
+      ...data,
+      scheduledFor: data.scheduledFor?.toDate ? data.scheduledFor.toDate() : new Date(data.scheduledFor),
+    };
+  }
+}
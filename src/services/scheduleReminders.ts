@@ -0,0 +1,171 @@
+import notifee, {
+  AndroidImportance,
+  EventType,
+  Notification,
+  TriggerType,
+} from '@notifee/react-native';
+import { ScheduledAnnouncement } from './scheduleManager';
+import { PrayerName } from '../utils/prayerTimes';
+
+/** What a reminder carries back to the app: enough to go live for it. */
+export interface ScheduleReminder {
+  scheduleId: string;
+  title: string;
+  prayer: PrayerName | null;
+}
+
+/**
+ * - `delivered`: the reminder went off while the app was open
+ * - `opened`: the muezzin tapped it
+ * - `start`: the muezzin tapped its Start Broadcast action
+ */
+export type ReminderAction = 'delivered' | 'opened' | 'start';
+
+/**
+ * Local notifications for the sender's pending schedules. Each schedule gets
+ * a trigger notification at its `scheduledFor` time, so the muezzin is
+ * alerted even when the app is in the background or closed. Failures are
+ * logged, never thrown.
+ */
+export class ScheduleReminders {
+  private static readonly CHANNEL_ID = 'scheduled-broadcasts';
+  private static readonly CATEGORY_ID = 'scheduled-broadcast';
+  private static readonly START_ACTION = 'start_broadcast';
+  // Keeps our trigger notifications apart from any others
+  private static readonly ID_PREFIX = 'schedule_';
+
+  /**
+   * Ask for permission to notify and register the Android channel and the
+   * iOS Start Broadcast action. Safe to call more than once.
+   */
+  static async setup(): Promise<boolean> {
+    try {
+      await notifee.requestPermission();
+      await notifee.createChannel({
+        id: this.CHANNEL_ID,
+        name: 'Scheduled broadcasts',
+        importance: AndroidImportance.HIGH,
+        vibration: true,
+      });
+      await notifee.setNotificationCategories([
+        {
+          id: this.CATEGORY_ID,
+          actions: [{ id: this.START_ACTION, title: 'Start Broadcast', foreground: true }],
+        },
+      ]);
+      return true;
+    } catch (error) {
+      console.error('Error setting up schedule reminders:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Make the pending reminders match `schedules`: one per schedule still in
+   * the future, moved if its time changed, and none for schedules that are
+   * gone or already due.
+   */
+  static async sync(schedules: ScheduledAnnouncement[], now: number = Date.now()): Promise<void> {
+    try {
+      const upcoming = schedules.filter((schedule) => schedule.scheduledFor.getTime() > now);
+      const keep = new Set(upcoming.map((schedule) => this.ID_PREFIX + schedule.id));
+
+      const existing = await notifee.getTriggerNotificationIds();
+      await Promise.all(
+        existing
+          .filter((id) => id.startsWith(this.ID_PREFIX) && !keep.has(id))
+          .map((id) => notifee.cancelTriggerNotification(id))
+      );
+      // Creating with an existing id replaces that reminder
+      await Promise.all(
+        upcoming.map((schedule) =>
+          notifee.createTriggerNotification(this.toNotification(schedule), {
+            type: TriggerType.TIMESTAMP,
+            timestamp: schedule.scheduledFor.getTime(),
+          })
+        )
+      );
+    } catch (error) {
+      console.error('Error scheduling broadcast reminders:', error);
+    }
+  }
+
+  /**
+   * Listen for reminders going off or being tapped while the app is open,
+   * including the tap that launched it. Returns an unsubscribe function.
+   */
+  static listen(onReminder: (reminder: ScheduleReminder, action: ReminderAction) => void): () => void {
+    let active = true;
+    const handle = (notification: Notification | undefined, action: ReminderAction) => {
+      const reminder = this.fromNotification(notification);
+      if (active && reminder) {
+        onReminder(reminder, action);
+      }
+    };
+
+    notifee
+      .getInitialNotification()
+      .then((initial) => {
+        if (initial) {
+          handle(initial.notification, this.actionFor(initial.pressAction.id));
+        }
+      })
+      .catch((error) => console.error('Error reading the launch notification:', error));
+
+    const unsubscribe = notifee.onForegroundEvent(({ type, detail }) => {
+      if (type === EventType.DELIVERED) {
+        handle(detail.notification, 'delivered');
+      } else if (type === EventType.PRESS || type === EventType.ACTION_PRESS) {
+        handle(detail.notification, this.actionFor(detail.pressAction?.id));
+      }
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }
+
+  private static toNotification(schedule: ScheduledAnnouncement): Notification {
+    return {
+      id: this.ID_PREFIX + schedule.id,
+      title: 'Scheduled Broadcast',
+      body: `"${schedule.title}" is due now.`,
+      data: {
+        scheduleId: schedule.id,
+        title: schedule.title,
+        prayer: schedule.trigger.type === 'prayer' ? schedule.trigger.prayer : '',
+      },
+      android: {
+        channelId: this.CHANNEL_ID,
+        pressAction: { id: 'default' },
+        actions: [
+          {
+            title: 'Start Broadcast',
+            pressAction: { id: this.START_ACTION, launchActivity: 'default' },
+          },
+        ],
+      },
+      ios: {
+        categoryId: this.CATEGORY_ID,
+        foregroundPresentationOptions: { banner: true, list: true, sound: true },
+      },
+    };
+  }
+
+  private static fromNotification(notification: Notification | undefined): ScheduleReminder | null {
+    const data = notification?.data;
+    if (!notification?.id?.startsWith(this.ID_PREFIX) || typeof data?.scheduleId !== 'string') {
+      return null;
+    }
+    return {
+      scheduleId: data.scheduleId,
+      title: String(data.title ?? ''),
+      prayer: data.prayer ? (data.prayer as PrayerName) : null,
+    };
+  }
+
+  private static actionFor(pressActionId: string | undefined): ReminderAction {
+    return pressActionId === this.START_ACTION ? 'start' : 'opened';
+  }
+}
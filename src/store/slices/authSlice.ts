@@ -1,10 +1,16 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { UserRole } from '../../types/api';
 
-interface UserState {
+export interface UserState {
   uid?: string;
   name?: string;
   email?: string;
-  role?: 'sender'|'receiver';
+  /** Unset while a new account's profile is still being created. */
+  role?: UserRole;
+  /** The role picked at sign-up, kept until its profile exists so creating it can be retried. */
+  signUpRole?: UserRole;
+  /** Why creating a new account's profile failed, if it did. */
+  setupError?: string;
   loading: boolean;
 }
 
@@ -16,16 +22,26 @@ const authSlice = createSlice({
   reducers: {
     setUser(state, action: PayloadAction<Partial<UserState>>) {
       Object.assign(state, action.payload, { loading: false });
+      if (state.role) {
+        state.signUpRole = undefined;
+        state.setupError = undefined;
+      }
+    },
+    profileSetupFailed(state, action: PayloadAction<{ role: UserRole; error: string }>) {
+      state.signUpRole = action.payload.role;
+      state.setupError = action.payload.error;
     },
     clearUser(state) {
       state.uid = undefined;
       state.name = undefined;
       state.email = undefined;
       state.role = undefined;
+      state.signUpRole = undefined;
+      state.setupError = undefined;
       state.loading = false;
     }
   }
 });
 
-export const { setUser, clearUser } = authSlice.actions;
+export const { setUser, profileSetupFailed, clearUser } = authSlice.actions;
 export default authSlice.reducer;
@@ -0,0 +1,92 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import {
+  calculatePrayerTimes,
+  toDateKey,
+  AsrMethod,
+  CalculationMethod,
+  HighLatitudeRule,
+  PrayerName,
+  PrayerTimes,
+  PrayerTimesSettings,
+} from '../../utils/prayerTimes';
+
+export interface PrayerTimesState {
+  settings: PrayerTimesSettings;
+  /** Day the timetable was computed for, as `YYYY-MM-DD`. */
+  date: string | null;
+  times: PrayerTimes | null;
+}
+
+// Default to Makkah until the user sets their location
+const initialState: PrayerTimesState = {
+  settings: {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezone: 3,
+    method: 'Makkah',
+    asrMethod: 'shafi',
+    highLatitudeRule: 'angleBased',
+    adjustments: {},
+  },
+  date: null,
+  times: null,
+};
+
+function recompute(state: PrayerTimesState) {
+  if (state.date) {
+    state.times = calculatePrayerTimes(state.settings, state.date);
+  }
+}
+
+const prayerTimesSlice = createSlice({
+  name: 'prayerTimes',
+  initialState,
+  reducers: {
+    setLocation: (
+      state,
+      action: PayloadAction<{ latitude: number; longitude: number; timezone: number }>
+    ) => {
+      Object.assign(state.settings, action.payload);
+      recompute(state);
+    },
+    setCalculationMethod: (state, action: PayloadAction<CalculationMethod>) => {
+      state.settings.method = action.payload;
+      recompute(state);
+    },
+    setAsrMethod: (state, action: PayloadAction<AsrMethod>) => {
+      state.settings.asrMethod = action.payload;
+      recompute(state);
+    },
+    setHighLatitudeRule: (state, action: PayloadAction<HighLatitudeRule>) => {
+      state.settings.highLatitudeRule = action.payload;
+      recompute(state);
+    },
+    setPrayerAdjustment: (
+      state,
+      action: PayloadAction<{ prayer: PrayerName; minutes: number }>
+    ) => {
+      state.settings.adjustments[action.payload.prayer] = action.payload.minutes;
+      recompute(state);
+    },
+    refreshPrayerTimes: {
+      reducer: (state, action: PayloadAction<{ date?: string; now: number }>) => {
+        // Defaults to today in the settings' timezone, not the device's
+        state.date =
+          action.payload.date ?? toDateKey(new Date(action.payload.now), state.settings.timezone);
+        recompute(state);
+      },
+      prepare: (date?: string) => ({ payload: { date, now: Date.now() } }),
+    },
+  },
+});
+
+export const {
+  setLocation,
+  setCalculationMethod,
+  setAsrMethod,
+  setHighLatitudeRule,
+  setPrayerAdjustment,
+  refreshPrayerTimes,
+} = prayerTimesSlice.actions;
+
+export default prayerTimesSlice.reducer;
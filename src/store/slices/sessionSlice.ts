@@ -1,10 +1,12 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ConnectionStatus } from '../../utils/connectionState';
 
 export interface SessionState {
   currentChannel: string | null;
   isLive: boolean;
   participants: number;
-  connectionStatus: 'idle' | 'connecting' | 'connected' | 'disconnected';
+  /** Driven by ConnectionMonitor (src/utils/connectionState.ts). */
+  connectionStatus: ConnectionStatus;
 }
 
 const initialState: SessionState = {
@@ -0,0 +1,65 @@
+/**
+ * Request and response models for the backend REST API (`src/services/api.ts`).
+ * Generated from `openapi/openapi.json`; run `npm run generate:api-types` after
+ * editing the spec. Timestamps arrive as ISO 8601 strings.
+ */
+import { components, operations } from './openapi.generated';
+
+type Schemas = components['schemas'];
+
+export type UserRole = Schemas['UserRole'];
+export type AgoraRole = Schemas['AgoraRole'];
+
+export type GenerateTokenRequest = Schemas['GenerateTokenRequest'];
+export type AgoraTokenResponse = Schemas['AgoraTokenResponse'];
+export type AgoraUidAllocation = Schemas['AgoraUidAllocation'];
+
+export type UserProfile = Schemas['UserProfile'];
+export type CreateUserRequest = Schemas['CreateUserRequest'];
+export type UpdateUserRequest = Schemas['UpdateUserRequest'];
+
+/** `mappings/{senderId}`: the receivers a sender broadcasts to. */
+export type SenderMapping = Schemas['SenderMapping'];
+/** `mappings/{senderId}/groups/{groupId}`: a named subset of the mapping. */
+export type ReceiverGroup = Schemas['ReceiverGroup'];
+export type CreateReceiverGroupRequest = Schemas['CreateReceiverGroupRequest'];
+export type UpdateReceiverGroupRequest = Schemas['UpdateReceiverGroupRequest'];
+export type ResolveRecipientsRequest = Schemas['ResolveRecipientsRequest'];
+export type ResolvedRecipients = Schemas['ResolvedRecipients'];
+/** One receiver to import: matched to a user by email, optionally into a group. */
+export type RecipientRow = Schemas['RecipientRow'];
+export type ImportRecipientsRequest = Schemas['ImportRecipientsRequest'];
+export type ImportRowStatus = Schemas['ImportRowStatus'];
+export type ImportRowResult = Schemas['ImportRowResult'];
+export type ImportRecipientsResult = Schemas['ImportRecipientsResult'];
+export type ExportedRecipient = Schemas['ExportedRecipient'];
+export type RecipientExport = Schemas['RecipientExport'];
+export type InviteStatus = Schemas['InviteStatus'];
+export type Invite = Schemas['Invite'];
+export type CreateInviteRequest = Schemas['CreateInviteRequest'];
+export type InvitePreview = Schemas['InvitePreview'];
+export type InviteAcceptance = Schemas['InviteAcceptance'];
+
+/** `subscriptions/{receiverId}`: reverse index of mappings. */
+export type ReceiverSubscriptions = Schemas['ReceiverSubscriptions'];
+export type SubscriptionRequestStatus = Schemas['SubscriptionRequestStatus'];
+export type SubscriptionRequest = Schemas['SubscriptionRequest'];
+export type IncomingSubscriptionRequest = Schemas['IncomingSubscriptionRequest'];
+
+export type Announcement = Schemas['Announcement'];
+export type CreateAnnouncementRequest = Schemas['CreateAnnouncementRequest'];
+export type UpdateAnnouncementRequest = Schemas['UpdateAnnouncementRequest'];
+export type EndedReason = Schemas['EndedReason'];
+export type DeliveryStatus = Schemas['DeliveryStatus'];
+export type DeliveryReceiver = Schemas['DeliveryReceiver'];
+export type DeliveryReport = Schemas['DeliveryReport'];
+
+/** Date filters and page cursor for `GET /announcements/sender/{senderId}`. */
+export type AnnouncementHistoryQuery = NonNullable<
+  operations['getAnnouncementsBySender']['parameters']['query']
+>;
+
+/** Body returned by endpoints that only acknowledge a write. */
+export type ApiAck = Schemas['ApiAck'];
+
+export type ErrorResponse = Schemas['ErrorResponse'];
@@ -0,0 +1,1283 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+
+export interface paths {
+  "/token/generate": {
+    /** Issue an Agora RTC token for a channel */
+    post: operations["generateAgoraToken"];
+  };
+  "/agora-uids/{agoraUid}": {
+    /** Find the user an Agora uid is allocated to */
+    get: operations["resolveAgoraUid"];
+    parameters: {
+      path: {
+        agoraUid: components["parameters"]["AgoraUid"];
+      };
+    };
+  };
+  "/user": {
+    /** List users */
+    get: operations["getAllUsers"];
+    /**
+     * Create the profile of the signed-in user
+     * @description Users pick `sender` or `receiver`; `admin` is only granted by another admin.
+     */
+    post: operations["createUser"];
+  };
+  "/user/{uid}": {
+    /** Get a user profile */
+    get: operations["getUser"];
+    /**
+     * Update a user profile
+     * @description Users may rename themselves. Only admins may edit other users or change roles, and not their own role.
+     */
+    put: operations["updateUser"];
+    parameters: {
+      path: {
+        uid: components["parameters"]["Uid"];
+      };
+    };
+  };
+  "/mappings/{senderId}": {
+    /** Get the receivers a sender broadcasts to */
+    get: operations["getMapping"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/receivers/{receiverId}": {
+    /**
+     * Ask a receiver to subscribe to a sender
+     * @description Records a pending request (see `SenderMapping.requests`); the receiver joins the mapping only once they approve it. Receivers already in the mapping or with a pending request are left as they are. A receiver who declined or revoked cannot be asked again; they can still redeem an invite.
+     */
+    post: operations["addReceiverToMapping"];
+    /**
+     * Remove a receiver from a sender's mapping, or withdraw a pending request
+     * @description Also removes the sender from `subscriptions/{receiverId}` and the receiver from the sender's groups in the same batch.
+     */
+    delete: operations["removeReceiverFromMapping"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        receiverId: components["parameters"]["ReceiverId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/groups": {
+    /** Create a named group of the sender's receivers */
+    post: operations["createReceiverGroup"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/groups/{groupId}": {
+    /** Rename a group or replace its members */
+    put: operations["updateReceiverGroup"];
+    /** Delete a group; its receivers stay in the mapping */
+    delete: operations["deleteReceiverGroup"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        groupId: components["parameters"]["GroupId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/resolve": {
+    /**
+     * Resolve a broadcast's target groups to receivers
+     * @description Called when a broadcast starts. The result is stored on the announcement as `mappedReceiverIds`.
+     */
+    post: operations["resolveRecipients"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/import": {
+    /**
+     * Add many receivers, and their groups, in one batch
+     * @description Rows are matched to existing users by email. Receivers not yet in the mapping are sent subscription requests rather than added. Rows that cannot be imported are reported, not rejected; the rest are written atomically. With `dryRun` nothing is written and the result previews the import.
+     */
+    post: operations["importRecipients"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/export": {
+    /** Export the sender's receivers and groups as import rows */
+    get: operations["exportRecipients"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/invites": {
+    /** List the sender's invite codes, newest first */
+    get: operations["getInvites"];
+    /**
+     * Create an invite code receivers can redeem to subscribe
+     * @description Only senders may invite. Without `expiresAt` or `maxUses` the invite stays valid until revoked.
+     */
+    post: operations["createInvite"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/mappings/{senderId}/invites/{code}": {
+    /** Revoke an invite; receivers who redeemed it stay subscribed */
+    delete: operations["revokeInvite"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        code: components["parameters"]["InviteCode"];
+      };
+    };
+  };
+  "/invites/{code}": {
+    /** Look up an invite before redeeming it */
+    get: operations["getInvite"];
+    parameters: {
+      path: {
+        code: components["parameters"]["InviteCode"];
+      };
+    };
+  };
+  "/invites/{code}/accept": {
+    /**
+     * Redeem an invite: subscribe the caller to its sender
+     * @description Only receivers may redeem. Adds the caller to the sender's mapping and counts one use, in one transaction. Receivers already in the mapping do not use it up.
+     */
+    post: operations["acceptInvite"];
+    parameters: {
+      path: {
+        code: components["parameters"]["InviteCode"];
+      };
+    };
+  };
+  "/subscriptions/{receiverId}": {
+    /** Get the senders a receiver follows */
+    get: operations["getSubscriptions"];
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+      };
+    };
+  };
+  "/subscriptions/{receiverId}/requests": {
+    /** List the senders asking a receiver to subscribe, oldest first */
+    get: operations["getSubscriptionRequests"];
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+      };
+    };
+  };
+  "/subscriptions/{receiverId}/requests/{senderId}/approve": {
+    /**
+     * Approve a request: the receiver joins the sender's mapping
+     * @description Adds the receiver to the mapping, `subscriptions/{receiverId}` and the groups the sender picked, in one batch.
+     */
+    post: operations["approveSubscriptionRequest"];
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/subscriptions/{receiverId}/requests/{senderId}/decline": {
+    /** Decline a request; the sender cannot ask again */
+    post: operations["declineSubscriptionRequest"];
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/subscriptions/{receiverId}/senders/{senderId}": {
+    /**
+     * Stop receiving a sender's broadcasts; the sender cannot ask again
+     * @description Removes the receiver from the sender's mapping and groups, and records the refusal as a declined request, in one batch.
+     */
+    delete: operations["revokeSubscription"];
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/announcements": {
+    /** Create an announcement for a live session */
+    post: operations["createAnnouncement"];
+  };
+  "/announcements/live": {
+    /** List live announcements */
+    get: operations["getLiveAnnouncements"];
+  };
+  "/announcements/sender/{senderId}": {
+    /**
+     * List a sender's announcements, newest first
+     * @description Only the sender and admins may read a sender's history; it includes who each broadcast targeted.
+     */
+    get: operations["getAnnouncementsBySender"];
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+  };
+  "/announcements/{sessionId}": {
+    /** Get an announcement */
+    get: operations["getAnnouncement"];
+    /** Update an announcement's live flag */
+    put: operations["updateAnnouncement"];
+    /** End an announcement */
+    delete: operations["endAnnouncement"];
+    parameters: {
+      path: {
+        sessionId: components["parameters"]["SessionId"];
+      };
+    };
+  };
+  "/announcements/{sessionId}/delivery-report": {
+    /** Which of the receivers mapped at start listened to a broadcast */
+    get: operations["getDeliveryReport"];
+    parameters: {
+      path: {
+        sessionId: components["parameters"]["SessionId"];
+      };
+    };
+  };
+}
+
+export type webhooks = Record<string, never>;
+
+export interface components {
+  schemas: {
+    /**
+     * @description `admin`: manages other users' roles; does not broadcast or listen.
+     * @enum {string}
+     */
+    UserRole: "sender" | "receiver" | "admin";
+    /** @enum {string} */
+    AgoraRole: "publisher" | "audience";
+    GenerateTokenRequest: {
+      channelName: string;
+      /** @description Optional; if set, must be the Agora uid allocated to the caller */
+      uid?: number;
+      role: components["schemas"]["AgoraRole"];
+    };
+    AgoraTokenResponse: {
+      token: string;
+      /** Format: date-time */
+      expiresAt: string;
+      /** @description The caller's Agora uid; join the channel with it */
+      uid: number;
+    };
+    /** @description `agoraUids/{agoraUid}`: the Firebase user a numeric Agora uid belongs to. */
+    AgoraUidAllocation: {
+      agoraUid: number;
+      uid: string;
+    };
+    UserProfile: {
+      uid: string;
+      name: string;
+      /** Format: email */
+      email: string;
+      role: components["schemas"]["UserRole"];
+      /** Format: date-time */
+      createdAt?: string;
+    };
+    CreateUserRequest: {
+      name: string;
+      /** Format: email */
+      email: string;
+      role: components["schemas"]["UserRole"];
+    };
+    UpdateUserRequest: {
+      name?: string;
+      role?: components["schemas"]["UserRole"];
+    };
+    /** @description `mappings/{senderId}`: the receivers a sender broadcasts to. Receivers are only added once they approve. */
+    SenderMapping: {
+      senderId: string;
+      receivers: string[];
+      groups: components["schemas"]["ReceiverGroup"][];
+      /** @description Receivers asked but not in `receivers`: pending or declined */
+      requests: components["schemas"]["SubscriptionRequest"][];
+    };
+    /**
+     * @description `declined` also records a receiver who revoked the subscription later.
+     * @enum {string}
+     */
+    SubscriptionRequestStatus: "pending" | "declined";
+    /** @description `subscriptionRequests/{senderId}_{receiverId}`. Deleted once approved. */
+    SubscriptionRequest: {
+      senderId: string;
+      receiverId: string;
+      status: components["schemas"]["SubscriptionRequestStatus"];
+      /** Format: date-time */
+      requestedAt: string;
+      /** @description Groups the receiver joins on approval */
+      groupIds: string[];
+    };
+    IncomingSubscriptionRequest: {
+      senderId: string;
+      senderName: string;
+      /** Format: date-time */
+      requestedAt: string;
+    };
+    /** @description `mappings/{senderId}/groups/{groupId}`: a named subset of the mapping. */
+    ReceiverGroup: {
+      groupId: string;
+      name: string;
+      receiverIds: string[];
+    };
+    CreateReceiverGroupRequest: {
+      name: string;
+      /** @description Must all be in the mapping */
+      receiverIds?: string[];
+    };
+    UpdateReceiverGroupRequest: {
+      name?: string;
+      /** @description Replaces the members; must all be in the mapping */
+      receiverIds?: string[];
+    };
+    ResolveRecipientsRequest: {
+      /** @description Target these groups; omit to target the whole mapping */
+      groupIds?: string[];
+    };
+    ResolvedRecipients: {
+      receiverIds: string[];
+    };
+    RecipientRow: {
+      /** @description Matched case-insensitively against user profiles */
+      email: string;
+      /** @description Shown for rows whose email has no user yet */
+      name?: string;
+      /** @description Group to add the receiver to; created if the sender has none by that name */
+      group?: string;
+    };
+    ImportRecipientsRequest: {
+      rows: components["schemas"]["RecipientRow"][];
+      /** @default false */
+      dryRun?: boolean;
+    };
+    /**
+     * @description `new`: a subscription request is sent; the receiver joins the mapping and the row's group on approval. `pending`: already asked; the row's group is added to the request. `existing`: already in the mapping; its group, if any, still applies. `declined`: the receiver declined or revoked; nothing is sent. `duplicate`: repeats an earlier row. `unknown_user`: no user has that email yet. `invalid`: see `message`.
+     * @enum {string}
+     */
+    ImportRowStatus: "new" | "pending" | "existing" | "declined" | "duplicate" | "unknown_user" | "invalid";
+    ImportRowResult: {
+      /** @description 1-based index into `rows` */
+      row: number;
+      email: string | null;
+      status: components["schemas"]["ImportRowStatus"];
+      receiverId: string | null;
+      /** @description The user's profile name, else the row's */
+      name: string | null;
+      group: string | null;
+      message: string | null;
+    };
+    ImportRecipientsResult: {
+      dryRun: boolean;
+      /** @description Receivers sent a new subscription request */
+      requested: number;
+      groupsCreated: string[];
+      rows: components["schemas"]["ImportRowResult"][];
+      /** @description After the import; unchanged on a dry run */
+      mapping: components["schemas"]["SenderMapping"];
+    };
+    ExportedRecipient: {
+      receiverId: string;
+      /** @description null if the receiver has no profile */
+      email: string | null;
+      name: string | null;
+      group: string | null;
+    };
+    /** @description One row per group membership, plus one row without a group for each receiver in none, so the rows can be imported again. */
+    RecipientExport: {
+      senderId: string;
+      rows: components["schemas"]["ExportedRecipient"][];
+    };
+    /**
+     * @description Whether the invite can still be redeemed, as of the response
+     * @enum {string}
+     */
+    InviteStatus: "active" | "expired" | "used_up";
+    /** @description `invites/{code}`. Share it as the code or as the link `myazan://invite/<code>`. */
+    Invite: {
+      code: string;
+      senderId: string;
+      /** Format: date-time */
+      createdAt: string;
+      /**
+       * Format: date-time
+       * @description null: never expires
+       */
+      expiresAt: string | null;
+      /** @description null: unlimited */
+      maxUses: number | null;
+      uses: number;
+      status: components["schemas"]["InviteStatus"];
+    };
+    CreateInviteRequest: {
+      /**
+       * Format: date-time
+       * @description Must be in the future
+       */
+      expiresAt?: string;
+      maxUses?: number;
+    };
+    InvitePreview: {
+      code: string;
+      senderId: string;
+      senderName: string;
+      /** Format: date-time */
+      expiresAt: string | null;
+      status: components["schemas"]["InviteStatus"];
+    };
+    InviteAcceptance: {
+      senderId: string;
+      senderName: string;
+      /** @description The caller was already in the mapping; no use was counted */
+      alreadySubscribed: boolean;
+    };
+    /** @description `subscriptions/{receiverId}`: reverse index of mappings. */
+    ReceiverSubscriptions: {
+      receiverId: string;
+      senderIds: string[];
+    };
+    Announcement: {
+      sessionId: string;
+      senderId: string;
+      channelName: string;
+      isLive: boolean;
+      /** Format: date-time */
+      startedAt: string;
+      /** Format: date-time */
+      endedAt?: string | null;
+      /** Format: date-time */
+      expiresAt?: string;
+      /** @description Schedule title; null for a manual broadcast */
+      title?: string | null;
+      /** @description Prayer the schedule was relative to, if any */
+      prayer?: components["schemas"]["PrayerName"] | null;
+      /** @description Most listeners connected at once */
+      peakListeners?: number;
+      endedReason?: components["schemas"]["EndedReason"] | null;
+      /** @description Receivers the broadcast targeted: the sender's mapping, or its chosen groups, when it started */
+      mappedReceiverIds?: string[];
+    };
+    /** @enum {string} */
+    PrayerName: "fajr" | "sunrise" | "dhuhr" | "asr" | "maghrib" | "isha";
+    /**
+     * @description `manual`: stopped by the sender. `timeout`: ended by the sender app after the audio connection could not be restored. `crash_cleanup`: ended by stale-session cleanup after the sender's lease lapsed.
+     * @enum {string}
+     */
+    EndedReason: "manual" | "timeout" | "crash_cleanup";
+    /** @enum {string} */
+    DeliveryStatus: "heard" | "missed";
+    DeliveryReceiver: {
+      receiverId: string;
+      /** @description null if the receiver has no profile */
+      name: string | null;
+      status: components["schemas"]["DeliveryStatus"];
+      /** Format: date-time */
+      firstJoinedAt: string | null;
+      listenedSeconds: number;
+      joins: number;
+    };
+    /** @description Who of `mappedReceiverIds` joined a broadcast, when and for how long. Listening time of a live broadcast counts up to now. */
+    DeliveryReport: {
+      sessionId: string;
+      /** Format: date-time */
+      startedAt: string;
+      /** Format: date-time */
+      endedAt: string | null;
+      mappedReceivers: number;
+      heardReceivers: number;
+      /** @description Mapped receivers, missed ones first */
+      receivers: components["schemas"]["DeliveryReceiver"][];
+      /** @description Listeners who were not mapped when the broadcast started */
+      otherListeners: components["schemas"]["DeliveryReceiver"][];
+    };
+    /** @description Carries no Agora token: the sender keeps its publisher token, and receivers get their own audience tokens from POST /token/generate. */
+    CreateAnnouncementRequest: {
+      sessionId: string;
+      channelName: string;
+      /** Format: date-time */
+      expiresAt?: string;
+    };
+    UpdateAnnouncementRequest: {
+      isLive: boolean;
+    };
+    EmptyRequest: Record<string, never>;
+    /** @description Body returned by endpoints that only acknowledge a write. */
+    ApiAck: {
+      success: boolean;
+      message?: string;
+    };
+    ErrorResponse: {
+      error: string;
+      message?: string;
+    };
+  };
+  responses: {
+    /** @description Invalid request body or query */
+    BadRequest: {
+      content: {
+        "application/json": components["schemas"]["ErrorResponse"];
+      };
+    };
+    /** @description Missing or invalid ID token */
+    Unauthorized: {
+      content: {
+        "application/json": components["schemas"]["ErrorResponse"];
+      };
+    };
+    /** @description Signed-in user may not perform this action */
+    Forbidden: {
+      content: {
+        "application/json": components["schemas"]["ErrorResponse"];
+      };
+    };
+    /** @description Resource not found */
+    NotFound: {
+      content: {
+        "application/json": components["schemas"]["ErrorResponse"];
+      };
+    };
+    /** @description Resource already exists or is in use */
+    Conflict: {
+      content: {
+        "application/json": components["schemas"]["ErrorResponse"];
+      };
+    };
+  };
+  parameters: {
+    Uid: string;
+    SenderId: string;
+    ReceiverId: string;
+    GroupId: string;
+    SessionId: string;
+    InviteCode: string;
+    AgoraUid: number;
+    /** @description Only broadcasts started at or after this time */
+    From?: string;
+    /** @description Only broadcasts started at or before this time */
+    To?: string;
+    /** @description Page cursor: only broadcasts started strictly before this time (the last `startedAt` of the previous page) */
+    Before?: string;
+    /** @description Page size */
+    Limit?: number;
+  };
+  requestBodies: never;
+  headers: never;
+  pathItems: never;
+}
+
+export type $defs = Record<string, never>;
+
+export type external = Record<string, never>;
+
+export interface operations {
+
+  /** Issue an Agora RTC token for a channel */
+  generateAgoraToken: {
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["GenerateTokenRequest"];
+      };
+    };
+    responses: {
+      /** @description Token issued */
+      200: {
+        content: {
+          "application/json": components["schemas"]["AgoraTokenResponse"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /** Find the user an Agora uid is allocated to */
+  resolveAgoraUid: {
+    parameters: {
+      path: {
+        agoraUid: components["parameters"]["AgoraUid"];
+      };
+    };
+    responses: {
+      /** @description The allocation */
+      200: {
+        content: {
+          "application/json": components["schemas"]["AgoraUidAllocation"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** List users */
+  getAllUsers: {
+    responses: {
+      /** @description All users */
+      200: {
+        content: {
+          "application/json": components["schemas"]["UserProfile"][];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+    };
+  };
+  /**
+   * Create the profile of the signed-in user
+   * @description Users pick `sender` or `receiver`; `admin` is only granted by another admin.
+   */
+  createUser: {
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["CreateUserRequest"];
+      };
+    };
+    responses: {
+      /** @description Profile created */
+      201: {
+        content: {
+          "application/json": components["schemas"]["UserProfile"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      409: components["responses"]["Conflict"];
+    };
+  };
+  /** Get a user profile */
+  getUser: {
+    parameters: {
+      path: {
+        uid: components["parameters"]["Uid"];
+      };
+    };
+    responses: {
+      /** @description The profile */
+      200: {
+        content: {
+          "application/json": components["schemas"]["UserProfile"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /**
+   * Update a user profile
+   * @description Users may rename themselves. Only admins may edit other users or change roles, and not their own role.
+   */
+  updateUser: {
+    parameters: {
+      path: {
+        uid: components["parameters"]["Uid"];
+      };
+    };
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["UpdateUserRequest"];
+      };
+    };
+    responses: {
+      /** @description The updated profile */
+      200: {
+        content: {
+          "application/json": components["schemas"]["UserProfile"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** Get the receivers a sender broadcasts to */
+  getMapping: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    responses: {
+      /** @description The mapping */
+      200: {
+        content: {
+          "application/json": components["schemas"]["SenderMapping"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /**
+   * Ask a receiver to subscribe to a sender
+   * @description Records a pending request (see `SenderMapping.requests`); the receiver joins the mapping only once they approve it. Receivers already in the mapping or with a pending request are left as they are. A receiver who declined or revoked cannot be asked again; they can still redeem an invite.
+   */
+  addReceiverToMapping: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        receiverId: components["parameters"]["ReceiverId"];
+      };
+    };
+    requestBody?: {
+      content: {
+        "application/json": components["schemas"]["EmptyRequest"];
+      };
+    };
+    responses: {
+      /** @description The updated mapping */
+      200: {
+        content: {
+          "application/json": components["schemas"]["SenderMapping"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+      409: components["responses"]["Conflict"];
+    };
+  };
+  /**
+   * Remove a receiver from a sender's mapping, or withdraw a pending request
+   * @description Also removes the sender from `subscriptions/{receiverId}` and the receiver from the sender's groups in the same batch.
+   */
+  removeReceiverFromMapping: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        receiverId: components["parameters"]["ReceiverId"];
+      };
+    };
+    responses: {
+      /** @description The updated mapping */
+      200: {
+        content: {
+          "application/json": components["schemas"]["SenderMapping"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** Create a named group of the sender's receivers */
+  createReceiverGroup: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["CreateReceiverGroupRequest"];
+      };
+    };
+    responses: {
+      /** @description The updated mapping */
+      200: {
+        content: {
+          "application/json": components["schemas"]["SenderMapping"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+      409: components["responses"]["Conflict"];
+    };
+  };
+  /** Rename a group or replace its members */
+  updateReceiverGroup: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        groupId: components["parameters"]["GroupId"];
+      };
+    };
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["UpdateReceiverGroupRequest"];
+      };
+    };
+    responses: {
+      /** @description The updated mapping */
+      200: {
+        content: {
+          "application/json": components["schemas"]["SenderMapping"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+      409: components["responses"]["Conflict"];
+    };
+  };
+  /** Delete a group; its receivers stay in the mapping */
+  deleteReceiverGroup: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        groupId: components["parameters"]["GroupId"];
+      };
+    };
+    responses: {
+      /** @description The updated mapping */
+      200: {
+        content: {
+          "application/json": components["schemas"]["SenderMapping"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /**
+   * Resolve a broadcast's target groups to receivers
+   * @description Called when a broadcast starts. The result is stored on the announcement as `mappedReceiverIds`.
+   */
+  resolveRecipients: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["ResolveRecipientsRequest"];
+      };
+    };
+    responses: {
+      /** @description The receivers to broadcast to */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ResolvedRecipients"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /**
+   * Add many receivers, and their groups, in one batch
+   * @description Rows are matched to existing users by email. Receivers not yet in the mapping are sent subscription requests rather than added. Rows that cannot be imported are reported, not rejected; the rest are written atomically. With `dryRun` nothing is written and the result previews the import.
+   */
+  importRecipients: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["ImportRecipientsRequest"];
+      };
+    };
+    responses: {
+      /** @description What happened to each row, and the mapping afterwards */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ImportRecipientsResult"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /** Export the sender's receivers and groups as import rows */
+  exportRecipients: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    responses: {
+      /** @description The mapping as rows */
+      200: {
+        content: {
+          "application/json": components["schemas"]["RecipientExport"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /** List the sender's invite codes, newest first */
+  getInvites: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    responses: {
+      /** @description The sender's invites */
+      200: {
+        content: {
+          "application/json": components["schemas"]["Invite"][];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /**
+   * Create an invite code receivers can redeem to subscribe
+   * @description Only senders may invite. Without `expiresAt` or `maxUses` the invite stays valid until revoked.
+   */
+  createInvite: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["CreateInviteRequest"];
+      };
+    };
+    responses: {
+      /** @description The new invite */
+      201: {
+        content: {
+          "application/json": components["schemas"]["Invite"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /** Revoke an invite; receivers who redeemed it stay subscribed */
+  revokeInvite: {
+    parameters: {
+      path: {
+        senderId: components["parameters"]["SenderId"];
+        code: components["parameters"]["InviteCode"];
+      };
+    };
+    responses: {
+      /** @description Revoked */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ApiAck"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** Look up an invite before redeeming it */
+  getInvite: {
+    parameters: {
+      path: {
+        code: components["parameters"]["InviteCode"];
+      };
+    };
+    responses: {
+      /** @description Who the invite is from and whether it can still be redeemed */
+      200: {
+        content: {
+          "application/json": components["schemas"]["InvitePreview"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /**
+   * Redeem an invite: subscribe the caller to its sender
+   * @description Only receivers may redeem. Adds the caller to the sender's mapping and counts one use, in one transaction. Receivers already in the mapping do not use it up.
+   */
+  acceptInvite: {
+    parameters: {
+      path: {
+        code: components["parameters"]["InviteCode"];
+      };
+    };
+    responses: {
+      /** @description Subscribed */
+      200: {
+        content: {
+          "application/json": components["schemas"]["InviteAcceptance"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+      409: components["responses"]["Conflict"];
+    };
+  };
+  /** Get the senders a receiver follows */
+  getSubscriptions: {
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+      };
+    };
+    responses: {
+      /** @description The receiver's subscriptions */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ReceiverSubscriptions"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /** List the senders asking a receiver to subscribe, oldest first */
+  getSubscriptionRequests: {
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+      };
+    };
+    responses: {
+      /** @description Pending requests */
+      200: {
+        content: {
+          "application/json": components["schemas"]["IncomingSubscriptionRequest"][];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /**
+   * Approve a request: the receiver joins the sender's mapping
+   * @description Adds the receiver to the mapping, `subscriptions/{receiverId}` and the groups the sender picked, in one batch.
+   */
+  approveSubscriptionRequest: {
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    responses: {
+      /** @description The receiver's subscriptions afterwards */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ReceiverSubscriptions"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** Decline a request; the sender cannot ask again */
+  declineSubscriptionRequest: {
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    responses: {
+      /** @description Declined */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ApiAck"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /**
+   * Stop receiving a sender's broadcasts; the sender cannot ask again
+   * @description Removes the receiver from the sender's mapping and groups, and records the refusal as a declined request, in one batch.
+   */
+  revokeSubscription: {
+    parameters: {
+      path: {
+        receiverId: components["parameters"]["ReceiverId"];
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    responses: {
+      /** @description The receiver's subscriptions afterwards */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ReceiverSubscriptions"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** Create an announcement for a live session */
+  createAnnouncement: {
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["CreateAnnouncementRequest"];
+      };
+    };
+    responses: {
+      /** @description Announcement created */
+      201: {
+        content: {
+          "application/json": components["schemas"]["Announcement"];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      409: components["responses"]["Conflict"];
+    };
+  };
+  /** List live announcements */
+  getLiveAnnouncements: {
+    responses: {
+      /** @description Live announcements */
+      200: {
+        content: {
+          "application/json": components["schemas"]["Announcement"][];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+    };
+  };
+  /**
+   * List a sender's announcements, newest first
+   * @description Only the sender and admins may read a sender's history; it includes who each broadcast targeted.
+   */
+  getAnnouncementsBySender: {
+    parameters: {
+      query?: {
+        from?: components["parameters"]["From"];
+        to?: components["parameters"]["To"];
+        before?: components["parameters"]["Before"];
+        limit?: components["parameters"]["Limit"];
+      };
+      path: {
+        senderId: components["parameters"]["SenderId"];
+      };
+    };
+    responses: {
+      /** @description The sender's announcements */
+      200: {
+        content: {
+          "application/json": components["schemas"]["Announcement"][];
+        };
+      };
+      400: components["responses"]["BadRequest"];
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+    };
+  };
+  /** Get an announcement */
+  getAnnouncement: {
+    parameters: {
+      path: {
+        sessionId: components["parameters"]["SessionId"];
+      };
+    };
+    responses: {
+      /** @description The announcement */
+      200: {
+        content: {
+          "application/json": components["schemas"]["Announcement"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** Update an announcement's live flag */
+  updateAnnouncement: {
+    parameters: {
+      path: {
+        sessionId: components["parameters"]["SessionId"];
+      };
+    };
+    requestBody: {
+      content: {
+        "application/json": components["schemas"]["UpdateAnnouncementRequest"];
+      };
+    };
+    responses: {
+      /** @description The updated announcement */
+      200: {
+        content: {
+          "application/json": components["schemas"]["Announcement"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** End an announcement */
+  endAnnouncement: {
+    parameters: {
+      path: {
+        sessionId: components["parameters"]["SessionId"];
+      };
+    };
+    responses: {
+      /** @description Announcement ended */
+      200: {
+        content: {
+          "application/json": components["schemas"]["ApiAck"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+  /** Which of the receivers mapped at start listened to a broadcast */
+  getDeliveryReport: {
+    parameters: {
+      path: {
+        sessionId: components["parameters"]["SessionId"];
+      };
+    };
+    responses: {
+      /** @description The report */
+      200: {
+        content: {
+          "application/json": components["schemas"]["DeliveryReport"];
+        };
+      };
+      401: components["responses"]["Unauthorized"];
+      403: components["responses"]["Forbidden"];
+      404: components["responses"]["NotFound"];
+    };
+  };
+}
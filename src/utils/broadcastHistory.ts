@@ -0,0 +1,85 @@
+import { Announcement, AnnouncementHistoryQuery } from '../types/api';
+import { PRAYER_LABELS } from './prayerTimes';
+
+export type HistoryRange = 'all' | '7d' | '30d' | '90d';
+
+export const HISTORY_RANGES: { key: HistoryRange; label: string }[] = [
+  { key: '7d', label: '7 days' },
+  { key: '30d', label: '30 days' },
+  { key: '90d', label: '90 days' },
+  { key: 'all', label: 'All' },
+];
+
+const RANGE_DAYS: Record<Exclude<HistoryRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+export const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Query for one page of history.
+ * @param cursor `startedAt` of the last broadcast on the previous page
+ */
+export function historyQueryFor(
+  range: HistoryRange,
+  cursor: string | null = null,
+  now: Date = new Date()
+): AnnouncementHistoryQuery {
+  const query: AnnouncementHistoryQuery = { limit: HISTORY_PAGE_SIZE };
+  if (range !== 'all') {
+    query.from = new Date(now.getTime() - RANGE_DAYS[range] * 24 * 3600000).toISOString();
+  }
+  if (cursor) {
+    query.before = cursor;
+  }
+  return query;
+}
+
+/**
+ * Broadcast length in seconds. Live broadcasts count up to `now`; ended ones
+ * without an end time (never closed cleanly) return null.
+ */
+export function getBroadcastDuration(announcement: Announcement, now: Date = new Date()): number | null {
+  const startedAt = Date.parse(announcement.startedAt);
+  const endedAt = announcement.isLive
+    ? now.getTime()
+    : announcement.endedAt
+      ? Date.parse(announcement.endedAt)
+      : NaN;
+  if (isNaN(startedAt) || isNaN(endedAt)) {
+    return null;
+  }
+  return Math.max(0, Math.round((endedAt - startedAt) / 1000));
+}
+
+export function getBroadcastTitle(announcement: Announcement): string {
+  if (announcement.title) return announcement.title;
+  if (announcement.prayer) return PRAYER_LABELS[announcement.prayer];
+  return 'Manual broadcast';
+}
+
+export function describeEndedReason(announcement: Announcement): string {
+  if (announcement.isLive) {
+    return 'Live now';
+  }
+  switch (announcement.endedReason) {
+    case 'manual':
+      return 'Stopped manually';
+    case 'timeout':
+      return 'Connection timed out';
+    case 'crash_cleanup':
+      return 'Cleaned up after a crash';
+    default:
+      return 'Unknown';
+  }
+}
+
+export function formatBroadcastDuration(seconds: number | null): string {
+  if (seconds === null) return '--:--:--';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
@@ -0,0 +1,282 @@
+import { AudioConnectionState, AudioEngine } from '../services/audioEngine';
+
+export type ConnectionStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected'
+  | 'failed';
+
+/**
+ * Inputs to the connection state machine: calls made by the app
+ * (`join`, `leave`, `rejoin`, `giveUp`) and events raised by the engine.
+ */
+export type ConnectionEvent =
+  | { type: 'join' }
+  | { type: 'leave' }
+  | { type: 'rejoin' }
+  | { type: 'giveUp' }
+  | { type: 'joined' }
+  | { type: 'connectionLost' }
+  | { type: 'stateChanged'; state: AudioConnectionState };
+
+/**
+ * Pure transition function for the session's connection status.
+ * - Engine events are ignored outside a session (`idle` / `disconnected`)
+ * - While reconnecting, the engine's own connecting/disconnected noise from a
+ *   rejoin does not hide that we are still recovering
+ * - An engine `failed` state is treated like a lost connection; only the
+ *   monitor gives up (`giveUp`) once its rejoin attempts run out
+ */
+export function nextConnectionStatus(
+  current: ConnectionStatus,
+  event: ConnectionEvent
+): ConnectionStatus {
+  switch (event.type) {
+    case 'join':
+      return 'connecting';
+    case 'leave':
+      return current === 'idle' ? 'idle' : 'disconnected';
+    case 'rejoin':
+    case 'giveUp':
+      if (current === 'idle' || current === 'disconnected') return current;
+      return event.type === 'rejoin' ? 'reconnecting' : 'failed';
+    default:
+      break;
+  }
+
+  if (current === 'idle' || current === 'disconnected') {
+    return current;
+  }
+
+  if (event.type === 'joined') {
+    return 'connected';
+  }
+  if (event.type === 'connectionLost') {
+    return current === 'failed' ? current : 'reconnecting';
+  }
+
+  switch (event.state) {
+    case 'connected':
+      return 'connected';
+    case 'reconnecting':
+    case 'failed':
+      return current === 'failed' ? current : 'reconnecting';
+    case 'connecting':
+    case 'disconnected':
+      return current === 'reconnecting' || current === 'failed' ? current : event.state;
+    default:
+      return current;
+  }
+}
+
+/**
+ * Short user-facing label for a connection status.
+ */
+export function getConnectionLabel(status: ConnectionStatus, attempt = 0): string {
+  switch (status) {
+    case 'connecting':
+      return 'Connecting...';
+    case 'connected':
+      return 'Connected';
+    case 'reconnecting':
+      return attempt > 0 ? `Reconnecting (attempt ${attempt})...` : 'Reconnecting...';
+    case 'disconnected':
+      return 'Disconnected';
+    case 'failed':
+      return 'Connection failed';
+    default:
+      return 'Not connected';
+  }
+}
+
+type StatusListener = (status: ConnectionStatus, attempt: number) => void;
+type ParticipantsListener = (count: number) => void;
+
+/**
+ * Tracks an engine's connection through the state machine above.
+ * - Follows joinSuccess / rejoinSuccess / connectionLost / connectionStateChanged
+ * - When the connection is lost or fails, calls the `rejoin` callback with
+ *   exponential backoff until the engine reports connected again
+ * - Gives up (`failed`) after MAX_REJOIN_ATTEMPTS
+ * - Counts remote participants from userJoined / userLeft
+ */
+export class ConnectionMonitor {
+  private static readonly MAX_REJOIN_ATTEMPTS = 5;
+  private static readonly BASE_REJOIN_DELAY_MS = 1000;
+  private static readonly MAX_REJOIN_DELAY_MS = 30 * 1000;
+
+  private status: ConnectionStatus = 'idle';
+  private attempt = 0;
+  private rejoin: (() => Promise<void>) | null = null;
+  private rejoinTimer: ReturnType<typeof setTimeout> | null = null;
+  private rejoinInFlight = false;
+  /** Bumped on join/leave/detach so a stale rejoin does not reschedule. */
+  private generation = 0;
+  private participants: Set<number> = new Set();
+  private statusListeners: Set<StatusListener> = new Set();
+  private participantsListeners: Set<ParticipantsListener> = new Set();
+  private engineUnsubscribers: Array<() => void> = [];
+
+  /**
+   * Start following an engine.
+   * @param rejoin Fetches a fresh token and joins the current channel again
+   */
+  attach(engine: AudioEngine, rejoin: () => Promise<void>): void {
+    this.detach();
+    this.rejoin = rejoin;
+
+    const onJoined = () => this.handle({ type: 'joined' });
+    this.engineUnsubscribers = [
+      engine.on('joinSuccess', onJoined),
+      engine.on('rejoinSuccess', onJoined),
+      engine.on('connectionLost', () => this.handle({ type: 'connectionLost' })),
+      engine.on('connectionStateChanged', (state) => this.handle({ type: 'stateChanged', state })),
+      engine.on('userJoined', (uid) => {
+        if (this.participants.has(uid)) return;
+        this.participants.add(uid);
+        this.emitParticipants();
+      }),
+      engine.on('userLeft', (uid) => {
+        if (this.participants.delete(uid)) this.emitParticipants();
+      }),
+    ];
+  }
+
+  /**
+   * Call just before joining a channel.
+   */
+  joining(): void {
+    this.resetRejoin();
+    this.clearParticipants();
+    this.transition({ type: 'join' });
+  }
+
+  /**
+   * Call when the app leaves the channel on purpose.
+   */
+  left(): void {
+    this.resetRejoin();
+    this.clearParticipants();
+    this.transition({ type: 'leave' });
+  }
+
+  /**
+   * Subscribe to status changes. Returns an unsubscribe function.
+   */
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to remote participant count changes. Returns an unsubscribe function.
+   */
+  onParticipantsChange(listener: ParticipantsListener): () => void {
+    this.participantsListeners.add(listener);
+    return () => {
+      this.participantsListeners.delete(listener);
+    };
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  getParticipantCount(): number {
+    return this.participants.size;
+  }
+
+  /**
+   * Stop following the engine and cancel any pending rejoin.
+   */
+  detach(): void {
+    this.engineUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.engineUnsubscribers = [];
+    this.resetRejoin();
+    this.rejoin = null;
+  }
+
+  private handle(event: ConnectionEvent): void {
+    this.transition(event);
+
+    if (this.status === 'connected') {
+      this.attempt = 0;
+    } else if (this.status === 'reconnecting' && (event.type !== 'stateChanged' || event.state === 'failed')) {
+      // The SDK retries `reconnecting` by itself; lost/failed need a fresh join
+      this.scheduleRejoin();
+    }
+  }
+
+  private scheduleRejoin(): void {
+    if (this.rejoinTimer || this.rejoinInFlight || !this.rejoin) return;
+
+    if (this.attempt >= ConnectionMonitor.MAX_REJOIN_ATTEMPTS) {
+      console.error('Giving up on rejoining the channel');
+      this.transition({ type: 'giveUp' });
+      return;
+    }
+
+    this.attempt++;
+    const delay = Math.min(
+      ConnectionMonitor.BASE_REJOIN_DELAY_MS * 2 ** (this.attempt - 1),
+      ConnectionMonitor.MAX_REJOIN_DELAY_MS
+    );
+    const generation = this.generation;
+    this.transition({ type: 'rejoin' });
+
+    this.rejoinTimer = setTimeout(async () => {
+      this.rejoinTimer = null;
+      const rejoin = this.rejoin;
+      if (!rejoin || generation !== this.generation) return;
+
+      this.rejoinInFlight = true;
+      this.clearParticipants();
+      try {
+        await rejoin();
+      } catch (error) {
+        console.error(`Rejoin attempt ${this.attempt} failed:`, error);
+        if (generation === this.generation) {
+          this.rejoinInFlight = false;
+          this.scheduleRejoin();
+        }
+        return;
+      }
+      if (generation === this.generation) {
+        // Wait for joinSuccess; another connectionLost triggers the next attempt
+        this.rejoinInFlight = false;
+      }
+    }, delay);
+  }
+
+  private resetRejoin(): void {
+    if (this.rejoinTimer) {
+      clearTimeout(this.rejoinTimer);
+      this.rejoinTimer = null;
+    }
+    this.rejoinInFlight = false;
+    this.attempt = 0;
+    this.generation++;
+  }
+
+  private transition(event: ConnectionEvent): void {
+    const next = nextConnectionStatus(this.status, event);
+    if (next === this.status && event.type !== 'rejoin') return;
+    this.status = next;
+    this.statusListeners.forEach((listener) => listener(next, this.attempt));
+  }
+
+  private clearParticipants(): void {
+    if (this.participants.size === 0) return;
+    this.participants.clear();
+    this.emitParticipants();
+  }
+
+  private emitParticipants(): void {
+    const count = this.participants.size;
+    this.participantsListeners.forEach((listener) => listener(count));
+  }
+}
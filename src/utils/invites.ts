@@ -0,0 +1,48 @@
+import { Invite, InviteStatus } from '../types/api';
+
+/** Scheme of the app's deep links (see the `linking` config in App.tsx). */
+export const APP_LINK_PREFIX = 'myazan://';
+/** Deep links the app opens on JoinInvite. */
+export const INVITE_LINK_PREFIX = `${APP_LINK_PREFIX}invite/`;
+
+const CODE_PATTERN = /^[A-Z2-9]{8}$/;
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  used_up: 'Used up',
+};
+
+/** What the QR code encodes: scanning it with the phone's camera opens the app. */
+export function inviteLink(code: string): string {
+  return `${INVITE_LINK_PREFIX}${code}`;
+}
+
+/**
+ * The invite code in what a receiver typed or pasted: the code itself, in any
+ * case and with spaces or dashes, or an invite link. Null if there is none.
+ */
+export function parseInviteCode(text: string): string | null {
+  let candidate = text.trim();
+  if (candidate.toLowerCase().startsWith(INVITE_LINK_PREFIX)) {
+    candidate = candidate.slice(INVITE_LINK_PREFIX.length);
+  }
+  const code = candidate.replace(/[\s-]/g, '').toUpperCase();
+  return CODE_PATTERN.test(code) ? code : null;
+}
+
+/** e.g. "3 of 10 uses · expires 2/1/2024" */
+export function describeInvite(invite: Invite): string {
+  const uses =
+    invite.maxUses === null
+      ? `${invite.uses} ${plural(invite.uses)}`
+      : `${invite.uses} of ${invite.maxUses} ${plural(invite.maxUses)}`;
+  const expiry = invite.expiresAt
+    ? `${invite.status === 'expired' ? 'expired' : 'expires'} ${new Date(invite.expiresAt).toLocaleDateString()}`
+    : 'no expiry';
+  return `${uses} · ${expiry}`;
+}
+
+function plural(count: number): string {
+  return count === 1 ? 'use' : 'uses';
+}
@@ -0,0 +1,312 @@
+/**
+ * Prayer time calculation engine.
+ * Based on the astronomical formulas used by PrayTimes.org: the sun's
+ * declination and equation of time are derived from the Julian date, and each
+ * prayer is the moment the sun reaches a given angle below (or above) the horizon.
+ */
+
+export type PrayerName = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+export const PRAYER_NAMES: PrayerName[] = ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+export const PRAYER_LABELS: Record<PrayerName, string> = {
+  fajr: 'Fajr',
+  sunrise: 'Sunrise',
+  dhuhr: 'Dhuhr',
+  asr: 'Asr',
+  maghrib: 'Maghrib',
+  isha: 'Isha',
+};
+
+export type CalculationMethod =
+  | 'MWL'
+  | 'ISNA'
+  | 'Egypt'
+  | 'Makkah'
+  | 'Karachi'
+  | 'Tehran'
+  | 'Jafari'
+  | 'Gulf'
+  | 'Kuwait'
+  | 'Qatar'
+  | 'Singapore'
+  | 'Turkey';
+
+/** Shafi'i (and Maliki, Hanbali): shadow length = 1x object. Hanafi: 2x. */
+export type AsrMethod = 'shafi' | 'hanafi';
+
+/** How Fajr and Isha are bounded when the sun never reaches the required angle. */
+export type HighLatitudeRule = 'none' | 'middleOfNight' | 'seventhOfNight' | 'angleBased';
+
+export type PrayerAdjustments = Partial<Record<PrayerName, number>>;
+
+export interface CalculationMethodParams {
+  name: string;
+  fajrAngle: number;
+  /** Isha is either an angle below the horizon or a fixed number of minutes after Maghrib. */
+  ishaAngle?: number;
+  ishaMinutes?: number;
+  /** Maghrib defaults to sunset unless an angle is given (used by Shia methods). */
+  maghribAngle?: number;
+}
+
+export const CALCULATION_METHODS: Record<CalculationMethod, CalculationMethodParams> = {
+  MWL: { name: 'Muslim World League', fajrAngle: 18, ishaAngle: 17 },
+  ISNA: { name: 'Islamic Society of North America', fajrAngle: 15, ishaAngle: 15 },
+  Egypt: { name: 'Egyptian General Authority of Survey', fajrAngle: 19.5, ishaAngle: 17.5 },
+  Makkah: { name: 'Umm al-Qura University, Makkah', fajrAngle: 18.5, ishaMinutes: 90 },
+  Karachi: { name: 'University of Islamic Sciences, Karachi', fajrAngle: 18, ishaAngle: 18 },
+  Tehran: { name: 'Institute of Geophysics, University of Tehran', fajrAngle: 17.7, ishaAngle: 14, maghribAngle: 4.5 },
+  Jafari: { name: 'Shia Ithna-Ashari, Leva Institute, Qum', fajrAngle: 16, ishaAngle: 14, maghribAngle: 4 },
+  Gulf: { name: 'Gulf Region', fajrAngle: 19.5, ishaMinutes: 90 },
+  Kuwait: { name: 'Kuwait', fajrAngle: 18, ishaAngle: 17.5 },
+  Qatar: { name: 'Qatar', fajrAngle: 18, ishaMinutes: 90 },
+  Singapore: { name: 'Majlis Ugama Islam Singapura', fajrAngle: 20, ishaAngle: 18 },
+  Turkey: { name: 'Diyanet İşleri Başkanlığı, Turkey', fajrAngle: 18, ishaAngle: 17 },
+};
+
+export interface PrayerTimesSettings {
+  latitude: number;
+  longitude: number;
+  /** UTC offset in hours, e.g. 3 for Makkah, -5 for New York (EST). */
+  timezone: number;
+  method: CalculationMethod;
+  asrMethod: AsrMethod;
+  highLatitudeRule: HighLatitudeRule;
+  /** Per-prayer offsets in minutes, applied after calculation. */
+  adjustments: PrayerAdjustments;
+}
+
+/** Times formatted as `HH:mm`, or `--:--` when a time cannot be computed. */
+export type PrayerTimes = Record<PrayerName, string>;
+
+/** Times as fractional hours in local time (may be NaN at extreme latitudes). */
+export type PrayerTimeHours = Record<PrayerName, number>;
+
+const INVALID_TIME = '--:--';
+const SUNRISE_ANGLE = 0.833;
+
+// ==================== MATH HELPERS ====================
+
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+const sin = (d: number) => Math.sin(dtr(d));
+const cos = (d: number) => Math.cos(dtr(d));
+const tan = (d: number) => Math.tan(dtr(d));
+const arcsin = (x: number) => rtd(Math.asin(x));
+const arccos = (x: number) => rtd(Math.acos(x));
+const arccot = (x: number) => rtd(Math.atan(1 / x));
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+
+const fix = (a: number, b: number) => {
+  const r = a - b * Math.floor(a / b);
+  return r < 0 ? r + b : r;
+};
+const fixAngle = (a: number) => fix(a, 360);
+const fixHour = (h: number) => fix(h, 24);
+const timeDiff = (t1: number, t2: number) => fixHour(t2 - t1);
+
+// ==================== ASTRONOMY ====================
+
+/**
+ * Parse a `YYYY-MM-DD` date key.
+ */
+export function parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return { year, month, day };
+}
+
+/**
+ * Format a date as `YYYY-MM-DD` in the given UTC offset (device-local if omitted).
+ */
+export function toDateKey(date: Date, timezone?: number): string {
+  const shifted = timezone === undefined ? date : new Date(date.getTime() + timezone * 3600000);
+  const year = timezone === undefined ? shifted.getFullYear() : shifted.getUTCFullYear();
+  const month = (timezone === undefined ? shifted.getMonth() : shifted.getUTCMonth()) + 1;
+  const day = timezone === undefined ? shifted.getDate() : shifted.getUTCDate();
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The midnight that starts the day after `now`'s, in the given UTC offset.
+ */
+export function nextMidnight(now: Date, timezone: number): Date {
+  const { year, month, day } = parseDateKey(toDateKey(now, timezone));
+  return new Date(Date.UTC(year, month - 1, day + 1) - timezone * 3600000);
+}
+
+function julianDate(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+function sunPosition(jd: number): { declination: number; equation: number } {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * sin(g) + 0.02 * sin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  return {
+    declination: arcsin(sin(e) * sin(l)),
+    equation: q / 15 - fixHour(ra),
+  };
+}
+
+// ==================== CALCULATION ====================
+
+/**
+ * Calculate prayer times as fractional local hours for a given day.
+ */
+export function calculatePrayerTimeHours(
+  settings: PrayerTimesSettings,
+  dateKey: string
+): PrayerTimeHours {
+  const { latitude: lat, longitude: lng, timezone } = settings;
+  const method = CALCULATION_METHODS[settings.method];
+  const { year, month, day } = parseDateKey(dateKey);
+  const jDate = julianDate(year, month, day) - lng / (15 * 24);
+
+  const midDay = (time: number) => fixHour(12 - sunPosition(jDate + time).equation);
+
+  const sunAngleTime = (angle: number, time: number, counterClockwise = false) => {
+    const decl = sunPosition(jDate + time).declination;
+    const noon = midDay(time);
+    const t =
+      (1 / 15) * arccos((-sin(angle) - sin(decl) * sin(lat)) / (cos(decl) * cos(lat)));
+    return noon + (counterClockwise ? -t : t);
+  };
+
+  const asrTime = (factor: number, time: number) => {
+    const decl = sunPosition(jDate + time).declination;
+    const angle = -arccot(factor + tan(Math.abs(lat - decl)));
+    return sunAngleTime(angle, time);
+  };
+
+  // Initial estimates as day portions; a single iteration is accurate to the minute
+  const portion = (hour: number) => hour / 24;
+  const times = {
+    fajr: sunAngleTime(method.fajrAngle, portion(5), true),
+    sunrise: sunAngleTime(SUNRISE_ANGLE, portion(6), true),
+    dhuhr: midDay(portion(12)),
+    asr: asrTime(settings.asrMethod === 'hanafi' ? 2 : 1, portion(13)),
+    sunset: sunAngleTime(SUNRISE_ANGLE, portion(18)),
+    maghrib: sunAngleTime(method.maghribAngle ?? SUNRISE_ANGLE, portion(18)),
+    isha: sunAngleTime(method.ishaAngle ?? 18, portion(18)),
+  };
+
+  // Convert from solar time at the given longitude to the local timezone
+  const offset = timezone - lng / 15;
+  (Object.keys(times) as (keyof typeof times)[]).forEach((key) => {
+    times[key] += offset;
+  });
+
+  if (settings.highLatitudeRule !== 'none') {
+    const night = timeDiff(times.sunset, times.sunrise);
+    const nightPortion = (angle: number) => {
+      switch (settings.highLatitudeRule) {
+        case 'angleBased':
+          return (angle / 60) * night;
+        case 'seventhOfNight':
+          return night / 7;
+        default:
+          return night / 2;
+      }
+    };
+    const bound = (time: number, base: number, angle: number, counterClockwise = false) => {
+      const limit = nightPortion(angle);
+      const diff = counterClockwise ? timeDiff(time, base) : timeDiff(base, time);
+      if (isNaN(time) || diff > limit) {
+        return base + (counterClockwise ? -limit : limit);
+      }
+      return time;
+    };
+
+    times.fajr = bound(times.fajr, times.sunrise, method.fajrAngle, true);
+    if (method.ishaAngle !== undefined) {
+      times.isha = bound(times.isha, times.sunset, method.ishaAngle);
+    }
+    if (method.maghribAngle !== undefined) {
+      times.maghrib = bound(times.maghrib, times.sunset, method.maghribAngle);
+    }
+  }
+
+  if (method.ishaMinutes !== undefined) {
+    times.isha = times.maghrib + method.ishaMinutes / 60;
+  }
+
+  const result: PrayerTimeHours = {
+    fajr: times.fajr,
+    sunrise: times.sunrise,
+    dhuhr: times.dhuhr,
+    asr: times.asr,
+    maghrib: times.maghrib,
+    isha: times.isha,
+  };
+  PRAYER_NAMES.forEach((prayer) => {
+    result[prayer] += (settings.adjustments[prayer] || 0) / 60;
+  });
+  return result;
+}
+
+/**
+ * Format fractional hours as `HH:mm`, rounded to the nearest minute.
+ */
+export function formatPrayerTime(hours: number): string {
+  if (isNaN(hours)) {
+    return INVALID_TIME;
+  }
+  const totalMinutes = Math.round(fixHour(hours) * 60) % (24 * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * Calculate the formatted prayer timetable for a given day.
+ */
+export function calculatePrayerTimes(settings: PrayerTimesSettings, dateKey: string): PrayerTimes {
+  const hours = calculatePrayerTimeHours(settings, dateKey);
+  return PRAYER_NAMES.reduce((acc, prayer) => {
+    acc[prayer] = formatPrayerTime(hours[prayer]);
+    return acc;
+  }, {} as PrayerTimes);
+}
+
+/**
+ * Convert a formatted prayer time on a given day into an absolute Date.
+ * Returns null for times that could not be computed.
+ */
+export function prayerTimeToDate(dateKey: string, time: string, timezone: number): Date | null {
+  if (time === INVALID_TIME) {
+    return null;
+  }
+  const { year, month, day } = parseDateKey(dateKey);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes) - timezone * 3600000);
+}
+
+/**
+ * Find the next prayer (excluding sunrise) after `now`, if any remain today.
+ */
+export function getNextPrayer(
+  times: PrayerTimes,
+  dateKey: string,
+  timezone: number,
+  now: Date = new Date()
+): { prayer: PrayerName; at: Date } | null {
+  for (const prayer of PRAYER_NAMES) {
+    if (prayer === 'sunrise') continue;
+    const at = prayerTimeToDate(dateKey, times[prayer], timezone);
+    if (at && at.getTime() > now.getTime()) {
+      return { prayer, at };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,107 @@
+import { ExportedRecipient, RecipientRow } from '../types/api';
+
+/** Rows per `api.importRecipients()` call; the backend writes them in one batch. */
+export const MAX_IMPORT_ROWS = 200;
+
+const COLUMNS = ['email', 'name', 'group'] as const;
+
+/**
+ * Parse pasted recipients, as CSV with an `email,name,group` header (any
+ * order, `email` required) or as JSON: an array of rows, or an export
+ * (`{ rows: [...] }`). Rows are passed on as-is; the backend validates them.
+ * Throws with a message for the user if the text cannot be read at all.
+ */
+export function parseRecipients(text: string): RecipientRow[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Nothing to import');
+  }
+  return trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJson(trimmed) : parseCsv(trimmed);
+}
+
+/**
+ * Export rows as CSV in the format `parseRecipients()` reads.
+ */
+export function toRecipientCsv(rows: ExportedRecipient[]): string {
+  const lines = rows.map((row) =>
+    [row.email, row.name, row.group].map((value) => csvField(value ?? '')).join(',')
+  );
+  return [COLUMNS.join(','), ...lines].join('\n');
+}
+
+function parseJson(text: string): RecipientRow[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  const items = Array.isArray(data) ? data : data?.rows;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON must be an array of rows');
+  }
+  return items.map((item: any) => toRow(item?.email, item?.name, item?.group));
+}
+
+function parseCsv(text: string): RecipientRow[] {
+  const [header, ...records] = parseCsvRecords(text);
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const index = (column: (typeof COLUMNS)[number]) => columns.indexOf(column);
+  if (index('email') === -1) {
+    throw new Error('The first line must name the columns, including "email"');
+  }
+  return records
+    .filter((record) => record.some((field) => field.trim() !== ''))
+    .map((record) => toRow(record[index('email')], record[index('name')], record[index('group')]));
+}
+
+/**
+ * RFC 4180 records: quoted fields may hold commas, newlines and `""`.
+ */
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  records.push(record);
+  return records;
+}
+
+function toRow(email: unknown, name: unknown, group: unknown): RecipientRow {
+  const row: RecipientRow = { email: typeof email === 'string' ? email.trim() : '' };
+  if (typeof name === 'string' && name.trim()) row.name = name.trim();
+  if (typeof group === 'string' && group.trim()) row.group = group.trim();
+  return row;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,37 @@
+import { UserRole } from '../types/api';
+
+/** Roles users can pick at sign-up; `admin` is granted by another admin. */
+export const SIGN_UP_ROLES: UserRole[] = ['receiver', 'sender'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  receiver: 'Receiver',
+  sender: 'Sender',
+  admin: 'Admin',
+};
+
+const COMMON_SCREENS = ['Home', 'Settings'];
+
+const ROLE_SCREENS: Record<UserRole, string[]> = {
+  sender: ['SenderDashboard', 'History', 'DeliveryReport', 'Groups', 'ImportRecipients', 'Invites'],
+  receiver: ['ReceiverDashboard', 'JoinInvite', 'Subscriptions'],
+  admin: ['Users'],
+};
+
+const HOME_ACTIONS: Record<UserRole, { screen: string; title: string }> = {
+  sender: { screen: 'SenderDashboard', title: 'Open Sender Dashboard' },
+  receiver: { screen: 'ReceiverDashboard', title: 'Open Receiver Dashboard' },
+  admin: { screen: 'Users', title: 'Manage Users' },
+};
+
+/**
+ * Screens `AppNavigator` registers for a role. A user whose profile has no
+ * role yet (still being created) only gets the common screens.
+ */
+export function screensFor(role?: UserRole | null): string[] {
+  return [...COMMON_SCREENS, ...(role ? ROLE_SCREENS[role] : [])];
+}
+
+/** The main screen `HomeScreen` links to, if the role has one. */
+export function homeActionFor(role?: UserRole | null): { screen: string; title: string } | null {
+  return role ? HOME_ACTIONS[role] : null;
+}
@@ -0,0 +1,61 @@
+import { ChannelManager } from '../services/channelManager';
+
+/**
+ * Keeps a sender's live session leased while broadcasting.
+ * Renews the lease every HEARTBEAT_INTERVAL_MS and reports when renewals have
+ * been failing for longer than the lease, i.e. receivers now see the sender as lost.
+ */
+export class SessionHeartbeat {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sessionId: string | null = null;
+  private lastRenewedAt = 0;
+  private leaseLost = false;
+  private onLeaseLost?: () => void;
+
+  /**
+   * Start renewing the lease for a session.
+   */
+  start(sessionId: string, onLeaseLost?: () => void): void {
+    this.stop();
+    this.sessionId = sessionId;
+    this.onLeaseLost = onLeaseLost;
+    // startSession() grants the first lease
+    this.lastRenewedAt = Date.now();
+    this.leaseLost = false;
+
+    this.timer = setInterval(() => {
+      this.beat();
+    }, ChannelManager.HEARTBEAT_INTERVAL_MS);
+  }
+
+  private async beat(): Promise<void> {
+    const sessionId = this.sessionId;
+    if (!sessionId) return;
+
+    const renewed = await ChannelManager.renewLease(sessionId);
+    if (sessionId !== this.sessionId) return; // stopped meanwhile
+
+    if (renewed) {
+      this.lastRenewedAt = Date.now();
+      this.leaseLost = false;
+    } else if (
+      !this.leaseLost &&
+      Date.now() - this.lastRenewedAt > ChannelManager.LEASE_DURATION_MS
+    ) {
+      this.leaseLost = true;
+      this.onLeaseLost?.();
+    }
+  }
+
+  /**
+   * Stop renewing. The lease then lapses on its own unless the session was ended.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.sessionId = null;
+    this.onLeaseLost = undefined;
+  }
+}
@@ -1,64 +1,224 @@
-import RtcEngine from 'react-native-agora';
 import { generateAgoraToken } from '../services/api';
+import { AudioEngine } from '../services/audioEngine';
+
+export type TokenRefreshStatus = 'idle' | 'renewing' | 'renewed' | 'failed';
+
+export interface TokenRefreshEvent {
+  status: TokenRefreshStatus;
+  /** Expiry of the token currently in use by the engine, if known. */
+  expiresAt: Date | null;
+  attempt?: number;
+  error?: Error;
+}
+
+type StatusListener = (event: TokenRefreshEvent) => void;
+
+/**
+ * User-facing warning for a status event, or null when nothing needs showing.
+ */
+export function getTokenWarning(event: TokenRefreshEvent): string | null {
+  if (event.status === 'failed') {
+    const when = event.expiresAt
+      ? `at ${event.expiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : 'soon';
+    return `Could not renew audio access. Audio may drop ${when}.`;
+  }
+  if (event.status === 'renewing' && (event.attempt ?? 1) > 1) {
+    return 'Having trouble renewing audio access, retrying...';
+  }
+  return null;
+}
 
 /**
- * Handles Agora token refresh when token privilege is about to expire.
- * Agora SDK emits `TokenPrivilegeWillExpire` event; this handler requests a new token.
+ * Keeps the Agora token for a joined channel fresh.
+ * - Schedules renewal ahead of the `expiresAt` returned by the backend
+ * - Also reacts to the engine's `tokenWillExpire` and `tokenRequired` events
+ * - Retries failed renewals with exponential backoff
+ * - Emits status events (renewing / renewed / failed) so the UI can warn
+ *   before audio drops
  */
 export class TokenRefreshManager {
-  private engine: any = null;
+  private static readonly RENEW_BEFORE_EXPIRY_MS = 60 * 1000;
+  private static readonly MAX_ATTEMPTS = 5;
+  private static readonly BASE_RETRY_DELAY_MS = 1000;
+
+  private engine: AudioEngine | null = null;
   private channelName: string = '';
   private uid: number = 0;
   private role: 'publisher' | 'audience' = 'audience';
+  private expiresAt: Date | null = null;
+  private status: TokenRefreshStatus = 'idle';
+  private renewTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private resolveWait: (() => void) | null = null;
+  private inFlight: Promise<boolean> | null = null;
+  /** Bumped on initialize/cleanup so stale retries stop. */
+  private generation = 0;
+  private listeners: Set<StatusListener> = new Set();
+  private engineUnsubscribers: Array<() => void> = [];
 
   /**
-   * Initialize the token refresh manager with the Agora engine.
+   * Initialize the token refresh manager with the audio engine.
+   * @param expiresAt Expiry of the token the channel was joined with
    */
-  initialize(engine: any, channelName: string, uid: number, role: 'publisher' | 'audience'): void {
+  initialize(
+    engine: AudioEngine | null,
+    channelName: string,
+    uid: number,
+    role: 'publisher' | 'audience',
+    expiresAt?: string | Date | null
+  ): void {
+    this.cleanup();
+    this.generation++;
+
     this.engine = engine;
     this.channelName = channelName;
     this.uid = uid;
     this.role = role;
+    this.expiresAt = expiresAt ? new Date(expiresAt) : null;
 
-    // Listen for token expiration event
     if (this.engine) {
-      this.engine.addListener('TokenPrivilegeWillExpire', this.onTokenWillExpire.bind(this));
+      const onTokenEvent = () => {
+        this.renew();
+      };
+      this.engineUnsubscribers = [
+        this.engine.on('tokenWillExpire', onTokenEvent),
+        this.engine.on('tokenRequired', onTokenEvent),
+      ];
     }
+    this.scheduleRenewal();
   }
 
   /**
-   * Called when token is about to expire.
-   * Requests a new token from the backend and renews it.
+   * Subscribe to status changes. Returns an unsubscribe function.
    */
-  private async onTokenWillExpire(): Promise<void> {
-    try {
-      console.log('Token privilege will expire, requesting new token...');
+  onStatusChange(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): TokenRefreshStatus {
+    return this.status;
+  }
 
-      // Request new token from backend
-      const { token } = await generateAgoraToken(this.channelName, this.uid, this.role);
+  getExpiresAt(): Date | null {
+    return this.expiresAt;
+  }
+
+  /**
+   * Request a new token and hand it to the engine, retrying with backoff.
+   * Concurrent triggers (timer + engine events) share a single renewal.
+   */
+  renew(): Promise<boolean> {
+    if (!this.inFlight) {
+      const renewal: Promise<boolean> = this.renewWithRetry().finally(() => {
+        // cleanup() may have let a newer renewal start meanwhile
+        if (this.inFlight === renewal) {
+          this.inFlight = null;
+        }
+      });
+      this.inFlight = renewal;
+    }
+    return this.inFlight;
+  }
+
+  private async renewWithRetry(): Promise<boolean> {
+    const generation = this.generation;
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= TokenRefreshManager.MAX_ATTEMPTS; attempt++) {
+      if (generation !== this.generation || !this.engine) return false;
+      this.emit({ status: 'renewing', expiresAt: this.expiresAt, attempt });
+
+      try {
+        console.log('Renewing Agora token...');
+        const { token, expiresAt } = await generateAgoraToken(this.channelName, this.role, this.uid);
+        if (generation !== this.generation || !this.engine) return false;
+        if (!token) throw new Error('Backend returned no token');
 
-      if (this.engine && token) {
-        // Renew token in Agora engine
         await this.engine.renewToken(token);
+        this.expiresAt = expiresAt ? new Date(expiresAt) : null;
         console.log('Token renewed successfully');
+
+        this.emit({ status: 'renewed', expiresAt: this.expiresAt });
+        this.scheduleRenewal();
+        return true;
+      } catch (error) {
+        console.error(`Error renewing Agora token (attempt ${attempt}):`, error);
+        lastError = error as Error;
+      }
+
+      if (attempt < TokenRefreshManager.MAX_ATTEMPTS) {
+        await this.wait(TokenRefreshManager.BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
       }
-    } catch (error) {
-      console.error('Error renewing Agora token:', error);
-      // Optionally emit error callback or show user notification
     }
+
+    if (generation === this.generation) {
+      this.emit({ status: 'failed', expiresAt: this.expiresAt, error: lastError });
+    }
+    return false;
+  }
+
+  private scheduleRenewal(): void {
+    if (this.renewTimer) {
+      clearTimeout(this.renewTimer);
+      this.renewTimer = null;
+    }
+    if (!this.expiresAt) return;
+
+    const delay = Math.max(
+      0,
+      this.expiresAt.getTime() - Date.now() - TokenRefreshManager.RENEW_BEFORE_EXPIRY_MS
+    );
+    this.renewTimer = setTimeout(() => {
+      this.renewTimer = null;
+      this.renew();
+    }, delay);
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.resolveWait = resolve;
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.resolveWait = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  private emit(event: TokenRefreshEvent): void {
+    this.status = event.status;
+    this.listeners.forEach((listener) => listener(event));
   }
 
   /**
-   * Cleanup listeners when disconnecting.
+   * Cleanup listeners and timers when disconnecting.
    */
   cleanup(): void {
-    if (this.engine) {
-      this.engine.removeListener('TokenPrivilegeWillExpire', this.onTokenWillExpire.bind(this));
+    this.engineUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.engineUnsubscribers = [];
+    if (this.renewTimer) {
+      clearTimeout(this.renewTimer);
+      this.renewTimer = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
     }
+    // Let a pending backoff finish; it sees the new generation and stops
+    this.resolveWait?.();
+    this.resolveWait = null;
+    this.inFlight = null;
+    this.generation++;
     this.engine = null;
     this.channelName = '';
     this.uid = 0;
     this.role = 'audience';
+    this.expiresAt = null;
+    this.status = 'idle';
   }
 }
 